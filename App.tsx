@@ -1,21 +1,40 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { Header } from './components/Header';
 import { PRDInput } from './components/PRDInput';
 import { AnalysisResults } from './components/AnalysisResults';
 import { TestPlanDisplay } from './components/TestPlanDisplay';
 import { Spinner } from './components/ui/Spinner';
-import { analyzeInputs, generateFullTestPlan, generateQaDocumentation } from './services/geminiService';
-import type { Analysis, TestCase, InputData, TraceabilityMatrix } from './types';
+import { analyzeInputs, generateFullTestPlan, generateQaDocumentation, enhancePrd, PipelineError } from './services/geminiService';
+import { StreamInterruptedError, OperationCancelledError } from './services/providers';
+import type { Analysis, AnalysisFinding, PrdLintOptions, TestCase, GeneratedTestCase, InputData, TraceabilityMatrix, GenerationOptions, ProgressDetail, TemplateVersionRef, TestCaseParseIssue, PipelineStage, PipelineWarning, PlanCheckpoint } from './types';
 import { Step } from './types';
 import { Stepper } from './components/Stepper';
 import { Button } from './components/ui/Button';
-import { AlertTriangleIcon, RestartIcon, FileIcon } from './components/ui/icons';
+import { AlertTriangleIcon, RestartIcon, FileIcon, XIcon } from './components/ui/icons';
 import { Modal } from './components/ui/Modal';
 import { QADocsGenerator } from './components/QADocsGenerator';
 import { PrdDiffViewer } from './components/PrdDiffViewer';
+import { CacheManager } from './components/CacheManager';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { TemplateVersionsNote } from './components/TemplateVersionsNote';
+import { getStoryIds } from './utils/requirementParser';
+import { getAcceptedFindings } from './utils/findingTriage';
 import { Document, Packer, Paragraph, HeadingLevel } from 'docx';
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  generate: 'Plan Generation',
+  parse: 'Parsing',
+  prioritize: 'Prioritization',
+  traceability: 'Traceability',
+};
+
+interface FailedPlanRun {
+  stage: PipelineStage;
+  checkpoint: PlanCheckpoint;
+  options: GenerationOptions;
+}
+
 // Collapsible diff section for PRD comparison
 const PrdDiffSection: React.FC<{ original: string; enhanced: string }> = ({ original, enhanced }) => {
   const [showDiff, setShowDiff] = useState(false);
@@ -43,32 +62,39 @@ export default function App() {
   const [testCases, setTestCases] = useState<TestCase[] | null>(null);
   const [gherkin, setGherkin] = useState<string | null>(null);
   const [traceabilityMatrix, setTraceabilityMatrix] = useState<TraceabilityMatrix | null>(null);
+  const [parseIssues, setParseIssues] = useState<TestCaseParseIssue[]>([]);
+  const [planWarnings, setPlanWarnings] = useState<PipelineWarning[]>([]);
+  const [failedPlanRun, setFailedPlanRun] = useState<FailedPlanRun | null>(null);
+  const [streamingTestCases, setStreamingTestCases] = useState<GeneratedTestCase[] | null>(null);
   const [qaDocs, setQaDocs] = useState<string | null>(null);
   const [enhancedPrd, setEnhancedPrd] = useState<string | null>(null);
+  // Prompt template versions that produced each artifact
+  const [planTemplateVersions, setPlanTemplateVersions] = useState<TemplateVersionRef[]>([]);
+  const [qaDocsTemplateVersions, setQaDocsTemplateVersions] = useState<TemplateVersionRef[]>([]);
+  const [enhancedPrdTemplateVersions, setEnhancedPrdTemplateVersions] = useState<TemplateVersionRef[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [progressMessage, setProgressMessage] = useState<string>('');
+  const [progressDetail, setProgressDetail] = useState<ProgressDetail | null>(null);
   const [isResetModalOpen, setIsResetModalOpen] = useState(false);
-  // Enhanced PRD logic: send a prompt to AI to enhance and fill gaps in the PRD
-  const enhancePrdWithMissingItems = async (
-    inputData: InputData,
-    findings: Array<{ category: string; description: string; source_story_id?: string }> = []
-  ): Promise<string> => {
-    const prdText = inputData?.prdText || '';
-    let prompt = `You are a senior QA and product analyst. Enhance the following PRD by improving clarity, completeness, and structure. Add any missing areas based on these findings, and rewrite the PRD to be more actionable and readable for QA and development teams.\n\n`;
-    prompt += `PRD:\n${prdText}\n\n`;
-    if (findings && findings.length > 0) {
-      prompt += `Missing or weak areas identified by analysis:\n`;
-      findings.forEach((f) => {
-        prompt += `- ${f.category}: ${f.description}${f.source_story_id ? ` (Story: ${f.source_story_id})` : ''}\n`;
-      });
-    }
-    prompt += `\nPlease provide the enhanced PRD only, do not include commentary or notes.`;
-    // Call Gemini API for actual enhancement
-    const enhanced = await generateQaDocumentation({ prdText: prompt, files: [], figmaUrl: '' });
-    return enhanced;
-  };
+  const [isCacheModalOpen, setIsCacheModalOpen] = useState(false);
+  const [isPromptsModalOpen, setIsPromptsModalOpen] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const activeRequestRef = useRef<AbortController | null>(null);
+
+  // Starts a new AI request, aborting any earlier one. `isCurrent` turns false once the request
+  // is superseded or the app is reset, so late results never overwrite newer state.
+  const beginRequest = useCallback(() => {
+    activeRequestRef.current?.abort();
+    const controller = new AbortController();
+    activeRequestRef.current = controller;
+    return { signal: controller.signal, isCurrent: () => activeRequestRef.current === controller };
+  }, []);
 
+  // Aborts the in-flight request. It stays current, so its own error handling restores the previous step.
+  const handleCancel = useCallback(() => {
+    activeRequestRef.current?.abort();
+  }, []);
   const handleEnhancePrd = useCallback(async () => {
     if (!inputData) {
       setError('Input data is missing.');
@@ -78,23 +104,36 @@ export default function App() {
     setError(null);
     setProgressMessage('Enhancing PRD...');
     setStep(Step.ENHANCE_PRD);
+    const request = beginRequest();
 
     try {
-      const result = await enhancePrdWithMissingItems(inputData, analysis?.findings);
-      setEnhancedPrd(result);
+      const result = await enhancePrd(inputData, getAcceptedFindings(analysis?.findings || []), { signal: request.signal, bypassCache });
+      if (!request.isCurrent()) return;
+      setEnhancedPrd(result.text);
+      setEnhancedPrdTemplateVersions(result.templateVersions);
       setStep(Step.ENHANCE_PRD);
     } catch (e) {
-      setError('Failed to enhance PRD.');
+      if (!request.isCurrent()) return;
+      if (!(e instanceof OperationCancelledError)) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'Failed to enhance PRD.');
+      }
       setStep(Step.ANALYSIS_COMPLETE);
     } finally {
-      setIsLoading(false);
-      setProgressMessage('');
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setProgressMessage('');
+      }
     }
-  }, [inputData, analysis]);
+  }, [inputData, analysis, bypassCache, beginRequest]);
+
+  const handleFindingsChange = useCallback((findings: AnalysisFinding[]) => {
+    setAnalysis(prev => prev && { ...prev, findings });
+  }, []);
 
-  const handleAnalyze = useCallback(async (currentInputData: InputData) => {
-    if (!currentInputData.prdText?.trim() && currentInputData.files.length === 0 && !currentInputData.figmaUrl?.trim()) {
-      setError('At least one input (PRD, File, or Figma URL) is required.');
+  const handleAnalyze = useCallback(async (currentInputData: InputData, lintOptions?: PrdLintOptions) => {
+    if (!currentInputData.prdText?.trim() && currentInputData.files.length === 0 && !currentInputData.figmaUrl?.trim() && !currentInputData.figmaDesign && !currentInputData.apiSpec) {
+      setError('At least one input (PRD, File, Figma URL, Figma export or API specification) is required.');
       return;
     }
     setInputData(currentInputData);
@@ -106,22 +145,30 @@ export default function App() {
     setGherkin(null);
     setTraceabilityMatrix(null);
     setQaDocs(null);
+    setFailedPlanRun(null);
+    const request = beginRequest();
 
     try {
-      const result = await analyzeInputs(currentInputData);
+      const result = await analyzeInputs(currentInputData, { signal: request.signal, bypassCache, lint: lintOptions });
+      if (!request.isCurrent()) return;
       setAnalysis(result);
       setStep(Step.ANALYSIS_COMPLETE);
     } catch (e) {
-      console.error(e);
-      setError(e instanceof Error ? e.message : 'An unknown error occurred during analysis.');
+      if (!request.isCurrent()) return;
+      if (!(e instanceof OperationCancelledError)) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'An unknown error occurred during analysis.');
+      }
       setStep(Step.PRD_INPUT);
     } finally {
-      setIsLoading(false);
-      setProgressMessage('');
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setProgressMessage('');
+      }
     }
-  }, []);
+  }, [bypassCache, beginRequest]);
 
-  const handleGenerateFullPlan = useCallback(async () => {
+  const handleGenerateFullPlan = useCallback(async (options: GenerationOptions = {}) => {
     if (!inputData) {
       setError('Input data is missing. Please go back to the first step.');
       return;
@@ -131,33 +178,68 @@ export default function App() {
     setTestCases(null);
     setGherkin(null);
     setTraceabilityMatrix(null);
+    setFailedPlanRun(null);
+    const request = beginRequest();
     
     try {
       const { 
         testCases: resultCases, 
         gherkin: resultGherkin, 
         traceabilityMatrix: resultMatrix,
+        parseIssues: resultIssues,
+        warnings: resultWarnings,
+        templateVersions: resultTemplateVersions,
       } = await generateFullTestPlan(
         inputData, 
-        analysis?.findings,
-        (progress, currentStep) => {
+        getAcceptedFindings(analysis?.findings || []),
+        (progress, currentStep, detail) => {
+          if (!request.isCurrent()) return;
           setProgressMessage(progress);
+          setProgressDetail(detail ?? null);
           setStep(currentStep);
+        },
+        {
+          ...options,
+          bypassCache,
+          onPartialTestCases: partialCases => request.isCurrent() && setStreamingTestCases(partialCases),
+          signal: request.signal,
         }
       );
+      if (!request.isCurrent()) return;
       setTestCases(resultCases);
       setGherkin(resultGherkin);
       setTraceabilityMatrix(resultMatrix);
+      setParseIssues(resultIssues);
+      setPlanWarnings(resultWarnings);
+      setPlanTemplateVersions(resultTemplateVersions);
       setStep(Step.PLAN_GENERATED);
     } catch (e) {
+      if (!request.isCurrent()) return;
+      if (e instanceof OperationCancelledError) {
+        setStep(Step.ANALYSIS_COMPLETE);
+        return;
+      }
       console.error(e);
       setError(e instanceof Error ? e.message : 'An unknown error occurred during test plan generation.');
+      if (e instanceof PipelineError) {
+        // Keep completed stages so the user can retry just the one that failed.
+        setFailedPlanRun({ stage: e.stage, checkpoint: e.checkpoint, options: { ...options, resumeFrom: undefined } });
+      }
       setStep(Step.ANALYSIS_COMPLETE); // Revert to previous step on error
     } finally {
-      setIsLoading(false);
-      setProgressMessage('');
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setProgressMessage('');
+        setProgressDetail(null);
+        setStreamingTestCases(null);
+      }
     }
-  }, [inputData, analysis]);
+  }, [inputData, analysis, bypassCache, beginRequest]);
+
+  const handleRetryFailedStage = useCallback(() => {
+    if (!failedPlanRun) return;
+    handleGenerateFullPlan({ ...failedPlanRun.options, resumeFrom: failedPlanRun.checkpoint });
+  }, [failedPlanRun, handleGenerateFullPlan]);
 
   const handleGenerateQaDocs = useCallback(async () => {
     if (!inputData) {
@@ -167,33 +249,68 @@ export default function App() {
     setIsLoading(true);
     setError(null);
     setQaDocs(null);
+    setQaDocsTemplateVersions([]);
     setProgressMessage('Generating comprehensive QA documentation...');
     setStep(Step.GENERATING_QA_DOCS);
+    const request = beginRequest();
 
     try {
-      const result = await generateQaDocumentation(inputData);
-      setQaDocs(result);
+      const result = await generateQaDocumentation(
+        inputData,
+        markdown => request.isCurrent() && setQaDocs(markdown),
+        { signal: request.signal, bypassCache }
+      );
+      if (!request.isCurrent()) return;
+      setQaDocs(result.text);
+      setQaDocsTemplateVersions(result.templateVersions);
       setStep(Step.QA_DOCS_GENERATED);
     } catch (e) {
+      if (!request.isCurrent()) return;
+      if (e instanceof OperationCancelledError) {
+        setQaDocs(null);
+        setStep(Step.PLAN_GENERATED);
+        return;
+      }
       console.error(e);
       setError(e instanceof Error ? e.message : 'An unknown error occurred during QA documentation generation.');
-      setStep(Step.PLAN_GENERATED); // Revert to previous step on error
+      if (e instanceof StreamInterruptedError) {
+        // Keep what was streamed before the failure.
+        setQaDocs(e.partialText);
+        setStep(Step.QA_DOCS_GENERATED);
+      } else {
+        setQaDocs(null);
+        setStep(Step.PLAN_GENERATED); // Revert to previous step on error
+      }
     } finally {
-      setIsLoading(false);
-      setProgressMessage('');
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setProgressMessage('');
+      }
     }
-  }, [inputData]);
+  }, [inputData, bypassCache, beginRequest]);
 
   const handleReset = () => {
+    // Drop whatever is still in flight so it can't repopulate the cleared state.
+    activeRequestRef.current?.abort();
+    activeRequestRef.current = null;
     setStep(Step.PRD_INPUT);
     setInputData(null);
     setAnalysis(null);
     setTestCases(null);
     setGherkin(null);
     setTraceabilityMatrix(null);
+    setParseIssues([]);
+    setPlanWarnings([]);
+    setPlanTemplateVersions([]);
+    setFailedPlanRun(null);
     setQaDocs(null);
+    setQaDocsTemplateVersions([]);
+    setStreamingTestCases(null);
     setError(null);
     setIsLoading(false);
+    setProgressMessage('');
+    setProgressDetail(null);
+    setBypassCache(false);
     setIsResetModalOpen(false);
   };
   
@@ -201,24 +318,50 @@ export default function App() {
     <div className="flex flex-col items-center justify-center p-8 bg-black/60 backdrop-blur-sm rounded-2xl shadow-2xl">
       <Spinner />
       <p className="mt-4 text-lg text-blue-300">{message}</p>
+      {progressDetail && (
+        <div className="mt-4 w-64 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all duration-500 ease-out"
+            style={{ width: `${(progressDetail.completed / progressDetail.total) * 100}%` }}
+          ></div>
+        </div>
+      )}
+      {isLoading && (
+        <Button onClick={handleCancel} variant="secondary" size="sm" className="mt-6">
+          <XIcon className="h-4 w-4 mr-1.5" />
+          Cancel
+        </Button>
+      )}
     </div>
   );
 
   const renderStepContent = () => {
-    if (isLoading && (step === Step.PRD_INPUT || step === Step.ANALYSIS_COMPLETE || step === Step.PLAN_GENERATED)) {
+    if (isLoading && (step === Step.ANALYSIS_COMPLETE || step === Step.PLAN_GENERATED)) {
         return renderLoadingState(progressMessage || 'Processing...');
     }
 
     switch (step) {
       case Step.PRD_INPUT:
-        return <PRDInput onAnalyze={handleAnalyze} isLoading={isLoading} />;
+        // PRDInput stays mounted while analyzing, so a cancelled or failed analysis keeps every input.
+        return (
+          <>
+            {isLoading && renderLoadingState(progressMessage || 'Processing...')}
+            <div className={isLoading ? 'hidden' : undefined}>
+              <PRDInput onAnalyze={handleAnalyze} isLoading={isLoading} bypassCache={bypassCache} onBypassCacheChange={setBypassCache} />
+            </div>
+          </>
+        );
       case Step.ANALYSIS_COMPLETE:
         return analysis ? (
           <>
             <AnalysisResults 
               analysis={analysis} 
+              onFindingsChange={handleFindingsChange}
               onGeneratePlan={handleGenerateFullPlan} 
               isLoading={isLoading}
+              bypassCache={bypassCache}
+              onBypassCacheChange={setBypassCache}
+              storyCount={inputData ? getStoryIds(inputData.requirements).length + (inputData.apiSpec?.operations.length || 0) : 0}
             />
             <div className="mt-6 flex justify-center">
               <Button onClick={handleEnhancePrd} size="lg">
@@ -230,7 +373,8 @@ export default function App() {
       case Step.ENHANCE_PRD:
         return enhancedPrd ? (
           <div className="max-w-3xl mx-auto bg-black rounded-lg p-6 border border-gray-700">
-            <h2 className="text-2xl font-bold text-white mb-4">Enhanced PRD</h2>
+            <h2 className="text-2xl font-bold text-white mb-1">Enhanced PRD</h2>
+            <TemplateVersionsNote versions={enhancedPrdTemplateVersions} className="mb-4" />
             <div className="whitespace-pre-wrap text-gray-200 mb-4" style={{ fontFamily: 'inherit', fontSize: '1rem', lineHeight: '1.6' }}>
               {(() => {
                 // Detect and render Test Case Matrix table as HTML table
@@ -438,8 +582,9 @@ export default function App() {
                 Download as PDF
               </Button>
               <Button
-                onClick={() => setStep(Step.GENERATING_PLAN)}
+                onClick={() => handleGenerateFullPlan()}
                 size="lg"
+                disabled={isLoading}
               >
                 Continue to Generate Plan
               </Button>
@@ -447,16 +592,32 @@ export default function App() {
           </div>
         ) : renderLoadingState(progressMessage || 'Enhancing PRD...');
       case Step.GENERATING_PLAN:
+      case Step.CONSOLIDATING_PLAN:
       case Step.PRIORITIZING_PLAN:
       case Step.GENERATING_TRACEABILITY:
-         return renderLoadingState(progressMessage || "Processing...");
+         return streamingTestCases && streamingTestCases.length > 0 ? (
+          <>
+            <div className="mb-6">{renderLoadingState(progressMessage || "Processing...")}</div>
+            <TestPlanDisplay
+              testCases={streamingTestCases.map(tc => ({ ...tc, priority: 'TBD', priority_reasoning: 'Pending prioritization.' }))}
+              gherkin=""
+              traceabilityMatrix={{ matrix: [], uncovered_story_ids: [], unknown_story_references: [] }}
+              features={inputData?.features}
+              isStreaming
+            />
+          </>
+        ) : renderLoadingState(progressMessage || "Processing...");
       case Step.PLAN_GENERATED:
-        return testCases && gherkin && traceabilityMatrix ? (
+        return testCases && gherkin !== null && traceabilityMatrix ? (
           <>
             <TestPlanDisplay 
               testCases={testCases} 
               gherkin={gherkin} 
               traceabilityMatrix={traceabilityMatrix}
+              parseIssues={parseIssues}
+              warnings={planWarnings}
+              templateVersions={planTemplateVersions}
+              features={inputData?.features}
             />
             <div className="mt-8 flex justify-center gap-4">
                <Button onClick={() => setIsResetModalOpen(true)} variant="secondary" size="lg">
@@ -471,11 +632,21 @@ export default function App() {
           </>
         ) : null;
       case Step.GENERATING_QA_DOCS:
-        return renderLoadingState(progressMessage || "Generating QA Documentation...");
+        return qaDocs ? (
+          <>
+            <QADocsGenerator docs={qaDocs} isStreaming />
+            <div className="mt-6 text-center">
+              <Button onClick={handleCancel} variant="secondary">
+                <XIcon className="h-4 w-4 mr-1.5" />
+                Cancel
+              </Button>
+            </div>
+          </>
+        ) : renderLoadingState(progressMessage || "Generating QA Documentation...");
       case Step.QA_DOCS_GENERATED:
         return qaDocs ? (
           <>
-            <QADocsGenerator docs={qaDocs} />
+            <QADocsGenerator docs={qaDocs} templateVersions={qaDocsTemplateVersions} />
             {inputData && enhancedPrd && (
               <PrdDiffSection original={inputData.prdText || ''} enhanced={enhancedPrd} />
             )}
@@ -494,13 +665,22 @@ export default function App() {
 
   return (
     <div className="min-h-screen font-sans">
-      <Header />
+      <Header onOpenCache={() => setIsCacheModalOpen(true)} onOpenPrompts={() => setIsPromptsModalOpen(true)} />
       <main className="container mx-auto p-4 md:p-8">
         <div className="max-w-6xl mx-auto">
           {error && (
             <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg relative mb-6 animate-fade-in" role="alert">
               <strong className="font-bold">Error: </strong>
               <span className="block sm:inline">{error}</span>
+              {failedPlanRun && step === Step.ANALYSIS_COMPLETE && !isLoading && (
+                <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <Button onClick={handleRetryFailedStage} variant="secondary" size="sm">
+                    <RestartIcon className="h-4 w-4 mr-1.5" />
+                    Retry {STAGE_LABELS[failedPlanRun.stage]}
+                  </Button>
+                  <span className="text-sm text-red-200/80">Results from the stages that already completed will be reused.</span>
+                </div>
+              )}
             </div>
           )}
 
@@ -513,7 +693,7 @@ export default function App() {
             </div>
           )}
           
-          <Stepper currentStep={step} />
+          <Stepper currentStep={step} detail={progressDetail} />
 
           <div key={step} className="animate-fade-in mt-6">
             {renderStepContent()}
@@ -540,6 +720,21 @@ export default function App() {
               </Button>
           </div>
       </Modal>
+      <Modal
+          isOpen={isCacheModalOpen}
+          onClose={() => setIsCacheModalOpen(false)}
+          title="Response Cache"
+        >
+          <CacheManager />
+      </Modal>
+      <Modal
+          isOpen={isPromptsModalOpen}
+          onClose={() => setIsPromptsModalOpen(false)}
+          title="Prompt Templates"
+          size="xl"
+        >
+          <PromptTemplateEditor />
+      </Modal>
     </div>
   );
 }
@@ -0,0 +1,249 @@
+// cli/index.ts
+
+import { existsSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { analyzeInputs, enhancePrd, generateFullTestPlan, generateQaDocumentation } from '../services/geminiService';
+import { OperationCancelledError, StreamInterruptedError, getProvider } from '../services/providers';
+import { CHUNKING_STORY_THRESHOLD, DEFAULT_CHUNKING } from '../constants';
+import type { FindingSeverity, GenerationOptions, InputData, TemplateVersionRef } from '../types';
+import { convertToCSV, findingsToCSV, splitGherkinFeatures, traceabilityToMarkdown } from '../utils/planExport';
+import { FINDING_SEVERITIES, getAcceptedFindings, triageBySeverity } from '../utils/findingTriage';
+import { estimateInputPayload, getPayloadThresholds, getPayloadWarnings } from '../utils/payloadEstimator';
+import { getStoryIds } from '../utils/requirementParser';
+import { buildProjectInput, groupTestCasesByFeature } from '../utils/projectModel';
+import { loadInputsFromPaths, loadProjectFromFile } from './nodeInputs';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_COVERAGE_GAPS = 3;
+const EXIT_CANCELLED = 130;
+
+const USAGE = `Usage: npm run cli -- --prd <file> [options]
+       npm run cli -- --project <file> [--feature <name>] [options]
+
+Runs analysis, test plan generation and QA documentation without the UI.
+
+Inputs:
+  --prd <file>                PRD as Markdown, plain text, .docx or .pdf; repeatable
+  --tickets <file>            Jira CSV/XML, Linear CSV or Azure DevOps CSV export; keys become story IDs
+  --image <file>              Design image (png, jpg, gif, webp); repeatable
+  --video <file>              Screen recording (mp4, webm, mov); repeatable, needs ffmpeg
+  --figma <url>               Figma link included in the prompt
+  --figma-json <file>         Figma REST API file export; its frames, elements and links are summarized
+  --openapi <file>            OpenAPI 3 or Swagger 2 spec (JSON or YAML); operationIds become story IDs
+  --project <file>            Project JSON with a "features" array, each with its own prd, tickets, images,
+                              videos, figma, figmaJson and openapi; replaces the inputs above
+  --feature <name>            With --project, only analyze this feature (default: all, grouped by feature)
+
+Options:
+  --out <dir>                 Output directory (default: qa-plan-output)
+  --enhance                   Also write an enhanced PRD that addresses the findings
+  --min-severity <level>      Only use findings of this severity or above (critical, high, medium, low);
+                              the others are dismissed (default: low, i.e. every finding is accepted)
+  --skip-docs                 Do not generate the QA documentation
+  --stories-per-chunk <n>     Generate the plan per chunk of n stories; 0 disables chunking
+                              (default: ${DEFAULT_CHUNKING.storiesPerChunk} when the PRD has ${CHUNKING_STORY_THRESHOLD}+ stories)
+  --allow-gaps                Exit 0 even when the traceability matrix has coverage gaps
+  -h, --help                  Show this help
+
+Exit codes: ${EXIT_OK} success, ${EXIT_FAILED} failure, ${EXIT_USAGE} invalid arguments, ${EXIT_COVERAGE_GAPS} coverage gaps.`;
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+// `npm run cli` runs from the package root; resolve the user's paths against where they invoked it.
+const baseDir = process.env.INIT_CWD || process.cwd();
+const resolvePath = (filePath: string) => path.resolve(baseDir, filePath);
+
+// Same key file as the Vite dev server and the proxy.
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+// Reads a project file into the inputs of one run: every feature, or only the named one.
+const loadProject = async (projectPath: string, featureName?: string): Promise<InputData> => {
+    const features = await loadProjectFromFile(projectPath);
+    if (!featureName) return buildProjectInput(features);
+    const feature = features.find(f => f.name.toLowerCase() === featureName.trim().toLowerCase());
+    if (!feature) {
+        throw new Error(`The project has no feature named "${featureName}" (features: ${features.map(f => f.name).join(', ')}).`);
+    }
+    return buildProjectInput([feature]);
+};
+
+const parseCommandLine = () => {
+    const { values } = parseArgs({
+        options: {
+            prd: { type: 'string', multiple: true, default: [] },
+            tickets: { type: 'string', multiple: true, default: [] },
+            image: { type: 'string', multiple: true, default: [] },
+            video: { type: 'string', multiple: true, default: [] },
+            figma: { type: 'string' },
+            'figma-json': { type: 'string' },
+            openapi: { type: 'string' },
+            project: { type: 'string' },
+            feature: { type: 'string' },
+            out: { type: 'string', default: 'qa-plan-output' },
+            enhance: { type: 'boolean', default: false },
+            'skip-docs': { type: 'boolean', default: false },
+            'stories-per-chunk': { type: 'string' },
+            'min-severity': { type: 'string', default: 'low' },
+            'allow-gaps': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    const storiesPerChunk = values['stories-per-chunk'] === undefined ? undefined : Number(values['stories-per-chunk']);
+    if (storiesPerChunk !== undefined && (!Number.isInteger(storiesPerChunk) || storiesPerChunk < 0)) {
+        throw new Error('--stories-per-chunk must be a whole number of stories (0 disables chunking).');
+    }
+    const minSeverity = values['min-severity'].toLowerCase() as FindingSeverity;
+    if (!FINDING_SEVERITIES.includes(minSeverity)) {
+        throw new Error(`--min-severity must be one of ${FINDING_SEVERITIES.join(', ')}.`);
+    }
+    const hasInputs = values.prd.length > 0 || values.tickets.length > 0 || values.image.length > 0 || values.video.length > 0 || values.figma || values['figma-json'] || values.openapi;
+    if (values.project && hasInputs) {
+        throw new Error('--project cannot be combined with other inputs; list them in the project file.');
+    }
+    if (values.feature && !values.project) {
+        throw new Error('--feature needs a --project file.');
+    }
+    if (!values.help && !values.project && values.prd.length === 0 && values.tickets.length === 0 && values.image.length === 0 && values.video.length === 0 && !values.figma && !values['figma-json'] && !values.openapi) {
+        throw new Error('At least one input (--prd, --tickets, --image, --video, --figma, --figma-json, --openapi or --project) is required.');
+    }
+    return { ...values, storiesPerChunk, minSeverity };
+};
+
+const main = async (): Promise<number> => {
+    let args: ReturnType<typeof parseCommandLine>;
+    try {
+        args = parseCommandLine();
+    } catch (error) {
+        log(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+    if (args.help) {
+        log(USAGE);
+        return EXIT_OK;
+    }
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        log('Cancelling...');
+        controller.abort();
+    });
+    const outDir = resolvePath(args.out);
+    const write = async (fileName: string, content: string) => {
+        const filePath = path.join(outDir, fileName);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, content);
+        log(`  wrote ${path.relative(baseDir, filePath)}`);
+    };
+    const templateVersions: TemplateVersionRef[] = [];
+
+    try {
+        const inputs = args.project ? await loadProject(resolvePath(args.project), args.feature) : await loadInputsFromPaths({
+            prds: args.prd.map(resolvePath),
+            tickets: args.tickets.map(resolvePath),
+            images: args.image.map(resolvePath),
+            videos: args.video.map(resolvePath),
+            figmaUrl: args.figma,
+            figmaJson: args['figma-json'] && resolvePath(args['figma-json']),
+            openApi: args.openapi && resolvePath(args.openapi),
+        });
+        const features = inputs.features || [];
+        getPayloadWarnings(estimateInputPayload(inputs), getPayloadThresholds()).forEach(warning => log(`Warning: ${warning}`));
+        await write('requirements.json', JSON.stringify(inputs.requirements, null, 2));
+        const provider = getProvider();
+        log(`Using ${provider.name} (${provider.model}).`);
+
+        log('Analyzing inputs...');
+        const analysis = await analyzeInputs(inputs, { signal: controller.signal });
+        templateVersions.push(...(analysis.templateVersions || []));
+        // Without anyone to triage them, findings are accepted or dismissed by severity alone.
+        analysis.findings = triageBySeverity(analysis.findings, args.minSeverity);
+        const findings = getAcceptedFindings(analysis.findings);
+        await write('analysis.json', JSON.stringify(analysis, null, 2));
+        await write('finding-triage.csv', findingsToCSV(analysis.findings));
+        log(`  ${analysis.findings.length} finding${analysis.findings.length === 1 ? '' : 's'}, ${findings.length} accepted.`);
+
+        if (args.enhance) {
+            log('Enhancing PRD...');
+            const enhanced = await enhancePrd(inputs, findings, { signal: controller.signal });
+            templateVersions.push(...enhanced.templateVersions);
+            await write('enhanced-prd.md', enhanced.text);
+        }
+
+        // Same default as the analysis screen: chunk once the PRD has enough stories (API operations count as stories).
+        const storyCount = getStoryIds(inputs.requirements).length + (inputs.apiSpec?.operations.length || 0);
+        const storiesPerChunk = args.storiesPerChunk ?? (storyCount >= CHUNKING_STORY_THRESHOLD ? DEFAULT_CHUNKING.storiesPerChunk : 0);
+        const options: GenerationOptions = {
+            signal: controller.signal,
+            ...(storiesPerChunk > 0 && { chunking: { ...DEFAULT_CHUNKING, storiesPerChunk } }),
+        };
+        let lastProgress = '';
+        const plan = await generateFullTestPlan(inputs, findings, (message, _step, detail) => {
+            const line = detail ? `${message} (${detail.label} ${detail.completed}/${detail.total})` : message;
+            if (line !== lastProgress) log(line);
+            lastProgress = line;
+        }, options);
+        templateVersions.push(...plan.templateVersions);
+        plan.warnings.forEach(warning => log(`Warning (${warning.stage}): ${warning.message}`));
+        plan.parseIssues.forEach(issue => log(`Skipped test case ${issue.row || ''}: ${issue.reason}`));
+
+        await write('test-cases.csv', convertToCSV(plan.testCases, features));
+        await write('test-cases.json', JSON.stringify(plan.testCases, null, 2));
+        for (const feature of splitGherkinFeatures(plan.gherkin)) {
+            await write(path.join('features', feature.fileName), feature.content);
+        }
+        await write('traceability.md', traceabilityToMarkdown(plan.traceabilityMatrix, features));
+        await write('traceability.json', JSON.stringify(plan.traceabilityMatrix, null, 2));
+
+        if (!args['skip-docs']) {
+            log('Generating QA documentation...');
+            const docs = await generateQaDocumentation(inputs, undefined, { signal: controller.signal });
+            templateVersions.push(...docs.templateVersions);
+            await write('qa-docs.md', docs.text);
+        }
+
+        const { uncovered_story_ids: uncovered, unknown_story_references: unknownReferences } = plan.traceabilityMatrix;
+        const hasGaps = uncovered.length > 0 || unknownReferences.length > 0;
+        const exitCode = hasGaps && !args['allow-gaps'] ? EXIT_COVERAGE_GAPS : EXIT_OK;
+        await write('summary.json', JSON.stringify({
+            provider: provider.id,
+            model: provider.model,
+            findings: analysis.findings.length,
+            acceptedFindings: findings.length,
+            testCases: plan.testCases.length,
+            ...(features.length > 0 && {
+                features: groupTestCasesByFeature(plan.testCases, features).map(({ feature, items }) => ({ name: feature?.name ?? null, testCases: items.length })),
+            }),
+            uncoveredStoryIds: uncovered,
+            unknownStoryReferences: unknownReferences,
+            warnings: plan.warnings,
+            parseIssues: plan.parseIssues.length,
+            templateVersions,
+            exitCode,
+        }, null, 2));
+
+        log(`${plan.testCases.length} test cases written to ${path.relative(baseDir, outDir) || '.'}.`);
+        if (uncovered.length > 0) log(`Coverage gap: no test cases for ${uncovered.join(', ')}.`);
+        if (unknownReferences.length > 0) log(`Coverage gap: ${unknownReferences.length} test case(s) reference unknown stories.`);
+        return exitCode;
+    } catch (error) {
+        if (error instanceof OperationCancelledError) {
+            log('Cancelled.');
+            return EXIT_CANCELLED;
+        }
+        if (error instanceof StreamInterruptedError && error.partialText) {
+            await write('qa-docs.partial.md', error.partialText).catch(() => undefined);
+        }
+        log(`Error: ${error instanceof Error ? error.message : error}`);
+        return EXIT_FAILED;
+    }
+};
+
+main().then(code => {
+    process.exitCode = code;
+});
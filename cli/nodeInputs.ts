@@ -0,0 +1,242 @@
+// cli/nodeInputs.ts
+
+import { execFile } from 'node:child_process';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { ApiSpec, FigmaDesign, FileData, InputData, ProjectFeature } from '../types';
+import { parseRequirements } from '../utils/requirementParser';
+import { extractDocumentText, mergeDocuments } from '../utils/documentImporter';
+import { parseFigmaExport } from '../utils/figmaParser';
+import { parseApiSpec } from '../utils/openApiParser';
+import { readTicketExport, suggestTicketMapping, ticketsFromTable, ticketsToPrd } from '../utils/ticketImporter';
+import { SIGNATURE_SIZE, getSampleInterval, getVideoFrameOptions, selectKeyframes } from '../utils/sceneDetection';
+import type { FrameSample } from '../utils/sceneDetection';
+
+const run = promisify(execFile);
+
+const MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+    '.mov': 'video/quicktime',
+};
+
+const getMimeType = (filePath: string, kind: 'image' | 'video'): string => {
+    const mimeType = MIME_TYPES[path.extname(filePath).toLowerCase()];
+    if (!mimeType?.startsWith(`${kind}/`)) {
+        const supported = Object.keys(MIME_TYPES).filter(ext => MIME_TYPES[ext].startsWith(`${kind}/`)).join(', ');
+        throw new Error(`"${filePath}" is not a supported ${kind} (${supported}).`);
+    }
+    return mimeType;
+};
+
+/** Reads the duration of a video with ffprobe. */
+const probeDuration = async (filePath: string): Promise<number> => {
+    let duration: number;
+    try {
+        const { stdout } = await run('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', filePath]);
+        duration = parseFloat(stdout);
+    } catch (error) {
+        throw new Error(`Could not read "${filePath}". Video inputs need ffmpeg and ffprobe on the PATH. ${error instanceof Error ? error.message : ''}`);
+    }
+    if (!duration || !isFinite(duration)) {
+        throw new Error(`"${filePath}" has no duration or is invalid.`);
+    }
+    return duration;
+};
+
+/**
+ * Extracts JPEG keyframes at the video's scene changes with ffmpeg, mirroring what the browser does
+ * with a canvas: small grayscale samples are compared, then the selected frames are decoded at size.
+ * Requires `ffmpeg` and `ffprobe` on the PATH.
+ */
+const extractFramesWithFfmpeg = async (filePath: string): Promise<{ frames: string[]; frameTimes: number[] }> => {
+    const options = getVideoFrameOptions();
+    const duration = await probeDuration(filePath);
+    const interval = getSampleInterval(duration);
+    const { stdout: raw } = await run(
+        'ffmpeg',
+        ['-v', 'error', '-i', filePath, '-vf', `fps=1/${interval},scale=${SIGNATURE_SIZE}:${SIGNATURE_SIZE},format=gray`, '-f', 'rawvideo', '-'],
+        { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024 }
+    );
+    const frameBytes = SIGNATURE_SIZE * SIGNATURE_SIZE;
+    const samples: FrameSample[] = [];
+    for (let offset = 0; offset + frameBytes <= raw.length; offset += frameBytes) {
+        // The fps filter emits its n-th frame at n × interval.
+        samples.push({ time: Math.min(duration, samples.length * interval), signature: raw.subarray(offset, offset + frameBytes) });
+    }
+
+    const size = options.maxDimension;
+    const scale = `scale=w='if(gt(iw,ih),min(iw,${size}),-2)':h='if(gt(iw,ih),-2,min(ih,${size}))'`;
+    const frames: string[] = [];
+    const frameTimes: number[] = [];
+    for (const index of selectKeyframes(samples, options)) {
+        const { time } = samples[index];
+        const { stdout } = await run(
+            'ffmpeg',
+            ['-v', 'error', '-ss', String(time), '-i', filePath, '-frames:v', '1', '-vf', scale, '-f', 'image2pipe', '-vcodec', 'mjpeg', '-q:v', '3', '-'],
+            { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024 }
+        );
+        if (stdout.length === 0) continue; // Seeking past the last decodable frame yields nothing
+        frames.push(`data:image/jpeg;base64,${stdout.toString('base64')}`);
+        frameTimes.push(time);
+    }
+    return { frames, frameTimes };
+};
+
+const loadFile = async (filePath: string, kind: 'image' | 'video', index: number): Promise<FileData> => {
+    const type = getMimeType(filePath, kind);
+    const { size } = await stat(filePath);
+    const file: FileData = {
+        tempId: `cli-${index}`,
+        name: path.basename(filePath),
+        type,
+        size,
+        dataUrl: '',
+        isProcessing: false,
+    };
+    if (kind === 'video') {
+        Object.assign(file, await extractFramesWithFfmpeg(filePath));
+    } else {
+        file.dataUrl = `data:${type};base64,${(await readFile(filePath)).toString('base64')}`;
+    }
+    return file;
+};
+
+/** Reads a PRD file; Word and PDF documents are converted to Markdown, anything else is read as text. */
+const readPrd = async (filePath: string): Promise<string> => {
+    if (!['.docx', '.pdf'].includes(path.extname(filePath).toLowerCase())) {
+        return readFile(filePath, 'utf8');
+    }
+    const data = await readFile(filePath);
+    try {
+        return await extractDocumentText(filePath, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+    } catch (error) {
+        throw new Error(`Could not import "${filePath}": ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+/** Converts an issue tracker export to PRD stories using the suggested column mapping. */
+const readTickets = async (filePath: string): Promise<string> => {
+    try {
+        const table = readTicketExport(path.basename(filePath), await readFile(filePath, 'utf8'));
+        const { tickets } = ticketsFromTable(table, suggestTicketMapping(table));
+        if (tickets.length === 0) {
+            throw new Error('No ticket has a usable ID; check that the export has an issue key or ID column.');
+        }
+        return ticketsToPrd(tickets, table);
+    } catch (error) {
+        throw new Error(`Could not import the tickets in "${filePath}": ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+/**
+ * Reads the CLI's input paths into the same InputData the upload screen builds.
+ * @param paths The PRD files (Markdown, plain text, .docx or .pdf), image and video paths, and an optional
+ * Figma URL, Figma JSON export and OpenAPI/Swagger specification. Several PRD files are merged with a "Source" heading before each, like
+ * the upload screen does. Ticket exports (Jira, Linear, Azure DevOps) are appended as stories.
+ */
+export const loadInputsFromPaths = async (paths: {
+    prds: string[];
+    tickets?: string[];
+    images: string[];
+    videos: string[];
+    figmaUrl?: string;
+    figmaJson?: string;
+    openApi?: string;
+}): Promise<InputData> => {
+    const prds = await Promise.all(paths.prds.map(async filePath => ({ name: path.basename(filePath), text: await readPrd(filePath) })));
+    const tickets = await Promise.all((paths.tickets || []).map(readTickets));
+    const prdText = [prds.length > 1 ? mergeDocuments(prds) : prds[0]?.text || '', ...tickets].filter(Boolean).join('\n\n');
+    const files: FileData[] = [];
+    for (const imagePath of paths.images) {
+        files.push(await loadFile(imagePath, 'image', files.length));
+    }
+    for (const videoPath of paths.videos) {
+        files.push(await loadFile(videoPath, 'video', files.length));
+    }
+    let figmaDesign: FigmaDesign | null = null;
+    if (paths.figmaJson) {
+        try {
+            figmaDesign = parseFigmaExport(JSON.parse(await readFile(paths.figmaJson, 'utf8')), path.basename(paths.figmaJson));
+        } catch (error) {
+            throw new Error(`Could not read the Figma export "${paths.figmaJson}": ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    let apiSpec: ApiSpec | null = null;
+    if (paths.openApi) {
+        try {
+            apiSpec = parseApiSpec(await readFile(paths.openApi, 'utf8'), path.basename(paths.openApi));
+        } catch (error) {
+            throw new Error(`Could not read the API specification "${paths.openApi}": ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    return { prdText, files, figmaUrl: paths.figmaUrl || '', figmaDesign, apiSpec, requirements: parseRequirements(prdText) };
+};
+
+// A feature in a project file; paths are relative to the project file.
+interface ProjectFileFeature {
+    name?: unknown;
+    prd?: unknown;
+    tickets?: unknown;
+    images?: unknown;
+    videos?: unknown;
+    figma?: unknown;
+    figmaJson?: unknown;
+    openapi?: unknown;
+}
+
+/**
+ * Reads a project file: JSON with a `features` array, each feature naming its own inputs, e.g.
+ * `{ "features": [{ "name": "Checkout", "prd": ["checkout.md"], "images": ["cart.png"], "openapi": "orders.yaml" }] }`.
+ * `prd`, `tickets`, `images` and `videos` take a path or a list of paths; `figma` is a URL, `figmaJson`
+ * and `openapi` a path. Relative paths are resolved against the project file's directory.
+ * @returns The features in file order, ready for buildProjectInput().
+ */
+export const loadProjectFromFile = async (projectPath: string): Promise<ProjectFeature[]> => {
+    let project: { features?: unknown };
+    try {
+        project = JSON.parse(await readFile(projectPath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not read the project file "${projectPath}": ${error instanceof Error ? error.message : error}`);
+    }
+    if (!Array.isArray(project?.features) || project.features.length === 0) {
+        throw new Error(`The project file "${projectPath}" has no "features" array.`);
+    }
+    const baseDir = path.dirname(projectPath);
+    const toPaths = (value: unknown, field: string, name: string): string[] => {
+        const values = value === undefined ? [] : Array.isArray(value) ? value : [value];
+        if (values.some(item => typeof item !== 'string')) throw new Error(`"${field}" of feature "${name}" must be a path or a list of paths.`);
+        return (values as string[]).map(filePath => path.resolve(baseDir, filePath));
+    };
+
+    const features: ProjectFeature[] = [];
+    for (const [index, entry] of (project.features as ProjectFileFeature[]).entries()) {
+        const name = typeof entry?.name === 'string' && entry.name.trim() ? entry.name.trim() : `Feature ${index + 1}`;
+        const id = `feature-${index + 1}`;
+        const inputs = await loadInputsFromPaths({
+            prds: toPaths(entry.prd, 'prd', name),
+            tickets: toPaths(entry.tickets, 'tickets', name),
+            images: toPaths(entry.images, 'images', name),
+            videos: toPaths(entry.videos, 'videos', name),
+            figmaUrl: typeof entry.figma === 'string' ? entry.figma : undefined,
+            figmaJson: toPaths(entry.figmaJson, 'figmaJson', name)[0],
+            openApi: toPaths(entry.openapi, 'openapi', name)[0],
+        });
+        features.push({
+            id,
+            name,
+            prdText: inputs.prdText,
+            files: inputs.files.map(file => ({ ...file, tempId: `${id}-${file.tempId}` })),
+            figmaUrl: inputs.figmaUrl,
+            figmaDesign: inputs.figmaDesign,
+            apiSpec: inputs.apiSpec,
+        });
+    }
+    return features;
+};
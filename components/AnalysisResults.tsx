@@ -1,17 +1,72 @@
-import React from 'react';
-import type { Analysis } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { Analysis, AnalysisFinding, ConsensusDraftConfig, GenerationOptions } from '../types';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
-import { LightbulbIcon, CheckCircleIcon, GenerateIcon } from './ui/icons';
+import { CheckCircleIcon, GenerateIcon, DownloadIcon, PlusIcon } from './ui/icons';
+import { DEFAULT_CHUNKING, CHUNKING_STORY_THRESHOLD } from '../constants';
+import { TemplateVersionsNote } from './TemplateVersionsNote';
+import { FindingCard, FindingForm } from './FindingCard';
+import { countFindingsByStatus, getFindingStatus, getNextFindingId, sortFindingsBySeverity } from '../utils/findingTriage';
+import { findingsToCSV } from '../utils/planExport';
 
 interface AnalysisResultsProps {
   analysis: Analysis;
-  onGeneratePlan: () => void;
+  // Called with the whole list whenever a finding is triaged, edited, added or removed
+  onFindingsChange: (findings: AnalysisFinding[]) => void;
+  onGeneratePlan: (options: GenerationOptions) => void;
   isLoading: boolean;
+  bypassCache: boolean;
+  onBypassCacheChange: (bypass: boolean) => void;
+  // Number of user stories found in the PRD
+  storyCount: number;
 }
 
-export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, onGeneratePlan, isLoading }) => {
-  const hasFindings = analysis.findings && analysis.findings.length > 0;
+const DRAFT_COUNTS = [2, 3, 4, 5];
+const STORIES_PER_CHUNK = [1, 2, 3, 5, 8];
+
+// Spreads the drafts between a conservative and a creative temperature.
+const buildConsensusDrafts = (count: number): ConsensusDraftConfig[] =>
+  Array.from({ length: count }, (_, i) => ({
+    temperature: Math.round((0.2 + (0.7 * i) / (count - 1)) * 10) / 10,
+  }));
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([content], { type }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, onFindingsChange, onGeneratePlan, isLoading, bypassCache, onBypassCacheChange, storyCount }) => {
+  const { findings } = analysis;
+  const hasFindings = findings.length > 0;
+  const counts = useMemo(() => countFindingsByStatus(findings), [findings]);
+  const sortedFindings = useMemo(() => sortFindingsBySeverity(findings), [findings]);
+  const [isAddingFinding, setIsAddingFinding] = useState(false);
+  const [useConsensus, setUseConsensus] = useState(false);
+  const [draftCount, setDraftCount] = useState(3);
+  const [useChunking, setUseChunking] = useState(storyCount >= CHUNKING_STORY_THRESHOLD);
+  const [storiesPerChunk, setStoriesPerChunk] = useState(DEFAULT_CHUNKING.storiesPerChunk);
+
+  const handleGenerateClick = () => {
+    if (useChunking) {
+      onGeneratePlan({ chunking: { ...DEFAULT_CHUNKING, storiesPerChunk } });
+    } else {
+      onGeneratePlan(useConsensus ? { consensus: { drafts: buildConsensusDrafts(draftCount) } } : {});
+    }
+  };
+
+  const handleUpdateFinding = (updated: AnalysisFinding) =>
+    onFindingsChange(findings.map(f => f.id === updated.id ? updated : f));
+
+  const handleAddFinding = (values: Pick<AnalysisFinding, 'category' | 'description' | 'severity' | 'source_story_id'>) => {
+    setIsAddingFinding(false);
+    onFindingsChange([...findings, { ...values, id: getNextFindingId(findings), source: 'manual', status: 'accepted' }]);
+  };
+
+  const handleAcceptPending = () =>
+    onFindingsChange(findings.map(f => getFindingStatus(f) === 'pending' ? { ...f, status: 'accepted' } : f));
 
   return (
     <Card>
@@ -20,28 +75,120 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, onGe
             <CheckCircleIcon className="h-7 w-7 mr-3 text-green-400" />
             Analysis Complete
         </h2>
+        <TemplateVersionsNote versions={analysis.templateVersions} className="mb-4" />
         
         {hasFindings ? (
           <>
-            <p className="text-gray-400 mb-6">The AI has reviewed the PRD and found the following potential gaps, ambiguities, or missing edge cases.</p>
+            <p className="text-gray-400 mb-4">The AI has reviewed the PRD and found the following potential gaps, ambiguities, or missing edge cases. Accept the ones the test plan should address, dismiss the ones you disagree with, or edit them; only accepted findings are used for test generation and PRD enhancement.</p>
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-gray-400">
+                <span className="text-green-400">{counts.accepted} accepted</span> · {counts.dismissed} dismissed · <span className={counts.pending > 0 ? 'text-yellow-300' : ''}>{counts.pending} pending</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleAcceptPending} variant="outline" size="sm" disabled={counts.pending === 0}>
+                  <CheckCircleIcon className="h-4 w-4 mr-1.5" />
+                  Accept all pending
+                </Button>
+                <Button onClick={() => downloadFile(findingsToCSV(findings), 'finding-triage.csv', 'text/csv;charset=utf-8;')} variant="ghost" size="sm">
+                  <DownloadIcon className="h-4 w-4 mr-1.5" />
+                  CSV
+                </Button>
+                <Button onClick={() => downloadFile(JSON.stringify(findings, null, 2), 'finding-triage.json', 'application/json')} variant="ghost" size="sm">
+                  <DownloadIcon className="h-4 w-4 mr-1.5" />
+                  JSON
+                </Button>
+              </div>
+            </div>
             <div className="space-y-4">
-              {analysis.findings.map((finding, index) => (
-                <div key={index} className="bg-black p-4 rounded-lg border border-gray-700">
-                  <h3 className="font-semibold text-blue-300 flex items-center">
-                    <LightbulbIcon className="h-5 w-5 mr-2" />
-                    {finding.category} {finding.source_story_id && `(for ${finding.source_story_id})`}
-                  </h3>
-                  <p className="text-gray-300 mt-1 ml-7">{finding.description}</p>
-                </div>
+              {sortedFindings.map(finding => (
+                <FindingCard
+                  key={finding.id}
+                  finding={finding}
+                  onUpdate={handleUpdateFinding}
+                  onDelete={() => onFindingsChange(findings.filter(f => f.id !== finding.id))}
+                />
               ))}
             </div>
           </>
         ) : (
           <p className="text-gray-300 my-6">The AI reviewed the PRD and found no major gaps or ambiguities. The document appears to be well-defined.</p>
         )}
+
+        <div className="mt-4">
+          {isAddingFinding ? (
+            <div className="bg-black p-4 rounded-lg border border-gray-700">
+              <FindingForm
+                initial={{ category: '', description: '' }}
+                submitLabel="Add finding"
+                onSubmit={handleAddFinding}
+                onCancel={() => setIsAddingFinding(false)}
+              />
+            </div>
+          ) : (
+            <Button onClick={() => setIsAddingFinding(true)} variant="ghost" size="sm">
+              <PlusIcon className="h-4 w-4 mr-1.5" />
+              Add a finding
+            </Button>
+          )}
+        </div>
+        {counts.pending > 0 && (
+          <p className="mt-4 text-sm text-yellow-300">{counts.pending} pending finding{counts.pending === 1 ? ' is' : 's are'} not triaged and will not be used for the test plan or PRD enhancement.</p>
+        )}
         
-        <div className="mt-8 pt-6 border-t border-gray-700 flex justify-end">
-          <Button onClick={onGeneratePlan} disabled={isLoading} size="lg">
+        <div className="mt-8 pt-6 border-t border-gray-700 flex flex-col sm:flex-row sm:items-center justify-end gap-4">
+          <div className="flex items-center gap-3 text-sm text-gray-400">
+            <label className="flex items-center gap-2 cursor-pointer" title="Ignore cached responses and call the AI provider again for this run.">
+              <input
+                type="checkbox"
+                checked={bypassCache}
+                onChange={(e) => onBypassCacheChange(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+              />
+              Bypass cache
+            </label>
+            {storyCount > 1 && (
+              <label className="flex items-center gap-2 cursor-pointer" title="Generate test cases for a few user stories (or API operations) at a time and merge them. Gives deeper coverage for large PRDs.">
+                <input
+                  type="checkbox"
+                  checked={useChunking}
+                  onChange={(e) => setUseChunking(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+                />
+                Per-story chunks
+              </label>
+            )}
+            {useChunking && storyCount > 1 && (
+              <select
+                value={storiesPerChunk}
+                onChange={(e) => setStoriesPerChunk(Number(e.target.value))}
+                className="bg-black border border-gray-700 rounded-md text-gray-300 px-2 py-1 focus:ring-1 focus:ring-blue-500"
+                aria-label="Stories per chunk"
+              >
+                {STORIES_PER_CHUNK.map(count => <option key={count} value={count}>{count} {count === 1 ? 'story' : 'stories'} / chunk</option>)}
+              </select>
+            )}
+            <label className={`flex items-center gap-2 ${useChunking ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`} title="Generate several drafts in parallel and merge them into one de-duplicated plan.">
+              <input
+                type="checkbox"
+                disabled={useChunking}
+                checked={useConsensus && !useChunking}
+                onChange={(e) => setUseConsensus(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+              />
+              Consensus mode
+            </label>
+            {useConsensus && !useChunking && (
+              <select
+                value={draftCount}
+                onChange={(e) => setDraftCount(Number(e.target.value))}
+                className="bg-black border border-gray-700 rounded-md text-gray-300 px-2 py-1 focus:ring-1 focus:ring-blue-500"
+                aria-label="Number of drafts"
+              >
+                {DRAFT_COUNTS.map(count => <option key={count} value={count}>{count} drafts</option>)}
+              </select>
+            )}
+          </div>
+          <Button onClick={handleGenerateClick} disabled={isLoading} size="lg">
              <GenerateIcon className="h-5 w-5 mr-2" />
              {isLoading ? 'Processing...' : 'Generate & Prioritize Plan'}
           </Button>
@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import type { ApiSpec } from '../types';
+import { AlertTriangleIcon, CodeIcon, TrashIcon } from './ui/icons';
+import { findApiSpecGaps } from '../utils/openApiParser';
+
+interface ApiSpecPreviewProps {
+  spec: ApiSpec;
+  onRemove: () => void;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: 'text-green-300',
+  POST: 'text-blue-300',
+  PUT: 'text-yellow-300',
+  PATCH: 'text-yellow-300',
+  DELETE: 'text-red-300',
+};
+
+export const ApiSpecPreview: React.FC<ApiSpecPreviewProps> = ({ spec, onRemove }) => {
+  const gaps = useMemo(() => findApiSpecGaps(spec), [spec]);
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-900/40">
+      <div className="flex items-center px-4 py-3 border-b border-gray-800">
+        <CodeIcon className="h-5 w-5 text-gray-400 mr-3 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate">{spec.title}{spec.version && <span className="text-gray-500"> {spec.version}</span>}</p>
+          <p className="text-xs text-gray-500">
+            {spec.fileName} · {spec.format} · {plural(spec.operations.length, 'operation')} · {plural(spec.schemas.length, 'schema')}
+            {spec.securitySchemes.length > 0 && ` · auth: ${spec.securitySchemes.map(s => s.name).join(', ')}`}
+          </p>
+        </div>
+        <button onClick={onRemove} className="ml-3 text-gray-500 hover:text-red-400 transition-colors" aria-label="Remove API specification">
+          <TrashIcon className="h-5 w-5" />
+        </button>
+      </div>
+      <ul className="divide-y divide-gray-800 max-h-80 overflow-y-auto">
+        {spec.operations.map(operation => (
+          <li key={`${operation.method} ${operation.path}`}>
+            <details className="px-4 py-2 text-sm">
+              <summary className="cursor-pointer select-none text-gray-200">
+                <span className={`font-mono text-xs mr-2 ${METHOD_COLORS[operation.method] || 'text-gray-300'}`}>{operation.method}</span>
+                <span className="font-mono text-xs">{operation.path}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {operation.operationId}{operation.operationIdGenerated && ' (derived)'}
+                  {operation.security.length === 0 && ' · public'}
+                  {operation.deprecated && ' · deprecated'}
+                </span>
+              </summary>
+              <div className="mt-2 ml-4 space-y-1 text-xs text-gray-400">
+                {operation.summary && <p>{operation.summary}</p>}
+                {operation.parameters.map(p => (
+                  <p key={`${p.location}:${p.name}`}>
+                    <span className="text-gray-300">{p.name}</span> ({p.location}{p.required ? ', required' : ''}): <span className="font-mono">{p.schema}</span>
+                  </p>
+                ))}
+                {operation.requestBody && (
+                  <p>
+                    <span className="text-gray-300">Body</span> ({operation.requestBody.contentTypes.join(', ') || 'any'}{operation.requestBody.required ? ', required' : ''}): <span className="font-mono">{operation.requestBody.schema}</span>
+                  </p>
+                )}
+                <p>Responses: {operation.responses.map(r => r.status).join(', ') || 'none'}</p>
+                {operation.security.length > 0 && <p>Auth: {operation.security.join(' or ')}</p>}
+              </div>
+            </details>
+          </li>
+        ))}
+      </ul>
+      {gaps.length > 0 && (
+        <details className="px-4 py-3 border-t border-gray-800 text-xs">
+          <summary className="cursor-pointer select-none flex items-center text-yellow-300">
+            <AlertTriangleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            {plural(gaps.length, 'operation')} with documentation gaps; they are passed to the analysis.
+          </summary>
+          <ul className="mt-2 ml-6 list-disc space-y-1 text-gray-400">
+            {gaps.map(gap => <li key={gap}>{gap}</li>)}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from './ui/Button';
+import { Spinner } from './ui/Spinner';
+import { TrashIcon } from './ui/icons';
+import { getCacheStats, clearResponseCache } from '../services/responseCache';
+import type { CacheStats } from '../services/responseCache';
+import { formatBytes } from '../utils/payloadEstimator';
+
+const OPERATION_LABELS: Record<string, string> = {
+  analyze: 'Analysis',
+  testPlan: 'Test plan drafts',
+  consolidate: 'Consolidated plans',
+  prioritize: 'Prioritization',
+  qaDocs: 'QA documentation',
+  enhancePrd: 'Enhanced PRDs',
+};
+
+export const CacheManager: React.FC = () => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await getCacheStats());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read the response cache.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearResponseCache();
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not clear the response cache.');
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-300">{error}</p>;
+  }
+  if (!stats) {
+    return <div className="flex justify-center"><Spinner className="h-6 w-6" /></div>;
+  }
+
+  return (
+    <div className="text-sm text-gray-300">
+      <p className="text-gray-400 mb-4">
+        Responses are cached in this browser, keyed by the exact prompt, model and settings. Identical requests are answered from the cache unless "Bypass cache" is ticked for the run.
+      </p>
+      <div className="flex justify-between border-b border-gray-800 pb-2 mb-2">
+        <span>Cached responses</span>
+        <span className="font-mono text-white">{stats.entries}</span>
+      </div>
+      <div className="flex justify-between border-b border-gray-800 pb-2 mb-2">
+        <span>Size</span>
+        <span className="font-mono text-white">{formatBytes(stats.bytes)}</span>
+      </div>
+      {Object.entries(stats.byOperation).map(([operation, count]) => (
+        <div key={operation} className="flex justify-between pl-4 text-gray-500">
+          <span>{OPERATION_LABELS[operation] || operation}</span>
+          <span className="font-mono">{count}</span>
+        </div>
+      ))}
+      <div className="mt-6 flex justify-center">
+        <Button onClick={handleClear} variant="secondary" disabled={isClearing || stats.entries === 0}>
+          <TrashIcon className="h-4 w-4 mr-1.5" />
+          {isClearing ? 'Clearing...' : 'Clear cache'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button } from './ui/Button';
+import { Spinner } from './ui/Spinner';
+import { AlertTriangleIcon, CheckCircleIcon, FileIcon, TrashIcon } from './ui/icons';
+import type { ImportedDocument } from '../types';
+import { formatBytes } from '../utils/payloadEstimator';
+
+interface DocumentImportPanelProps {
+  documents: ImportedDocument[];
+  onRemove: (id: string) => void;
+  onAddToPrd: () => void;
+}
+
+// Below this many characters an import probably missed most of the content (e.g. a scanned PDF).
+const LOW_TEXT_THRESHOLD = 200;
+
+export const DocumentImportPanel: React.FC<DocumentImportPanelProps> = ({ documents, onRemove, onAddToPrd }) => {
+  if (documents.length === 0) return null;
+
+  const readyCount = documents.filter(d => !d.isProcessing && !d.error).length;
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-800 bg-gray-900/40">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-800">
+        <p className="text-sm text-gray-300">Review the extracted text before adding it to the PRD.</p>
+        <Button onClick={onAddToPrd} size="sm" disabled={readyCount === 0}>
+          Add {readyCount > 1 ? `${readyCount} documents` : 'to PRD'}
+        </Button>
+      </div>
+      <ul className="divide-y divide-gray-800">
+        {documents.map(doc => (
+          <li key={doc.id} className="px-4 py-3">
+            <div className="flex items-center">
+              <FileIcon className="h-5 w-5 text-gray-400 mr-3 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{doc.name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatBytes(doc.size)}
+                  {!doc.isProcessing && !doc.error && ` · ${doc.text.length.toLocaleString()} characters extracted`}
+                </p>
+              </div>
+              {doc.isProcessing && <Spinner className="h-5 w-5" />}
+              {!doc.isProcessing && !doc.error && <CheckCircleIcon className="h-5 w-5 text-green-400" />}
+              <button onClick={() => onRemove(doc.id)} className="ml-3 text-gray-500 hover:text-red-400 transition-colors" aria-label={`Remove ${doc.name}`}>
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            </div>
+            {doc.error && (
+              <p className="mt-2 flex items-center text-xs text-red-300">
+                <AlertTriangleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                {doc.error}
+              </p>
+            )}
+            {!doc.isProcessing && !doc.error && (
+              <>
+                {doc.text.length < LOW_TEXT_THRESHOLD && (
+                  <p className="mt-2 flex items-center text-xs text-yellow-300">
+                    <AlertTriangleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                    Very little text was found. Check that nothing is missing; scanned pages need OCR first.
+                  </p>
+                )}
+                <details className="mt-2">
+                  <summary className="cursor-pointer select-none text-xs text-blue-400 hover:underline">Show extracted text</summary>
+                  <pre className="mt-2 max-h-64 overflow-auto p-3 bg-black border border-gray-800 rounded-md text-xs text-gray-300 whitespace-pre-wrap">{doc.text}</pre>
+                </details>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { FigmaDesign } from '../types';
+import { FigmaIcon, TrashIcon } from './ui/icons';
+
+interface FigmaDesignPreviewProps {
+  design: FigmaDesign;
+  onRemove: () => void;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const FigmaDesignPreview: React.FC<FigmaDesignPreviewProps> = ({ design, onRemove }) => {
+  const elementCount = design.frames.reduce((sum, f) => sum + f.interactiveElements.length, 0);
+  const linkCount = design.frames.reduce((sum, f) => sum + f.links.length, 0);
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-900/40">
+      <div className="flex items-center px-4 py-3 border-b border-gray-800">
+        <FigmaIcon className="h-5 w-5 text-gray-400 mr-3 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate">{design.documentName}</p>
+          <p className="text-xs text-gray-500">
+            {design.fileName} · {plural(design.frames.length, 'frame')} · {plural(elementCount, 'interactive element')} · {plural(linkCount, 'prototype link')}
+          </p>
+        </div>
+        <button onClick={onRemove} className="ml-3 text-gray-500 hover:text-red-400 transition-colors" aria-label="Remove Figma export">
+          <TrashIcon className="h-5 w-5" />
+        </button>
+      </div>
+      <ul className="divide-y divide-gray-800 max-h-80 overflow-y-auto">
+        {design.frames.map(frame => (
+          <li key={`${frame.page}/${frame.id}`}>
+            <details className="px-4 py-2 text-sm">
+              <summary className="cursor-pointer select-none text-gray-200">
+                {frame.name}
+                <span className="ml-2 text-xs text-gray-500">
+                  {frame.page} · {plural(frame.interactiveElements.length, 'element')} · {plural(frame.textLayers.length, 'text layer')}
+                </span>
+              </summary>
+              <div className="mt-2 ml-4 space-y-1 text-xs text-gray-400">
+                {frame.components.length > 0 && <p><span className="text-gray-500">Components:</span> {frame.components.join(', ')}</p>}
+                {frame.interactiveElements.length > 0 && (
+                  <p>
+                    <span className="text-gray-500">Elements:</span>{' '}
+                    {frame.interactiveElements.map(e => `${e.kind} "${e.label}"`).join(', ')}
+                  </p>
+                )}
+                {frame.links.length > 0 && (
+                  <ul>
+                    {frame.links.map((link, i) => (
+                      <li key={i}>"{link.fromLabel}" <span className="text-gray-500">({link.trigger})</span> → <span className="text-gray-300">{link.destination}</span></li>
+                    ))}
+                  </ul>
+                )}
+                {frame.components.length === 0 && frame.interactiveElements.length === 0 && frame.links.length === 0 && frame.textLayers.length === 0 && (
+                  <p className="text-gray-500">This frame has no text or interactive layers.</p>
+                )}
+              </div>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
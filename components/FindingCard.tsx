@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import type { AnalysisFinding, FindingSeverity } from '../types';
+import { LightbulbIcon, EditIcon, CheckCircleIcon, XIcon, TrashIcon } from './ui/icons';
+import { Button } from './ui/Button';
+import { ANNOTATION_COLOR } from '../utils/imageAnnotations';
+import { FINDING_SEVERITIES, getFindingStatus } from '../utils/findingTriage';
+
+interface FindingCardProps {
+  finding: AnalysisFinding;
+  onUpdate: (updated: AnalysisFinding) => void;
+  onDelete: () => void; // Only offered for manual findings
+}
+
+const getSeverityColor = (severity?: FindingSeverity) => {
+  switch (severity) {
+    case 'critical': return 'bg-fuchsia-500/30 text-fuchsia-300 border border-fuchsia-500/50';
+    case 'high': return 'bg-red-500/30 text-red-300 border border-red-500/50';
+    case 'medium': return 'bg-yellow-500/30 text-yellow-300 border border-yellow-500/50';
+    case 'low': return 'bg-sky-500/30 text-sky-300 border border-sky-500/50';
+    default: return 'bg-gray-500/20 text-gray-300';
+  }
+};
+
+const STATUS_STYLES = {
+  pending: 'border-gray-700',
+  accepted: 'border-green-700',
+  dismissed: 'border-gray-800 opacity-60',
+};
+
+const inputClassName = 'w-full p-2 bg-black border border-gray-600 rounded-md text-gray-300 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 transition text-sm';
+
+interface FindingFormProps {
+  initial: Pick<AnalysisFinding, 'category' | 'description' | 'severity' | 'source_story_id'>;
+  submitLabel: string;
+  onSubmit: (values: Pick<AnalysisFinding, 'category' | 'description' | 'severity' | 'source_story_id'>) => void;
+  onCancel: () => void;
+}
+
+/** The fields of a finding a user can write: used to edit a finding and to add one by hand. */
+export const FindingForm: React.FC<FindingFormProps> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [category, setCategory] = useState(initial.category);
+  const [description, setDescription] = useState(initial.description);
+  const [severity, setSeverity] = useState<FindingSeverity | ''>(initial.severity || '');
+  const [storyId, setStoryId] = useState(initial.source_story_id || '');
+
+  const handleSubmit = () => onSubmit({
+    category: category.trim(),
+    description: description.trim(),
+    severity: severity || undefined,
+    source_story_id: storyId.trim() || undefined,
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input type="text" value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Category, e.g. Undefined Edge Case" className={inputClassName} aria-label="Category" />
+        <input type="text" value={storyId} onChange={(e) => setStoryId(e.target.value)} placeholder="Story ID" className={`${inputClassName} sm:w-32 font-mono`} aria-label="Story ID" />
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as FindingSeverity | '')} className={`${inputClassName} sm:w-32`} aria-label="Severity">
+          <option value="">No severity</option>
+          {FINDING_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </div>
+      <textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What is missing or unclear?" rows={3} className={inputClassName} aria-label="Description" />
+      <div className="flex justify-end gap-2">
+        <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+        <Button onClick={handleSubmit} size="sm" disabled={!category.trim() || !description.trim()}>{submitLabel}</Button>
+      </div>
+    </div>
+  );
+};
+
+export const FindingCard: React.FC<FindingCardProps> = ({ finding, onUpdate, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDismissing, setIsDismissing] = useState(false);
+  const [dismissReason, setDismissReason] = useState('');
+  const status = getFindingStatus(finding);
+
+  const handleSave = (values: FindingFormProps['initial']) => {
+    setIsEditing(false);
+    const original = finding.originalDescription ?? finding.description;
+    onUpdate({
+      ...finding,
+      ...values,
+      originalDescription: finding.source === 'manual' || values.description === original ? undefined : original,
+    });
+  };
+
+  const handleDismiss = () => {
+    setIsDismissing(false);
+    onUpdate({ ...finding, status: 'dismissed', dismissReason: dismissReason.trim() });
+  };
+
+  return (
+    <div className={`bg-black p-4 rounded-lg border transition-opacity ${STATUS_STYLES[status]}`}>
+      {isEditing ? (
+        <FindingForm initial={finding} submitLabel="Save" onSubmit={handleSave} onCancel={() => setIsEditing(false)} />
+      ) : (
+        <>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <h3 className="font-semibold text-blue-300 flex items-center">
+              <LightbulbIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              {finding.id && <span className="mr-2 text-gray-500 font-mono text-sm">{finding.id}</span>}
+              {finding.category} {finding.source_story_id && `(for ${finding.source_story_id})`}
+              {finding.region_id && <span className="ml-2 px-1.5 rounded text-xs font-bold text-white" style={{ backgroundColor: ANNOTATION_COLOR }}>Region {finding.region_id}</span>}
+            </h3>
+            <div className="flex items-center gap-2 text-xs">
+              {finding.severity && <span className={`rounded-full px-2.5 py-0.5 font-semibold ${getSeverityColor(finding.severity)}`}>{finding.severity}</span>}
+              {finding.confidence !== undefined && <span className="text-gray-500" title="The model's confidence that this is a real gap">{Math.round(finding.confidence * 100)}% confidence</span>}
+              {finding.source === 'rule' && <span className="text-gray-500" title="Raised by a deterministic PRD lint rule">Rule: {finding.ruleId}</span>}
+              {finding.source === 'manual' && <span className="text-gray-500">Added manually</span>}
+            </div>
+          </div>
+          <p className="text-gray-300 mt-1 ml-7">{finding.description}</p>
+          {finding.originalDescription && (
+            <p className="text-gray-500 text-xs mt-1 ml-7" title={finding.originalDescription}>Edited; originally: "{finding.originalDescription}"</p>
+          )}
+          {status === 'dismissed' && (
+            <p className="text-gray-400 text-sm mt-2 ml-7">Dismissed{finding.dismissReason ? `: ${finding.dismissReason}` : ''}</p>
+          )}
+        </>
+      )}
+
+      {isDismissing && (
+        <div className="mt-3 ml-7 flex gap-2">
+          <input
+            type="text"
+            value={dismissReason}
+            onChange={(e) => setDismissReason(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && dismissReason.trim() && handleDismiss()}
+            placeholder="Why is this not a gap? e.g. covered in the design system spec"
+            className={inputClassName}
+            autoFocus
+            aria-label="Reason for dismissing"
+          />
+          <Button onClick={() => setIsDismissing(false)} variant="secondary" size="sm">Cancel</Button>
+          <Button onClick={handleDismiss} size="sm" disabled={!dismissReason.trim()}>Dismiss</Button>
+        </div>
+      )}
+
+      {!isEditing && !isDismissing && (
+        <div className="mt-3 ml-7 flex flex-wrap items-center gap-2">
+          {status === 'accepted' ? (
+            <span className="flex items-center text-sm text-green-400 mr-2">
+              <CheckCircleIcon className="h-4 w-4 mr-1" />
+              Accepted
+            </span>
+          ) : (
+            <Button onClick={() => onUpdate({ ...finding, status: 'accepted', dismissReason: undefined })} variant="outline" size="sm">
+              <CheckCircleIcon className="h-4 w-4 mr-1.5" />
+              Accept
+            </Button>
+          )}
+          {status !== 'dismissed' ? (
+            <Button onClick={() => { setDismissReason(''); setIsDismissing(true); }} variant="ghost" size="sm">
+              <XIcon className="h-4 w-4 mr-1.5" />
+              Dismiss
+            </Button>
+          ) : (
+            <Button onClick={() => onUpdate({ ...finding, status: 'pending', dismissReason: undefined })} variant="ghost" size="sm">
+              Restore
+            </Button>
+          )}
+          <Button onClick={() => setIsEditing(true)} variant="ghost" size="sm">
+            <EditIcon className="h-4 w-4 mr-1.5" />
+            Edit
+          </Button>
+          {finding.source === 'manual' && (
+            <Button onClick={onDelete} variant="ghost" size="sm" aria-label="Delete finding">
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,12 @@
 import React from 'react';
-import { WandIcon } from './ui/icons';
+import { WandIcon, DatabaseIcon, EditIcon } from './ui/icons';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenCache?: () => void;
+  onOpenPrompts?: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ onOpenCache, onOpenPrompts }) => {
   return (
     <header className="bg-black/30 backdrop-blur-lg border-b border-gray-700/50 sticky top-0 z-10">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
@@ -12,8 +17,30 @@ export const Header: React.FC = () => {
               QA Test-Plan Generator
             </h1>
           </div>
+          <div className="flex items-center gap-5">
+            {onOpenPrompts && (
+              <button
+                onClick={onOpenPrompts}
+                className="flex items-center text-sm text-gray-400 hover:text-white transition-colors"
+                title="Edit the prompt templates"
+              >
+                <EditIcon className="h-5 w-5 mr-1.5" />
+                Prompts
+              </button>
+            )}
+            {onOpenCache && (
+              <button
+                onClick={onOpenCache}
+                className="flex items-center text-sm text-gray-400 hover:text-white transition-colors"
+                title="Manage cached AI responses"
+              >
+                <DatabaseIcon className="h-5 w-5 mr-1.5" />
+                Cache
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,209 @@
+import React, { useRef, useState } from 'react';
+import type { AnnotationShape, FileData, ImageAnnotation } from '../types';
+import { Button } from './ui/Button';
+import { TrashIcon } from './ui/icons';
+import { ANNOTATION_COLOR, getFrameAnnotations } from '../utils/imageAnnotations';
+import { formatTimestamp } from '../utils/sceneDetection';
+
+interface ImageAnnotationEditorProps {
+  file: FileData; // An image with its original upload, or a video with keyframes
+  firstNumber: number; // The first free region number across all uploads
+  onApply: (annotations: ImageAnnotation[]) => void;
+  onCancel: () => void;
+}
+
+type Draft = Pick<ImageAnnotation, 'x1' | 'y1' | 'x2' | 'y2'>;
+
+const MIN_SIZE = 0.01; // Smaller drags are treated as clicks and ignored
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const pct = (value: number) => `${value * 100}%`;
+
+const TOOL_LABELS: Record<AnnotationShape, string> = { box: 'Box', arrow: 'Arrow' };
+
+const AnnotationShapeView: React.FC<{ annotation: Draft & { id?: string; shape: AnnotationShape }; selected?: boolean }> = ({ annotation, selected }) => {
+  const { x1, y1, x2, y2 } = annotation;
+  const labelLeft = annotation.shape === 'box' ? Math.min(x1, x2) : x1;
+  const labelTop = annotation.shape === 'box' ? Math.min(y1, y2) : y1;
+  return (
+    <>
+      {annotation.shape === 'box' ? (
+        <div
+          className="absolute pointer-events-none"
+          style={{
+            left: pct(Math.min(x1, x2)),
+            top: pct(Math.min(y1, y2)),
+            width: pct(Math.abs(x2 - x1)),
+            height: pct(Math.abs(y2 - y1)),
+            border: `${selected ? 3 : 2}px solid ${ANNOTATION_COLOR}`,
+          }}
+        />
+      ) : (
+        <svg className="absolute inset-0 h-full w-full pointer-events-none overflow-visible">
+          <defs>
+            <marker id={`arrowhead-${annotation.id || 'draft'}`} markerWidth="4" markerHeight="4" refX="3" refY="2" orient="auto" markerUnits="strokeWidth">
+              <path d="M0,0 L4,2 L0,4 z" fill={ANNOTATION_COLOR} />
+            </marker>
+          </defs>
+          <line
+            x1={pct(x1)} y1={pct(y1)} x2={pct(x2)} y2={pct(y2)}
+            stroke={ANNOTATION_COLOR}
+            strokeWidth={selected ? 4 : 3}
+            strokeLinecap="round"
+            markerEnd={`url(#arrowhead-${annotation.id || 'draft'})`}
+          />
+        </svg>
+      )}
+      {annotation.id && (
+        <span
+          className="absolute -translate-y-full px-1 text-[10px] font-bold text-white pointer-events-none"
+          style={{ left: pct(labelLeft), top: pct(labelTop), backgroundColor: ANNOTATION_COLOR }}
+        >
+          {annotation.id}
+        </span>
+      )}
+    </>
+  );
+};
+
+export const ImageAnnotationEditor: React.FC<ImageAnnotationEditorProps> = ({ file, firstNumber, onApply, onCancel }) => {
+  const [annotations, setAnnotations] = useState<ImageAnnotation[]>(file.annotations || []);
+  const [tool, setTool] = useState<AnnotationShape>('box');
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const isVideo = file.type.startsWith('video/');
+  const frames = file.originalFrames || file.frames || [];
+  const imageUrl = isVideo ? frames[frameIndex] : file.originalDataUrl;
+  const currentFrame = isVideo ? frameIndex : undefined;
+  const visible = getFrameAnnotations(annotations, currentFrame);
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toPoint(e);
+    setDraft({ x1: x, y1: y, x2: x, y2: y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!draft) return;
+    const { x, y } = toPoint(e);
+    setDraft({ ...draft, x2: x, y2: y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    setDraft(null);
+    const width = Math.abs(draft.x2 - draft.x1);
+    const height = Math.abs(draft.y2 - draft.y1);
+    if (tool === 'box' ? width < MIN_SIZE || height < MIN_SIZE : Math.hypot(width, height) < MIN_SIZE * 2) return;
+    const number = annotations.reduce((max, a) => Math.max(max, Number(a.id.slice(1)) + 1 || 0), firstNumber);
+    const annotation: ImageAnnotation = { id: `R${number}`, shape: tool, ...draft, note: '', ...(isVideo && { frameIndex }) };
+    setAnnotations(prev => [...prev, annotation]);
+    setSelectedId(annotation.id);
+  };
+
+  const updateAnnotation = (id: string, changes: Partial<ImageAnnotation>) =>
+    setAnnotations(prev => prev.map(a => a.id === id ? { ...a, ...changes } : a));
+
+  if (!imageUrl) return null;
+
+  return (
+    <div className="mt-3 p-3 rounded-lg border border-gray-800 bg-gray-900/40">
+      <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        <span>Draw a</span>
+        <div className="flex rounded-md bg-black">
+          {(Object.keys(TOOL_LABELS) as AnnotationShape[]).map((shape, i) => (
+            <Button
+              key={shape}
+              onClick={() => setTool(shape)}
+              variant={tool === shape ? 'secondary' : 'ghost'}
+              size="sm"
+              className={i === 0 ? 'rounded-r-none' : 'rounded-l-none -ml-px'}
+            >
+              {TOOL_LABELS[shape]}
+            </Button>
+          ))}
+        </div>
+        <span>around the part of the UI the analysis should focus on, then add a note or story ID.</span>
+      </div>
+      {isVideo && frames.length > 1 && (
+        <div className="mb-2 flex gap-2 overflow-x-auto pb-1">
+          {frames.map((frame, i) => {
+            const count = getFrameAnnotations(annotations, i).length;
+            return (
+              <button
+                key={i}
+                onClick={() => setFrameIndex(i)}
+                className={`relative flex-shrink-0 rounded border-2 ${i === frameIndex ? 'border-blue-400' : 'border-transparent hover:border-gray-500'}`}
+                title={file.frameTimes?.[i] !== undefined ? `Keyframe at ${formatTimestamp(file.frameTimes[i])}` : `Keyframe ${i + 1}`}
+              >
+                <img src={frame} alt="" className="h-12 w-auto rounded-sm" />
+                {count > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 rounded-full px-1.5 text-[10px] font-bold text-white" style={{ backgroundColor: ANNOTATION_COLOR }}>{count}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <div
+        ref={surfaceRef}
+        className="relative inline-block max-w-full cursor-crosshair select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDraft(null)}
+      >
+        <img src={imageUrl} alt="" className="block max-h-96 max-w-full" draggable={false} />
+        {visible.map(annotation => (
+          <AnnotationShapeView key={annotation.id} annotation={annotation} selected={annotation.id === selectedId} />
+        ))}
+        {draft && <AnnotationShapeView annotation={{ ...draft, shape: tool }} />}
+      </div>
+      {visible.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {visible.map(annotation => (
+            <li key={annotation.id} className="flex items-center gap-2 text-xs" onFocus={() => setSelectedId(annotation.id)}>
+              <span className="w-8 flex-shrink-0 rounded px-1 text-center font-bold text-white" style={{ backgroundColor: ANNOTATION_COLOR }}>{annotation.id}</span>
+              <input
+                type="text"
+                value={annotation.note}
+                onChange={(e) => updateAnnotation(annotation.id, { note: e.target.value })}
+                placeholder={annotation.shape === 'box' ? 'What should be checked in this area?' : 'What does the arrow point at?'}
+                className="flex-1 min-w-0 px-2 py-1 bg-black border border-gray-700 rounded-md text-gray-300 focus:ring-1 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                value={annotation.storyId || ''}
+                onChange={(e) => updateAnnotation(annotation.id, { storyId: e.target.value.toUpperCase() || undefined })}
+                placeholder="Story ID"
+                className="w-24 px-2 py-1 bg-black border border-gray-700 rounded-md text-gray-300 font-mono focus:ring-1 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => setAnnotations(prev => prev.filter(a => a.id !== annotation.id))}
+                className="text-gray-500 hover:text-red-400 transition-colors"
+                aria-label={`Remove region ${annotation.id}`}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 flex justify-end gap-2">
+        <Button onClick={() => setAnnotations(prev => prev.filter(a => a.frameIndex !== currentFrame))} variant="ghost" size="sm" disabled={visible.length === 0}>
+          Clear{isVideo ? ' frame' : ''}
+        </Button>
+        <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+        <Button onClick={() => onApply(annotations)} size="sm">Apply annotations</Button>
+      </div>
+    </div>
+  );
+};
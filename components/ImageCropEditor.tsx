@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import type { CropRect } from '../types';
+import { Button } from './ui/Button';
+
+interface ImageCropEditorProps {
+  imageUrl: string;
+  crop?: CropRect;
+  onApply: (crop: CropRect | undefined) => void;
+  onCancel: () => void;
+}
+
+// Edges are edited as percentages cut from each side of the image.
+type Edges = { left: number; top: number; right: number; bottom: number };
+
+const MIN_SIZE = 5; // Percent of the image that has to remain on each axis
+
+const toEdges = (crop?: CropRect): Edges => crop
+  ? { left: crop.x * 100, top: crop.y * 100, right: (1 - crop.x - crop.width) * 100, bottom: (1 - crop.y - crop.height) * 100 }
+  : { left: 0, top: 0, right: 0, bottom: 0 };
+
+const EDGE_LABELS: Record<keyof Edges, string> = { left: 'Left', right: 'Right', top: 'Top', bottom: 'Bottom' };
+
+export const ImageCropEditor: React.FC<ImageCropEditorProps> = ({ imageUrl, crop, onApply, onCancel }) => {
+  const [edges, setEdges] = useState<Edges>(() => toEdges(crop));
+
+  const setEdge = (edge: keyof Edges, value: number) => {
+    setEdges(prev => {
+      const opposite = { left: prev.right, right: prev.left, top: prev.bottom, bottom: prev.top }[edge];
+      return { ...prev, [edge]: Math.min(value, 100 - MIN_SIZE - opposite) };
+    });
+  };
+
+  const isFullImage = Object.values(edges).every(value => value === 0);
+  const handleApply = () => onApply(isFullImage ? undefined : {
+    x: edges.left / 100,
+    y: edges.top / 100,
+    width: (100 - edges.left - edges.right) / 100,
+    height: (100 - edges.top - edges.bottom) / 100,
+  });
+
+  return (
+    <div className="mt-3 p-3 rounded-lg border border-gray-800 bg-gray-900/40">
+      <div className="relative inline-block max-w-full">
+        <img src={imageUrl} alt="" className="block max-h-72 max-w-full" />
+        {/* Everything outside the kept area is dimmed. */}
+        <div
+          className="absolute border-2 border-blue-400 pointer-events-none"
+          style={{
+            left: `${edges.left}%`,
+            top: `${edges.top}%`,
+            right: `${edges.right}%`,
+            bottom: `${edges.bottom}%`,
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+          }}
+        />
+      </div>
+      <div className="mt-3 grid grid-cols-2 gap-x-4 gap-y-2 text-xs text-gray-400">
+        {(Object.keys(EDGE_LABELS) as Array<keyof Edges>).map(edge => (
+          <label key={edge} className="flex items-center gap-2">
+            <span className="w-12">{EDGE_LABELS[edge]}</span>
+            <input
+              type="range"
+              min={0}
+              max={95}
+              step={1}
+              value={Math.round(edges[edge])}
+              onChange={(e) => setEdge(edge, Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-10 text-right">{Math.round(edges[edge])}%</span>
+          </label>
+        ))}
+      </div>
+      <div className="mt-3 flex justify-end gap-2">
+        <Button onClick={() => setEdges(toEdges())} variant="ghost" size="sm" disabled={isFullImage}>Reset</Button>
+        <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+        <Button onClick={handleApply} size="sm">Apply crop</Button>
+      </div>
+    </div>
+  );
+};
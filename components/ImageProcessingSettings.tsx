@@ -0,0 +1,73 @@
+import React from 'react';
+import type { ImageOutputFormat, ImagePreprocessOptions } from '../types';
+import { DEFAULT_IMAGE_PREPROCESS_OPTIONS } from '../constants';
+import { getImagePreprocessOptions } from '../utils/imagePipeline';
+
+interface ImageProcessingSettingsProps {
+  options: ImagePreprocessOptions;
+  onChange: (options: ImagePreprocessOptions) => void;
+  disabled: boolean;
+}
+
+const MAX_DIMENSIONS = [1024, 1568, 2048, 3072];
+const QUALITIES = [0.6, 0.75, 0.85, 0.95];
+
+const selectClassName = 'bg-black border border-gray-700 rounded-md text-gray-300 px-2 py-1 focus:ring-1 focus:ring-blue-500 disabled:opacity-50';
+
+export const ImageProcessingSettings: React.FC<ImageProcessingSettingsProps> = ({ options, onChange, disabled }) => {
+  // Keep the configured values selectable even when they are not one of the presets.
+  const dimensions = Array.from(new Set([...MAX_DIMENSIONS, options.maxDimension].filter(d => d > 0))).sort((a, b) => a - b);
+  const qualities = Array.from(new Set([...QUALITIES, options.quality])).sort((a, b) => a - b);
+  const splitAspectRatio = getImagePreprocessOptions().splitAspectRatio || DEFAULT_IMAGE_PREPROCESS_OPTIONS.splitAspectRatio;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-400">
+      <span className="text-gray-300">Images:</span>
+      <label className="flex items-center gap-2">
+        Max size
+        <select
+          value={options.maxDimension}
+          onChange={(e) => onChange({ ...options, maxDimension: Number(e.target.value) })}
+          className={selectClassName}
+          disabled={disabled}
+        >
+          {dimensions.map(d => <option key={d} value={d}>{d}px</option>)}
+          <option value={0}>Original</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Format
+        <select
+          value={options.format}
+          onChange={(e) => onChange({ ...options, format: e.target.value as ImageOutputFormat })}
+          className={selectClassName}
+          disabled={disabled}
+        >
+          <option value="image/jpeg">JPEG</option>
+          <option value="image/webp">WebP</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Quality
+        <select
+          value={options.quality}
+          onChange={(e) => onChange({ ...options, quality: Number(e.target.value) })}
+          className={selectClassName}
+          disabled={disabled}
+        >
+          {qualities.map(q => <option key={q} value={q}>{Math.round(q * 100)}%</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer" title={`Screenshots taller than ${splitAspectRatio}× their width are sent as several parts.`}>
+        <input
+          type="checkbox"
+          checked={options.splitAspectRatio > 0}
+          onChange={(e) => onChange({ ...options, splitAspectRatio: e.target.checked ? splitAspectRatio : 0 })}
+          className="h-4 w-4 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+          disabled={disabled}
+        />
+        Split tall screenshots
+      </label>
+    </div>
+  );
+};
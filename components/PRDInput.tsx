@@ -1,16 +1,40 @@
 
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
-import { WandIcon, UploadCloudIcon, FigmaIcon, FileIcon, TrashIcon, CheckCircleIcon, AlertTriangleIcon, ClipboardIcon, ClipboardCheckIcon } from './ui/icons';
-import type { FileData, InputData } from '../types';
+import { WandIcon, UploadCloudIcon, FigmaIcon, CodeIcon, FileIcon, TrashIcon, CheckCircleIcon, AlertTriangleIcon, ClipboardIcon, ClipboardCheckIcon, PlusIcon } from './ui/icons';
+import type { CropRect, FileData, ImageAnnotation, ImagePreprocessOptions, ImportedDocument, InputData, PrdLintOptions, ProjectFeature, TicketMapping, TicketTable } from '../types';
 import { extractFramesFromVideo } from '../utils/videoProcessor';
+import { estimateInputPayload, formatBytes, getPayloadThresholds, getPayloadWarnings } from '../utils/payloadEstimator';
+import { downscaleFile } from '../utils/imageDownscaler';
+import { DOWNSCALE_MAX_DIMENSION } from '../constants';
+import { getImagePreprocessOptions, preprocessImage } from '../utils/imagePipeline';
+import { ImageProcessingSettings } from './ImageProcessingSettings';
+import { ImageCropEditor } from './ImageCropEditor';
+import { ImageAnnotationEditor } from './ImageAnnotationEditor';
+import { annotateFrames, getNextAnnotationNumber } from '../utils/imageAnnotations';
 import { Spinner } from './ui/Spinner';
+import { PayloadEstimatePanel } from './PayloadEstimatePanel';
+import { RequirementsPreview } from './RequirementsPreview';
+import { PrdLintPanel } from './PrdLintPanel';
+import { getPrdLintOptions, lintPrd } from '../utils/prdLinter';
+import { parseRequirements } from '../utils/requirementParser';
+import { DocumentImportPanel } from './DocumentImportPanel';
+import { DOCUMENT_EXTENSIONS, extractDocumentText, isImportableDocument, mergeDocuments } from '../utils/documentImporter';
+import { TicketImportPanel } from './TicketImportPanel';
+import { TICKET_EXTENSIONS, isTicketExport, readTicketExport, suggestTicketMapping } from '../utils/ticketImporter';
+import { FigmaDesignPreview } from './FigmaDesignPreview';
+import { parseFigmaExport } from '../utils/figmaParser';
+import { ApiSpecPreview } from './ApiSpecPreview';
+import { API_SPEC_EXTENSIONS, parseApiSpec } from '../utils/openApiParser';
+import { buildProjectInput, createFeature, findSharedStoryIds, hasFeatureInputs } from '../utils/projectModel';
 
 interface PRDInputProps {
-  onAnalyze: (inputs: InputData) => void;
+  onAnalyze: (inputs: InputData, lintOptions: PrdLintOptions) => void;
   isLoading: boolean;
+  bypassCache: boolean;
+  onBypassCacheChange: (bypass: boolean) => void;
 }
 
 const examplePRD = `Title: User Login & Authentication
@@ -23,7 +47,7 @@ Acceptance Criteria:
 - AC-1 (for US-101): Given a registered user, when they enter their correct email and password and click 'Login', then they are redirected to their dashboard.
 - AC-2 (for US-102): Given a registered user, when they enter their correct email but an incorrect password, then an error message 'Invalid credentials' is displayed.`;
 
-type Tab = 'prd' | 'files' | 'figma';
+type Tab = 'prd' | 'files' | 'figma' | 'api';
 
 const readFileAsDataURL = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -34,40 +58,189 @@ const readFileAsDataURL = (file: File): Promise<string> => {
   });
 };
 
-export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
+export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading, bypassCache, onBypassCacheChange }) => {
   const [activeTab, setActiveTab] = useState<Tab>('prd');
-  const [prdText, setPrdText] = useState('');
-  const [files, setFiles] = useState<FileData[]>([]);
-  const [figmaUrl, setFigmaUrl] = useState('');
+  const [features, setFeatures] = useState<ProjectFeature[]>(() => [createFeature(1)]);
+  const [activeFeatureId, setActiveFeatureId] = useState<string | null>(null);
+  const [scope, setScope] = useState<string>('all'); // 'all' or the id of the one feature to analyze
+  const [documents, setDocuments] = useState<ImportedDocument[]>([]);
+  const [fileNotice, setFileNotice] = useState<string | null>(null);
+  const [ticketImport, setTicketImport] = useState<{ table: TicketTable; mapping: TicketMapping } | null>(null);
+  const [ticketError, setTicketError] = useState<string | null>(null);
+  const [imageOptions, setImageOptions] = useState<ImagePreprocessOptions>(getImagePreprocessOptions);
+  const [lintOptions, setLintOptions] = useState<PrdLintOptions>(getPrdLintOptions);
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const ticketInputRef = useRef<HTMLInputElement>(null);
+  const [figmaError, setFigmaError] = useState<string | null>(null);
+  const [apiSpecError, setApiSpecError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [pasted, setPasted] = useState(false);
 
-  const isProcessingFiles = useMemo(() => files.some(f => f.isProcessing), [files]);
+  // The inputs below always belong to the active feature; a project starts with one.
+  const activeFeature = features.find(f => f.id === activeFeatureId) || features[0];
+  const { prdText, files, figmaUrl } = activeFeature;
+  const figmaDesign = activeFeature.figmaDesign ?? null;
+  const apiSpec = activeFeature.apiSpec ?? null;
+  const allFiles = useMemo(() => features.flatMap(f => f.files), [features]);
+  const scopedFeatures = useMemo(() => {
+    const selected = features.filter(f => f.id === scope);
+    return selected.length > 0 ? selected : features;
+  }, [features, scope]);
+  const projectInput = useMemo(() => buildProjectInput(scopedFeatures), [scopedFeatures]);
+  const sharedStoryIds = useMemo(() => (scopedFeatures.length > 1 ? findSharedStoryIds(scopedFeatures) : []), [scopedFeatures]);
+
+  const isProcessingFiles = useMemo(() => allFiles.some(f => f.isProcessing), [allFiles]);
+  const payloadThresholds = useMemo(() => getPayloadThresholds(), []);
+  const requirements = useMemo(() => parseRequirements(prdText), [prdText]);
+  const lintFindings = useMemo(() => lintPrd(prdText, requirements, lintOptions), [prdText, requirements, lintOptions]);
+  const payloadEstimate = useMemo(() => estimateInputPayload(projectInput), [projectInput]);
+  const payloadWarnings = useMemo(() => getPayloadWarnings(payloadEstimate, payloadThresholds), [payloadEstimate, payloadThresholds]);
+  const downscalableIds = useMemo(
+    () => projectInput.files.filter(f => !f.isProcessing && !f.error && !f.downscaled && (f.dataUrl || f.frames?.length)).map(f => f.tempId),
+    [projectInput]
+  );
+
+  const updateFeature = useCallback((id: string, update: (feature: ProjectFeature) => Partial<ProjectFeature>) => {
+    setFeatures(prev => prev.map(f => f.id === id ? { ...f, ...update(f) } : f));
+  }, []);
+
+  // Attachments keep processing after the user switches features, so updates find them by tempId in any feature.
+  const updateFiles = useCallback((update: (files: FileData[]) => FileData[]) => {
+    setFeatures(prev => prev.map(f => ({ ...f, files: update(f.files) })));
+  }, []);
+
+  const appendToPrd = (text: string) =>
+    updateFeature(activeFeature.id, f => ({ prdText: f.prdText.trim() ? `${f.prdText.trimEnd()}\n\n${text}` : text }));
 
   const processFile = useCallback(async (file: File, tempId: string) => {
     try {
         if (file.type.startsWith('video/')) {
-            const frames = await extractFramesFromVideo(file);
-            setFiles(prev => prev.map(f => f.tempId === tempId ? { ...f, isProcessing: false, frames } : f));
+            const { frames, frameTimes } = await extractFramesFromVideo(file);
+            updateFiles(prev => prev.map(f => f.tempId === tempId ? { ...f, isProcessing: false, frames, frameTimes } : f));
         } else if (file.type.startsWith('image/')) {
-            const dataUrl = await readFileAsDataURL(file);
-            setFiles(prev => prev.map(f => f.tempId === tempId ? { ...f, isProcessing: false, dataUrl } : f));
+            const originalDataUrl = await readFileAsDataURL(file);
+            const processed = await preprocessImage(originalDataUrl, imageOptions);
+            updateFiles(prev => prev.map(f => f.tempId === tempId ? { ...f, ...processed, isProcessing: false, originalDataUrl, originalSize: file.size } : f));
         } else {
              throw new Error("Unsupported file type.");
         }
     } catch (error) {
         console.error('File processing error:', error);
         const errorMessage = error instanceof Error ? error.message : 'Failed to process file.';
-        setFiles(prev => prev.map(f => f.tempId === tempId ? { ...f, isProcessing: false, error: errorMessage } : f));
+        updateFiles(prev => prev.map(f => f.tempId === tempId ? { ...f, isProcessing: false, error: errorMessage } : f));
     }
-  }, []);
+  }, [imageOptions, updateFiles]);
+
+  // Runs the image pipeline again from the original upload, e.g. after a crop, new annotations or a settings change.
+  const reprocessImages = useCallback((targets: FileData[], options: ImagePreprocessOptions, crop?: (file: FileData) => CropRect | undefined) => {
+    const ids = targets.map(f => f.tempId);
+    updateFiles(prev => prev.map(f => ids.includes(f.tempId) ? { ...f, isProcessing: true } : f));
+    targets.forEach(async (file) => {
+      const nextCrop = crop ? crop(file) : file.crop;
+      try {
+        const processed = await preprocessImage(file.originalDataUrl!, options, nextCrop, file.annotations);
+        updateFiles(prev => prev.map(f => f.tempId === file.tempId
+          ? { ...f, segments: undefined, ...processed, crop: nextCrop, downscaled: false, isProcessing: false }
+          : f));
+      } catch (error) {
+        console.error('Image processing error:', error);
+        // Keep the previous result; the attachment is still usable.
+        updateFiles(prev => prev.map(f => f.tempId === file.tempId ? { ...f, isProcessing: false } : f));
+      }
+    });
+  }, [updateFiles]);
+
+  const handleImageOptionsChange = (options: ImagePreprocessOptions) => {
+    setImageOptions(options);
+    reprocessImages(allFiles.filter(f => f.originalDataUrl && !f.isProcessing), options);
+  };
+
+  const handleApplyCrop = (file: FileData, crop: CropRect | undefined) => {
+    setCroppingId(null);
+    reprocessImages([file], imageOptions, () => crop);
+  };
+
+  // Images are rendered again from the original upload; video keyframes are redrawn from the unmarked frames.
+  const handleApplyAnnotations = async (file: FileData, annotations: ImageAnnotation[]) => {
+    setAnnotatingId(null);
+    if (file.originalDataUrl) {
+      updateFiles(prev => prev.map(f => f.tempId === file.tempId ? { ...f, annotations } : f));
+      reprocessImages([{ ...file, annotations }], imageOptions);
+      return;
+    }
+    const originalFrames = file.originalFrames || file.frames || [];
+    updateFiles(prev => prev.map(f => f.tempId === file.tempId ? { ...f, annotations, isProcessing: true } : f));
+    try {
+      const frames = await annotateFrames(originalFrames, annotations);
+      updateFiles(prev => prev.map(f => f.tempId === file.tempId
+        ? { ...f, frames, originalFrames, downscaled: false, isProcessing: false }
+        : f));
+    } catch (error) {
+      console.error('Annotation error:', error);
+      updateFiles(prev => prev.map(f => f.tempId === file.tempId ? { ...f, isProcessing: false } : f));
+    }
+  };
   
+  const importDocuments = useCallback((documentFiles: File[]) => {
+    const added: ImportedDocument[] = documentFiles.map((file, i) => ({
+      id: `${file.name}-${Date.now()}-${i}`,
+      name: file.name,
+      size: file.size,
+      text: '',
+      isProcessing: true,
+    }));
+    setDocuments(prev => [...prev, ...added]);
+    added.forEach(async (doc, i) => {
+      try {
+        const text = await extractDocumentText(doc.name, await documentFiles[i].arrayBuffer());
+        setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, isProcessing: false, text } : d));
+      } catch (error) {
+        console.error('Document import error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Failed to read the document.';
+        setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, isProcessing: false, error: errorMessage } : d));
+      }
+    });
+  }, []);
+
+  // One export is mapped at a time; a new one replaces the export under review.
+  const importTickets = useCallback(async (file: File) => {
+    try {
+      const table = readTicketExport(file.name, await file.text());
+      setTicketImport({ table, mapping: suggestTicketMapping(table) });
+      setTicketError(null);
+    } catch (error) {
+      console.error('Ticket import error:', error);
+      setTicketError(error instanceof Error ? error.message : 'Failed to read the export.');
+    }
+  }, []);
+
   const handleFiles = useCallback((incomingFiles: FileList | null) => {
     if (!incomingFiles) return;
-    const newFiles: FileData[] = Array.from(incomingFiles)
-      .filter(file => file.type.startsWith('image/') || file.type.startsWith('video/'))
-      .map(file => {
-          const tempId = `${file.name}-${Date.now()}`;
+    const all = Array.from(incomingFiles);
+    const media = all.filter(file => file.type.startsWith('image/') || file.type.startsWith('video/'));
+    const ticketExport = all.find(file => !media.includes(file) && isTicketExport(file.name));
+    const documentFiles = all.filter(file => !media.includes(file) && isImportableDocument(file.name));
+    const unsupported = all.filter(file => !media.includes(file) && file !== ticketExport && !documentFiles.includes(file));
+
+    const notices: string[] = [];
+    if (ticketExport) {
+      importTickets(ticketExport);
+      notices.push(`Map the columns of "${ticketExport.name}" on the PRD Text tab.`);
+    }
+    if (documentFiles.length > 0) {
+      importDocuments(documentFiles);
+      notices.push(`${documentFiles.length === 1 ? `"${documentFiles[0].name}" is` : `${documentFiles.length} documents are`} ready to review on the PRD Text tab.`);
+    }
+    if (unsupported.length > 0) {
+      notices.push(`Skipped unsupported file${unsupported.length === 1 ? '' : 's'}: ${unsupported.map(f => f.name).join(', ')}. Upload images, videos, ${DOCUMENT_EXTENSIONS.join(', ')} documents or one ${TICKET_EXTENSIONS.join('/')} ticket export.`);
+    }
+    setFileNotice(notices.length > 0 ? notices.join(' ') : null);
+
+    const newFiles: FileData[] = media
+      .map((file, i) => {
+          const tempId = `${file.name}-${Date.now()}-${i}`;
           return {
               tempId,
               name: file.name,
@@ -79,16 +252,16 @@ export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
       });
 
     if (newFiles.length > 0) {
-        setFiles(prev => [...prev, ...newFiles]);
+        updateFeature(activeFeature.id, f => ({ files: [...f.files, ...newFiles] }));
         newFiles.forEach((newFile, i) => {
-            processFile(incomingFiles[i], newFile.tempId);
+            processFile(media[i], newFile.tempId);
         });
     }
-  }, [processFile]);
+  }, [processFile, importDocuments, importTickets, updateFeature, activeFeature.id]);
 
   useEffect(() => {
     const handlePaste = (event: ClipboardEvent) => {
-        if (activeTab !== 'files') return;
+        if (activeTab !== 'files' || isLoading) return; // The form is hidden while analyzing
         const items = event.clipboardData?.items;
         if (!items) return;
 
@@ -109,7 +282,7 @@ export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
     };
     window.addEventListener('paste', handlePaste);
     return () => window.removeEventListener('paste', handlePaste);
-  }, [activeTab, handleFiles]);
+  }, [activeTab, isLoading, handleFiles]);
   
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -130,27 +303,159 @@ export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
   };
 
   const handleRemoveFile = (tempId: string) => {
-    setFiles(prev => prev.filter(f => f.tempId !== tempId));
+    updateFiles(prev => prev.filter(f => f.tempId !== tempId));
   };
 
+  const handleFigmaExportSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const featureId = activeFeature.id;
+    e.target.value = '';
+    if (!file) return;
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`"${file.name}" is not valid JSON.`);
+      }
+      const design = parseFigmaExport(json, file.name);
+      updateFeature(featureId, () => ({ figmaDesign: design }));
+      setFigmaError(null);
+    } catch (error) {
+      console.error('Figma export error:', error);
+      setFigmaError(error instanceof Error ? error.message : 'Failed to read the Figma export.');
+    }
+  };
+
+  const handleApiSpecSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const featureId = activeFeature.id;
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const spec = parseApiSpec(await file.text(), file.name);
+      updateFeature(featureId, () => ({ apiSpec: spec }));
+      setApiSpecError(null);
+    } catch (error) {
+      console.error('API specification error:', error);
+      setApiSpecError(error instanceof Error ? error.message : 'Failed to read the API specification.');
+    }
+  };
+
+  const handleDocumentSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (selected.length > 0) importDocuments(selected);
+  };
+
+  const handleTicketSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importTickets(file);
+  };
+
+  const handleAddTickets = (ticketsPrd: string) => {
+    appendToPrd(ticketsPrd);
+    setTicketImport(null);
+  };
+
+  // Appends every successfully extracted document to the PRD; failed ones stay listed so the error remains visible.
+  const handleAddDocuments = () => {
+    const ready = documents.filter(d => !d.isProcessing && !d.error);
+    if (ready.length === 0) return;
+    appendToPrd(mergeDocuments(ready));
+    setDocuments(prev => prev.filter(d => !ready.includes(d)));
+  };
+
+  const handleDownscaleFiles = useCallback((tempIds: string[]) => {
+    const targets = allFiles.filter(f => tempIds.includes(f.tempId));
+    updateFiles(prev => prev.map(f => tempIds.includes(f.tempId) ? { ...f, isProcessing: true } : f));
+    targets.forEach(async (file) => {
+      try {
+        const downscaled = await downscaleFile(file, DOWNSCALE_MAX_DIMENSION);
+        updateFiles(prev => prev.map(f => f.tempId === file.tempId ? { ...downscaled, isProcessing: false } : f));
+      } catch (error) {
+        console.error('Downscaling error:', error);
+        // Keep the original data; the attachment is still usable at full size.
+        updateFiles(prev => prev.map(f => f.tempId === file.tempId ? { ...f, isProcessing: false } : f));
+      }
+    });
+  }, [allFiles, updateFiles]);
+
   const handleAnalyzeClick = () => {
-    onAnalyze({ prdText, files, figmaUrl });
+    onAnalyze(projectInput, lintOptions);
   };
-  
-  const loadExample = () => setPrdText(examplePRD);
+
+  const handleAddFeature = () => {
+    const feature = createFeature(features.length + 1);
+    setFeatures(prev => [...prev, feature]);
+    setActiveFeatureId(feature.id);
+    setFigmaError(null);
+    setApiSpecError(null);
+  };
+
+  const handleSelectFeature = (id: string) => {
+    setActiveFeatureId(id);
+    setFigmaError(null);
+    setApiSpecError(null);
+    setCroppingId(null);
+    setAnnotatingId(null);
+  };
+
+  const handleRemoveFeature = (id: string) => {
+    const feature = features.find(f => f.id === id);
+    if (!feature || features.length === 1) return;
+    if (hasFeatureInputs(feature) && !window.confirm(`Remove "${feature.name}" and its inputs?`)) return;
+    setFeatures(prev => prev.filter(f => f.id !== id));
+    if (scope === id) setScope('all');
+  };
+
+  const loadExample = () => updateFeature(activeFeature.id, () => ({ prdText: examplePRD }));
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'prd':
         return (
           <div className="p-6">
+            {ticketImport && (
+              <TicketImportPanel
+                table={ticketImport.table}
+                mapping={ticketImport.mapping}
+                onMappingChange={(mapping) => setTicketImport(prev => prev && { ...prev, mapping })}
+                onAddToPrd={handleAddTickets}
+                onCancel={() => setTicketImport(null)}
+              />
+            )}
+            {ticketError && (
+              <p className="mb-4 flex items-center px-3 py-2 rounded-lg border bg-red-900/20 border-red-800 text-sm text-red-300">
+                <AlertTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" />
+                {ticketError}
+              </p>
+            )}
+            <DocumentImportPanel
+              documents={documents}
+              onRemove={(id) => setDocuments(prev => prev.filter(d => d.id !== id))}
+              onAddToPrd={handleAddDocuments}
+            />
             <textarea
               className="w-full h-80 p-4 bg-black border border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
               placeholder="Paste your Product Requirements Document (PRD) here..."
               value={prdText}
-              onChange={(e) => setPrdText(e.target.value)}
+              onChange={(e) => updateFeature(activeFeature.id, () => ({ prdText: e.target.value }))}
             />
-            <div className="mt-4 text-right">
+            <RequirementsPreview model={requirements} hasPrdText={prdText.trim().length > 0} />
+            <PrdLintPanel findings={lintFindings} options={lintOptions} onOptionsChange={setLintOptions} hasPrdText={prdText.trim().length > 0} />
+            <div className="mt-4 flex justify-end gap-2">
+                <Button variant="ghost" onClick={() => documentInputRef.current?.click()}>
+                  <UploadCloudIcon className="h-5 w-5 mr-2" />
+                  Import Document
+                </Button>
+                <input ref={documentInputRef} type="file" className="sr-only" multiple accept={DOCUMENT_EXTENSIONS.join(',')} onChange={handleDocumentSelect} />
+                <Button variant="ghost" onClick={() => ticketInputRef.current?.click()} title="Jira CSV/XML, Linear CSV or Azure DevOps CSV export">
+                  <UploadCloudIcon className="h-5 w-5 mr-2" />
+                  Import Tickets
+                </Button>
+                <input ref={ticketInputRef} type="file" className="sr-only" accept={TICKET_EXTENSIONS.join(',')} onChange={handleTicketSelect} />
                 <Button variant="ghost" onClick={loadExample}>Load Example</Button>
             </div>
           </div>
@@ -165,32 +470,75 @@ export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
               className={`flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg transition-colors ${isDragging ? 'border-blue-500 bg-gray-900/20' : 'border-gray-600 hover:border-gray-500'}`}
             >
               <UploadCloudIcon className="h-12 w-12 text-gray-500" />
-              <p className="mt-4 text-lg text-gray-400">Drag & drop images or videos here</p>
+              <p className="mt-4 text-lg text-gray-400">Drag & drop images, videos or PRD documents here</p>
               <p className="text-sm text-gray-500">or</p>
-              <input type="file" id="file-upload" className="sr-only" multiple onChange={handleFileSelect} accept="image/*,video/*" />
+              <input type="file" id="file-upload" className="sr-only" multiple onChange={handleFileSelect} accept={`image/*,video/*,${[...DOCUMENT_EXTENSIONS, ...TICKET_EXTENSIONS].join(',')}`} />
               <label htmlFor="file-upload" className="mt-2 text-blue-400 font-semibold cursor-pointer hover:underline">browse files</label>
               <div className="mt-4 text-sm text-gray-500 flex items-center">
                   {pasted ? <ClipboardCheckIcon className="h-5 w-5 mr-2 text-green-400" /> : <ClipboardIcon className="h-5 w-5 mr-2" />}
                   <span>You can also paste images from clipboard</span>
               </div>
             </div>
+            <ImageProcessingSettings options={imageOptions} onChange={handleImageOptionsChange} disabled={isProcessingFiles} />
+            {fileNotice && (
+              <p className="mt-4 px-3 py-2 rounded-lg border bg-blue-900/20 border-blue-800 text-sm text-blue-200">{fileNotice}</p>
+            )}
             {files.length > 0 && (
               <div className="mt-6 space-y-3">
                 {files.map(file => (
-                  <div key={file.tempId} className="flex items-center bg-black p-3 rounded-lg border border-gray-800">
-                    <FileIcon className="h-6 w-6 text-gray-400 mr-3 flex-shrink-0" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm text-white truncate">{file.name}</p>
-                      <p className="text-xs text-gray-500">{(file.size / 1024).toFixed(1)} KB</p>
-                    </div>
-                    <div className="flex items-center ml-3">
-                      {file.isProcessing && <Spinner className="h-5 w-5" />}
-                      {!file.isProcessing && !file.error && <CheckCircleIcon className="h-5 w-5 text-green-400" />}
-                      {file.error && <span title={file.error}><AlertTriangleIcon className="h-5 w-5 text-red-400" /></span>}
-                      <button onClick={() => handleRemoveFile(file.tempId)} className="ml-3 text-gray-500 hover:text-red-400 transition-colors">
-                        <TrashIcon className="h-5 w-5" />
-                      </button>
+                  <div key={file.tempId} className="bg-black p-3 rounded-lg border border-gray-800">
+                    <div className="flex items-center">
+                      {file.thumbnailUrl || file.frames?.[0] ? (
+                        <img src={file.thumbnailUrl || file.frames?.[0]} alt="" className="h-10 w-10 mr-3 flex-shrink-0 rounded object-cover bg-gray-900" />
+                      ) : (
+                        <FileIcon className="h-6 w-6 text-gray-400 mr-3 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white truncate">{file.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {file.originalSize !== undefined && file.originalSize !== file.size ? `${formatBytes(file.originalSize)} → ${formatBytes(file.size)}` : formatBytes(file.size)}
+                          {file.segments && ` · ${file.segments.length} parts`}
+                          {file.crop && ' · cropped'}
+                          {file.annotations?.length ? ` · ${file.annotations.length} region${file.annotations.length === 1 ? '' : 's'}` : ''}
+                          {file.frames && ` · ${file.frames.length} keyframe${file.frames.length === 1 ? '' : 's'}`}
+                          {file.downscaled && ' · downscaled'}
+                        </p>
+                      </div>
+                      <div className="flex items-center ml-3">
+                        {file.originalDataUrl && !file.isProcessing && (
+                          <button onClick={() => { setAnnotatingId(null); setCroppingId(croppingId === file.tempId ? null : file.tempId); }} className="mr-3 text-xs text-blue-400 hover:underline">
+                            {file.crop ? 'Edit crop' : 'Crop'}
+                          </button>
+                        )}
+                        {(file.originalDataUrl || file.frames?.length) && !file.isProcessing && (
+                          <button onClick={() => { setCroppingId(null); setAnnotatingId(annotatingId === file.tempId ? null : file.tempId); }} className="mr-3 text-xs text-blue-400 hover:underline">
+                            {file.annotations?.length ? 'Edit annotations' : 'Annotate'}
+                          </button>
+                        )}
+                        {file.isProcessing && <Spinner className="h-5 w-5" />}
+                        {!file.isProcessing && !file.error && <CheckCircleIcon className="h-5 w-5 text-green-400" />}
+                        {file.error && <span title={file.error}><AlertTriangleIcon className="h-5 w-5 text-red-400" /></span>}
+                        <button onClick={() => handleRemoveFile(file.tempId)} className="ml-3 text-gray-500 hover:text-red-400 transition-colors">
+                          <TrashIcon className="h-5 w-5" />
+                        </button>
+                      </div>
                     </div>
+                    {croppingId === file.tempId && file.originalDataUrl && (
+                      <ImageCropEditor
+                        imageUrl={file.originalDataUrl}
+                        crop={file.crop}
+                        onApply={(crop) => handleApplyCrop(file, crop)}
+                        onCancel={() => setCroppingId(null)}
+                      />
+                    )}
+                    {annotatingId === file.tempId && (
+                      <ImageAnnotationEditor
+                        file={file}
+                        firstNumber={getNextAnnotationNumber(allFiles)}
+                        onApply={(annotations) => handleApplyAnnotations(file, annotations)}
+                        onCancel={() => setAnnotatingId(null)}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -200,7 +548,7 @@ export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
       case 'figma':
         return (
             <div className="p-6 space-y-4">
-                <p className="text-gray-400">Provide a link to your Figma design and upload screenshots for the AI to analyze the UI.</p>
+                <p className="text-gray-400">Upload a JSON export of your Figma file so its screens, components, text and prototype links can be analyzed, and add screenshots in the "Files" tab for the visuals.</p>
                 <div className="relative">
                     <FigmaIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-500" />
                     <input
@@ -208,10 +556,50 @@ export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
                         className="w-full pl-10 pr-4 py-2 bg-black border border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
                         placeholder="https://figma.com/file/..."
                         value={figmaUrl}
-                        onChange={(e) => setFigmaUrl(e.target.value)}
+                        onChange={(e) => updateFeature(activeFeature.id, () => ({ figmaUrl: e.target.value }))}
                     />
                 </div>
-                <p className="text-sm text-gray-500">Note: The AI cannot access Figma directly. Please also upload relevant screenshots in the "Files" tab.</p>
+                <p className="text-sm text-gray-500">The link is only passed along as text; the AI cannot open it. For the design's structure, upload the file JSON from the Figma REST API (<span className="font-mono">GET /v1/files/:key</span> or <span className="font-mono">/v1/files/:key/nodes</span>). It is parsed in the browser.</p>
+                {figmaDesign ? (
+                  <FigmaDesignPreview design={figmaDesign} onRemove={() => updateFeature(activeFeature.id, () => ({ figmaDesign: null }))} />
+                ) : (
+                  <div>
+                    <input type="file" id="figma-export-upload" className="sr-only" accept="application/json,.json" onChange={handleFigmaExportSelect} />
+                    <label htmlFor="figma-export-upload" className="inline-flex items-center px-4 py-2 rounded-lg border border-gray-600 text-sm text-gray-300 cursor-pointer hover:border-gray-500 hover:text-white transition-colors">
+                      <UploadCloudIcon className="h-5 w-5 mr-2" />
+                      Upload Figma JSON export
+                    </label>
+                  </div>
+                )}
+                {figmaError && (
+                  <p className="flex items-center text-sm text-red-300">
+                    <AlertTriangleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                    {figmaError}
+                  </p>
+                )}
+            </div>
+        );
+      case 'api':
+        return (
+            <div className="p-6 space-y-4">
+                <p className="text-gray-400">Upload an OpenAPI 3 or Swagger 2 specification (JSON or YAML) to analyze its endpoints and generate API test cases. It is parsed in the browser; each operation's <span className="font-mono">operationId</span> becomes the story ID of its test cases.</p>
+                {apiSpec ? (
+                  <ApiSpecPreview spec={apiSpec} onRemove={() => updateFeature(activeFeature.id, () => ({ apiSpec: null }))} />
+                ) : (
+                  <div>
+                    <input type="file" id="api-spec-upload" className="sr-only" accept={API_SPEC_EXTENSIONS.join(',')} onChange={handleApiSpecSelect} />
+                    <label htmlFor="api-spec-upload" className="inline-flex items-center px-4 py-2 rounded-lg border border-gray-600 text-sm text-gray-300 cursor-pointer hover:border-gray-500 hover:text-white transition-colors">
+                      <UploadCloudIcon className="h-5 w-5 mr-2" />
+                      Upload OpenAPI / Swagger file
+                    </label>
+                  </div>
+                )}
+                {apiSpecError && (
+                  <p className="flex items-center text-sm text-red-300">
+                    <AlertTriangleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                    {apiSpecError}
+                  </p>
+                )}
             </div>
         );
     }
@@ -228,17 +616,90 @@ export const PRDInput: React.FC<PRDInputProps> = ({ onAnalyze, isLoading }) => {
 
   return (
     <Card>
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-2">
+            <span className="text-xs uppercase tracking-wide text-gray-500 mr-1">Features</span>
+            {features.map(feature => (
+              <button
+                key={feature.id}
+                onClick={() => handleSelectFeature(feature.id)}
+                className={`px-3 py-1 rounded-full border text-sm transition-colors ${feature.id === activeFeature.id ? 'border-blue-500 bg-blue-900/30 text-blue-200' : 'border-gray-700 text-gray-400 hover:text-gray-200 hover:border-gray-500'}`}
+              >
+                {feature.name || 'Untitled feature'}
+                {hasFeatureInputs(feature) && <span className="ml-1.5 text-xs text-gray-500">•</span>}
+              </button>
+            ))}
+            <Button variant="ghost" size="sm" onClick={handleAddFeature} title="Give each feature of the release its own PRD, attachments and design links">
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add feature
+            </Button>
+        </div>
+        {features.length > 1 && (
+          <div className="px-6 pt-3 flex items-center gap-2">
+            <input
+              type="text"
+              value={activeFeature.name}
+              onChange={(e) => updateFeature(activeFeature.id, () => ({ name: e.target.value }))}
+              className="flex-1 max-w-sm px-3 py-1.5 bg-black border border-gray-700 rounded-md text-sm text-gray-200 focus:ring-1 focus:ring-blue-500"
+              aria-label="Feature name"
+              placeholder="Feature name"
+            />
+            <button onClick={() => handleRemoveFeature(activeFeature.id)} className="text-gray-500 hover:text-red-400 transition-colors" aria-label="Remove feature">
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          </div>
+        )}
         <div className="border-b border-gray-700">
             <nav className="-mb-px flex space-x-2 sm:space-x-4 px-6" aria-label="Tabs">
                 <TabButton tabId="prd" activeTab={activeTab} onClick={setActiveTab} icon={<FileIcon className="mr-2 h-5 w-5"/>}>PRD Text</TabButton>
                 <TabButton tabId="files" activeTab={activeTab} onClick={setActiveTab} icon={<UploadCloudIcon className="mr-2 h-5 w-5"/>}>Upload Files</TabButton>
                 <TabButton tabId="figma" activeTab={activeTab} onClick={setActiveTab} icon={<FigmaIcon className="mr-2 h-5 w-5"/>}>Figma</TabButton>
+                <TabButton tabId="api" activeTab={activeTab} onClick={setActiveTab} icon={<CodeIcon className="mr-2 h-5 w-5"/>}>API Spec</TabButton>
             </nav>
         </div>
         
         {renderTabContent()}
 
-        <div className="p-6 bg-black rounded-b-[15px] border-t border-gray-700 flex justify-end">
+        <PayloadEstimatePanel
+          estimate={payloadEstimate}
+          warnings={payloadWarnings}
+          downscalableIds={downscalableIds}
+          onRemoveFile={handleRemoveFile}
+          onDownscaleFiles={handleDownscaleFiles}
+          isBusy={isLoading || isProcessingFiles}
+        />
+
+        {sharedStoryIds.length > 0 && (
+          <p className="mx-6 mb-4 flex items-center px-3 py-2 rounded-lg border bg-yellow-900/20 border-yellow-800 text-sm text-yellow-200">
+            <AlertTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" />
+            {sharedStoryIds.join(', ')} {sharedStoryIds.length === 1 ? 'is' : 'are'} used by more than one feature; their test cases are grouped under the first. Give each feature its own story IDs.
+          </p>
+        )}
+
+        <div className="p-6 bg-black rounded-b-[15px] border-t border-gray-700 flex items-center justify-end gap-4">
+            {features.length > 1 && (
+              <label className="flex items-center gap-2 text-sm text-gray-400" title="Analyze one feature on its own, or all features together with the results grouped by feature.">
+                Scope
+                <select
+                  value={scopedFeatures.length === 1 ? scopedFeatures[0].id : 'all'}
+                  onChange={(e) => setScope(e.target.value)}
+                  className="bg-black border border-gray-700 rounded-md text-gray-300 px-2 py-1 focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="all">All features ({features.length})</option>
+                  {features.map(feature => <option key={feature.id} value={feature.id}>{feature.name || 'Untitled feature'}</option>)}
+                </select>
+              </label>
+            )}
+            <div className="text-sm text-gray-400">
+              <label className="flex items-center gap-2 cursor-pointer" title="Ignore cached responses and call the AI provider again for this run.">
+                <input
+                  type="checkbox"
+                  checked={bypassCache}
+                  onChange={(e) => onBypassCacheChange(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+                />
+                Bypass cache
+              </label>
+            </div>
             <Button 
               onClick={handleAnalyzeClick} 
               disabled={isLoading || isProcessingFiles} 
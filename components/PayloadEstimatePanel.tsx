@@ -0,0 +1,91 @@
+import React from 'react';
+import { Button } from './ui/Button';
+import { AlertTriangleIcon, TrashIcon } from './ui/icons';
+import type { PayloadEstimate } from '../utils/payloadEstimator';
+import { formatBytes } from '../utils/payloadEstimator';
+
+interface PayloadEstimatePanelProps {
+  estimate: PayloadEstimate;
+  warnings: string[];
+  // tempIds of attachments that can still be downscaled
+  downscalableIds: string[];
+  onRemoveFile: (tempId: string) => void;
+  onDownscaleFiles: (tempIds: string[]) => void;
+  isBusy: boolean;
+}
+
+const KIND_LABELS: Record<PayloadEstimate['items'][number]['kind'], string> = {
+  text: 'Text',
+  image: 'Image',
+  video: 'Video frames',
+};
+
+export const PayloadEstimatePanel: React.FC<PayloadEstimatePanelProps> = ({ estimate, warnings, downscalableIds, onRemoveFile, onDownscaleFiles, isBusy }) => {
+  if (estimate.items.length === 0) return null;
+
+  const attachments = estimate.items.filter(item => item.kind !== 'text');
+  const largest = [...attachments].sort((a, b) => b.bytes - a.bytes)[0];
+
+  return (
+    <div className="px-6 pb-6">
+      <details open={warnings.length > 0} className="rounded-lg border border-gray-800 bg-gray-900/40">
+        <summary className="cursor-pointer select-none px-4 py-3 text-sm text-gray-300 flex items-center">
+          {warnings.length > 0 && <AlertTriangleIcon className="h-4 w-4 mr-2 text-yellow-400" />}
+          Estimated request size: <span className="ml-1 font-semibold text-white">{formatBytes(estimate.totalBytes)}</span>
+          <span className="mx-2 text-gray-600">·</span>
+          <span className="font-semibold text-white">~{estimate.totalTokens.toLocaleString()} tokens</span>
+        </summary>
+
+        {warnings.length > 0 && (
+          <div className="mx-4 mb-3 px-4 py-3 rounded-lg border bg-yellow-900/30 border-yellow-700/60 text-yellow-200 text-sm">
+            {warnings.map(warning => <p key={warning}>{warning}</p>)}
+            {attachments.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {downscalableIds.length > 0 && (
+                  <Button onClick={() => onDownscaleFiles(downscalableIds)} variant="secondary" size="sm" disabled={isBusy}>
+                    Downscale all attachments
+                  </Button>
+                )}
+                {largest && (
+                  <Button onClick={() => onRemoveFile(largest.id)} variant="secondary" size="sm" disabled={isBusy}>
+                    <TrashIcon className="h-4 w-4 mr-1.5" />
+                    Drop largest ({largest.label})
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="px-4 py-2 font-medium">Input</th>
+              <th className="px-4 py-2 font-medium">Type</th>
+              <th className="px-4 py-2 font-medium text-right">Size</th>
+              <th className="px-4 py-2 font-medium text-right">Tokens</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {estimate.items.map(item => (
+              <tr key={item.id} className="text-gray-300">
+                <td className="px-4 py-2 truncate max-w-xs" title={item.label}>{item.label}</td>
+                <td className="px-4 py-2 text-gray-500">{KIND_LABELS[item.kind]}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatBytes(item.bytes)}</td>
+                <td className="px-4 py-2 text-right font-mono">~{item.tokens.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {downscalableIds.includes(item.id) && (
+                    <button onClick={() => onDownscaleFiles([item.id])} disabled={isBusy} className="text-xs text-blue-400 hover:underline disabled:opacity-50">
+                      Downscale
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { AnalysisFinding, FindingSeverity, PrdLintOptions, PrdLintRuleId } from '../types';
+import { AlertTriangleIcon, CheckCircleIcon } from './ui/icons';
+import { PRD_LINT_RULES } from '../utils/prdLinter';
+import { sortFindingsBySeverity } from '../utils/findingTriage';
+
+interface PrdLintPanelProps {
+  findings: AnalysisFinding[]; // lintPrd() results for the PRD being edited
+  options: PrdLintOptions;
+  onOptionsChange: (options: PrdLintOptions) => void;
+  hasPrdText: boolean;
+}
+
+const SEVERITY_COLORS: Record<FindingSeverity, string> = {
+  critical: 'text-fuchsia-300',
+  high: 'text-red-300',
+  medium: 'text-yellow-300',
+  low: 'text-sky-300',
+};
+
+export const PrdLintPanel: React.FC<PrdLintPanelProps> = ({ findings, options, onOptionsChange, hasPrdText }) => {
+  const [vagueTerms, setVagueTerms] = useState(options.vagueTerms.join(', '));
+  if (!hasPrdText) return null;
+
+  const toggleRule = (id: PrdLintRuleId, enabled: boolean) =>
+    onOptionsChange({ ...options, rules: PRD_LINT_RULES.map(r => r.id).filter(r => r === id ? enabled : options.rules.includes(r)) });
+
+  const applyVagueTerms = () => {
+    const terms = vagueTerms.split(',').map(term => term.trim()).filter(Boolean);
+    onOptionsChange({ ...options, vagueTerms: terms });
+    setVagueTerms(terms.join(', '));
+  };
+
+  const sorted = sortFindingsBySeverity(findings);
+
+  return (
+    <details className="mt-4 rounded-lg border border-gray-800 bg-gray-900/40">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm text-gray-300 flex items-center">
+        {findings.length === 0 ? (
+          <>
+            <CheckCircleIcon className="h-4 w-4 mr-2 text-green-400" />
+            <span>PRD lint: no issues{options.rules.length < PRD_LINT_RULES.length && <span className="text-gray-500"> ({options.rules.length} of {PRD_LINT_RULES.length} rules on)</span>}</span>
+          </>
+        ) : (
+          <>
+            <AlertTriangleIcon className="h-4 w-4 mr-2 text-yellow-400" />
+            <span>
+              PRD lint: <span className="font-semibold text-white">{findings.length}</span> issue{findings.length === 1 ? '' : 's'}
+              <span className="text-gray-500"> · added to the analysis findings</span>
+            </span>
+          </>
+        )}
+      </summary>
+
+      <div className="px-4 pb-4 text-sm">
+        {sorted.length > 0 && (
+          <ul className="space-y-1.5 mb-4">
+            {sorted.map((finding, i) => (
+              <li key={i} className="flex items-baseline gap-2">
+                <span className={`w-14 flex-shrink-0 text-xs font-semibold uppercase ${SEVERITY_COLORS[finding.severity!]}`}>{finding.severity}</span>
+                <span className="text-gray-300"><span className="text-gray-400">{finding.category}:</span> {finding.description}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-gray-400 mb-2">Rules</p>
+        <div className="grid sm:grid-cols-2 gap-x-4 gap-y-1.5">
+          {PRD_LINT_RULES.map(rule => (
+            <label key={rule.id} className="flex items-start gap-2 cursor-pointer" title={rule.description}>
+              <input
+                type="checkbox"
+                checked={options.rules.includes(rule.id)}
+                onChange={(e) => toggleRule(rule.id, e.target.checked)}
+                className="mt-0.5 h-4 w-4 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-300">{rule.name} <span className="text-gray-500">({rule.severity})</span></span>
+            </label>
+          ))}
+        </div>
+        {options.rules.includes('vague-term') && (
+          <label className="mt-3 block text-gray-400">
+            Vague terms (comma-separated)
+            <input
+              type="text"
+              value={vagueTerms}
+              onChange={(e) => setVagueTerms(e.target.value)}
+              onBlur={applyVagueTerms}
+              onKeyDown={(e) => e.key === 'Enter' && applyVagueTerms()}
+              className="mt-1 w-full px-2 py-1 bg-black border border-gray-700 rounded-md text-gray-300 focus:ring-1 focus:ring-blue-500"
+            />
+          </label>
+        )}
+      </div>
+    </details>
+  );
+};
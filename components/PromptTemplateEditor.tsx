@@ -0,0 +1,223 @@
+import React, { useState, useMemo, useCallback, useRef } from 'react';
+import type { PromptTemplateId } from '../types';
+import { Button } from './ui/Button';
+import { AlertTriangleIcon, DownloadIcon, UploadCloudIcon, RestartIcon, SaveIcon } from './ui/icons';
+import {
+  PROMPT_TEMPLATE_DEFINITIONS,
+  PROMPT_VARIABLES,
+  getTemplateVersions,
+  getTemplateText,
+  getActiveTemplateVersion,
+  saveTemplateVersion,
+  activateTemplateVersion,
+  resetTemplateToDefault,
+  getOrgName,
+  setOrgName,
+  findUnknownVariables,
+  exportTemplates,
+  importTemplates,
+} from '../services/promptTemplates';
+
+type Message = { kind: 'error' | 'info'; text: string };
+
+const versionLabel = (version: number) => version === 0 ? 'Default' : `v${version}`;
+
+export const PromptTemplateEditor: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('analysis');
+  // Bumped after every store change so the derived values are re-read.
+  const [revision, setRevision] = useState(0);
+  const [viewedVersion, setViewedVersion] = useState(() => getActiveTemplateVersion('analysis'));
+  const [draft, setDraft] = useState(() => getTemplateText('analysis', getActiveTemplateVersion('analysis')));
+  const [note, setNote] = useState('');
+  const [orgName, setOrgNameValue] = useState(getOrgName);
+  const [message, setMessage] = useState<Message | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const definition = PROMPT_TEMPLATE_DEFINITIONS.find(d => d.id === selectedId)!;
+  const versions = useMemo(() => getTemplateVersions(selectedId), [selectedId, revision]);
+  const activeVersion = useMemo(() => getActiveTemplateVersion(selectedId), [selectedId, revision]);
+  const viewedText = useMemo(() => getTemplateText(selectedId, viewedVersion), [selectedId, viewedVersion, revision]);
+  const unknownVariables = useMemo(() => findUnknownVariables(draft), [draft]);
+  const isDirty = draft !== viewedText;
+
+  const showVersion = useCallback((id: PromptTemplateId, version: number) => {
+    setSelectedId(id);
+    setViewedVersion(version);
+    setDraft(getTemplateText(id, version));
+    setNote('');
+  }, []);
+
+  // Runs a store mutation, reporting failures (e.g. storage quota) instead of throwing.
+  const mutate = (action: () => string) => {
+    try {
+      const info = action();
+      setRevision(r => r + 1);
+      setMessage({ kind: 'info', text: info });
+    } catch (e) {
+      setMessage({ kind: 'error', text: e instanceof Error ? e.message : 'The change could not be saved.' });
+    }
+  };
+
+  const handleSave = () => mutate(() => {
+    const version = saveTemplateVersion(selectedId, draft, note.trim() || undefined);
+    setViewedVersion(version);
+    setNote('');
+    return `Saved ${definition.name} v${version}; it is now active.`;
+  });
+
+  const handleActivate = () => mutate(() => {
+    activateTemplateVersion(selectedId, viewedVersion);
+    return `${definition.name} now uses ${versionLabel(viewedVersion)}.`;
+  });
+
+  const handleReset = () => mutate(() => {
+    resetTemplateToDefault(selectedId);
+    setViewedVersion(0);
+    setDraft(getTemplateText(selectedId, 0));
+    return `${definition.name} was reset to the built-in default. Saved versions are kept.`;
+  });
+
+  const handleOrgNameBlur = () => {
+    if (orgName === getOrgName()) return;
+    mutate(() => {
+      setOrgName(orgName);
+      return 'Organization name saved.';
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates()], { type: 'application/json;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.setAttribute('download', 'prompt-templates.json');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const json = await file.text();
+    mutate(() => {
+      const added = importTemplates(json);
+      const active = getActiveTemplateVersion(selectedId);
+      setViewedVersion(active);
+      setDraft(getTemplateText(selectedId, active));
+      setOrgNameValue(getOrgName());
+      return `Imported ${added} new template version${added === 1 ? '' : 's'}.`;
+    });
+  };
+
+  return (
+    <div className="text-sm text-gray-300">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-4">
+        <label className="flex-1">
+          <span className="block text-gray-400 mb-1">Organization name <span className="font-mono text-gray-500">{'{{orgName}}'}</span></span>
+          <input
+            type="text"
+            value={orgName}
+            onChange={(e) => setOrgNameValue(e.target.value)}
+            onBlur={handleOrgNameBlur}
+            className="w-full px-3 py-2 bg-black border border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Acme Corp"
+          />
+        </label>
+        <div className="flex gap-2">
+          <Button onClick={() => importInputRef.current?.click()} variant="secondary" size="sm">
+            <UploadCloudIcon className="h-4 w-4 mr-1.5" />
+            Import JSON
+          </Button>
+          <Button onClick={handleExport} variant="secondary" size="sm">
+            <DownloadIcon className="h-4 w-4 mr-1.5" />
+            Export JSON
+          </Button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mb-4 px-3 py-2 rounded-lg border ${message.kind === 'error' ? 'bg-red-900/40 border-red-700 text-red-200' : 'bg-blue-900/20 border-blue-800 text-blue-200'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-4">
+        <nav className="flex md:flex-col gap-1 overflow-x-auto" aria-label="Prompt templates">
+          {PROMPT_TEMPLATE_DEFINITIONS.map(d => (
+            <button
+              key={d.id}
+              onClick={() => showVersion(d.id, getActiveTemplateVersion(d.id))}
+              className={`text-left px-3 py-2 rounded-md whitespace-nowrap transition-colors ${d.id === selectedId ? 'bg-gray-800 text-white' : 'text-gray-400 hover:bg-gray-900 hover:text-gray-200'}`}
+            >
+              {d.name}
+              <span className="block text-xs text-gray-500">{versionLabel(getActiveTemplateVersion(d.id))}</span>
+            </button>
+          ))}
+        </nav>
+
+        <div>
+          <p className="text-gray-400 mb-3">{definition.description}</p>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <select
+              value={viewedVersion}
+              onChange={(e) => showVersion(selectedId, Number(e.target.value))}
+              className="bg-black border border-gray-700 rounded-md text-gray-300 px-2 py-1 focus:ring-1 focus:ring-blue-500"
+              aria-label="Template version"
+            >
+              <option value={0}>Default{activeVersion === 0 ? ' (active)' : ''}</option>
+              {versions.map(v => (
+                <option key={v.version} value={v.version}>
+                  v{v.version} · {new Date(v.savedAt).toLocaleString()}{v.note ? ` · ${v.note}` : ''}{activeVersion === v.version ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+            {viewedVersion !== activeVersion && !isDirty && (
+              <Button onClick={handleActivate} variant="outline" size="sm">Use this version</Button>
+            )}
+            {activeVersion !== 0 && (
+              <Button onClick={handleReset} variant="ghost" size="sm">
+                <RestartIcon className="h-4 w-4 mr-1.5" />
+                Reset to default
+              </Button>
+            )}
+          </div>
+
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full h-64 p-3 bg-black border border-gray-700 rounded-lg text-gray-300 font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            spellCheck={false}
+          />
+
+          <p className="mt-2 text-xs text-gray-500">
+            Variables: {PROMPT_VARIABLES.map(v => (
+              <span key={v.name} title={v.description} className="font-mono text-gray-400 mr-2">{`{{${v.name}}}`}</span>
+            ))}
+          </p>
+          {unknownVariables.length > 0 && (
+            <p className="mt-2 flex items-center text-xs text-yellow-300">
+              <AlertTriangleIcon className="h-4 w-4 mr-1.5" />
+              Unknown variables are sent as written: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+
+          <div className="mt-3 flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Version note (optional)"
+              className="flex-1 px-3 py-1.5 bg-black border border-gray-700 rounded-md text-gray-300 focus:ring-1 focus:ring-blue-500"
+            />
+            <Button onClick={handleSave} size="sm" disabled={!isDirty || !draft.trim()}>
+              <SaveIcon className="h-4 w-4 mr-1.5" />
+              Save as new version
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
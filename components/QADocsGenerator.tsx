@@ -4,9 +4,14 @@ import remarkGfm from 'remark-gfm';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { CopyIcon, DownloadIcon, CheckCircleIcon } from './ui/icons';
+import { Spinner } from './ui/Spinner';
+import { TemplateVersionsNote } from './TemplateVersionsNote';
+import type { TemplateVersionRef } from '../types';
 
 interface QADocsGeneratorProps {
   docs: string;
+  isStreaming?: boolean; // The markdown is still arriving
+  templateVersions?: TemplateVersionRef[];
 }
 
 const MarkdownComponents: object = {
@@ -36,7 +41,7 @@ const MarkdownComponents: object = {
   strong: (props: any) => <strong className="font-bold text-gray-200" {...props} />,
 };
 
-export const QADocsGenerator: React.FC<QADocsGeneratorProps> = ({ docs }) => {
+export const QADocsGenerator: React.FC<QADocsGeneratorProps> = ({ docs, isStreaming = false, templateVersions }) => {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = useCallback(() => {
@@ -59,8 +64,14 @@ export const QADocsGenerator: React.FC<QADocsGeneratorProps> = ({ docs }) => {
     <Card>
       <div className="p-4 sm:p-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
-            <h2 className="text-2xl font-bold text-white">Comprehensive QA Documentation</h2>
-            <div className="flex gap-2 mt-3 sm:mt-0 flex-shrink-0">
+            <div>
+              <h2 className="text-2xl font-bold text-white flex items-center">
+                Comprehensive QA Documentation
+                {isStreaming && <Spinner className="h-5 w-5 ml-3" />}
+              </h2>
+              <TemplateVersionsNote versions={templateVersions} className="mt-1" />
+            </div>
+            <div className={`flex gap-2 mt-3 sm:mt-0 flex-shrink-0 ${isStreaming ? 'hidden' : ''}`}>
               <Button onClick={handleCopy} variant="outline" size="md">
                   {copied ? <CheckCircleIcon className="h-5 w-5 mr-2"/> : <CopyIcon className="h-5 w-5 mr-2"/>}
                   {copied ? 'Copied!' : 'Copy Markdown'}
@@ -0,0 +1,85 @@
+import React from 'react';
+import type { Requirement, RequirementModel, RequirementSourceFormat } from '../types';
+import { AlertTriangleIcon, TraceabilityIcon } from './ui/icons';
+import { getUnlinkedCriteria } from '../utils/requirementParser';
+
+interface RequirementsPreviewProps {
+  model: RequirementModel;
+  hasPrdText: boolean;
+}
+
+const FORMAT_LABELS: Record<RequirementSourceFormat, string> = {
+  list: 'lists',
+  heading: 'headings',
+  table: 'tables',
+};
+
+const lineRange = (r: Requirement) => r.startLine === r.endLine ? `L${r.startLine}` : `L${r.startLine}–${r.endLine}`;
+
+const CriterionRow: React.FC<{ criterion: Requirement }> = ({ criterion }) => (
+  <li className="flex items-baseline gap-2 py-0.5">
+    <span className={`font-mono text-xs ${criterion.inferredId ? 'text-gray-500' : 'text-blue-300'}`} title={criterion.inferredId ? 'No ID in the PRD; derived from its story' : undefined}>
+      {criterion.id}
+    </span>
+    <span className="flex-1 text-gray-400 truncate" title={criterion.text}>{criterion.title}</span>
+    <span className="text-xs text-gray-600">{lineRange(criterion)}</span>
+  </li>
+);
+
+export const RequirementsPreview: React.FC<RequirementsPreviewProps> = ({ model, hasPrdText }) => {
+  if (!hasPrdText) return null;
+
+  const stories = model.requirements.filter(r => r.kind === 'story');
+  const criteriaCount = model.requirements.length - stories.length;
+  const unlinked = getUnlinkedCriteria(model);
+
+  return (
+    <details className="mt-4 rounded-lg border border-gray-800 bg-gray-900/40">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm text-gray-300 flex items-center">
+        <TraceabilityIcon className="h-4 w-4 mr-2 text-gray-400" />
+        {stories.length === 0 ? (
+          <span>No user stories detected</span>
+        ) : (
+          <span>
+            Detected <span className="font-semibold text-white">{stories.length}</span> user stor{stories.length === 1 ? 'y' : 'ies'} and{' '}
+            <span className="font-semibold text-white">{criteriaCount}</span> acceptance criteri{criteriaCount === 1 ? 'on' : 'a'}
+            {model.formats.length > 0 && <span className="text-gray-500"> in {model.formats.map(f => FORMAT_LABELS[f]).join(', ')}</span>}
+          </span>
+        )}
+        {unlinked.length > 0 && <AlertTriangleIcon className="h-4 w-4 ml-2 text-yellow-400" />}
+      </summary>
+
+      <div className="px-4 pb-4 text-sm">
+        {stories.length === 0 && (
+          <p className="text-gray-500">
+            Start stories with an ID such as <span className="font-mono">US-101:</span> in a list, a heading or a table row, and criteria with <span className="font-mono">AC-1 (for US-101):</span>, so test cases can be traced to them.
+          </p>
+        )}
+        <ul className="space-y-2">
+          {stories.map(story => (
+            <li key={story.id}>
+              <div className="flex items-baseline gap-2">
+                <span className="font-mono text-xs font-semibold text-purple-300">{story.id}</span>
+                <span className="flex-1 text-gray-200 truncate" title={story.text}>{story.title || <em className="text-gray-500">No title</em>}</span>
+                <span className="text-xs text-gray-600">{lineRange(story)}</span>
+              </div>
+              <ul className="ml-6">
+                {model.requirements
+                  .filter(r => r.kind === 'acceptanceCriterion' && r.parentId === story.id)
+                  .map(criterion => <CriterionRow key={`${criterion.id}@${criterion.startLine}`} criterion={criterion} />)}
+              </ul>
+            </li>
+          ))}
+        </ul>
+        {unlinked.length > 0 && (
+          <div className="mt-3 px-3 py-2 rounded-lg border bg-yellow-900/30 border-yellow-700/60 text-yellow-200">
+            <p>{unlinked.length} acceptance criteri{unlinked.length === 1 ? 'on is' : 'a are'} not linked to a story. Add <span className="font-mono">(for US-101)</span> or move {unlinked.length === 1 ? 'it' : 'them'} under the story.</p>
+            <ul className="mt-1">
+              {unlinked.map(criterion => <CriterionRow key={`${criterion.id}@${criterion.startLine}`} criterion={criterion} />)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
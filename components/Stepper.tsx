@@ -1,9 +1,11 @@
 import React from 'react';
 import { Step } from '../types';
+import type { ProgressDetail } from '../types';
 import { CheckCircleIcon } from './ui/icons';
 
 interface StepperProps {
   currentStep: Step;
+  detail?: ProgressDetail | null;
 }
 
 const stepConfig = [
@@ -15,10 +17,10 @@ const stepConfig = [
   { id: Step.QA_DOCS_GENERATED, name: 'QA Doc' },
 ];
 
-export const Stepper: React.FC<StepperProps> = ({ currentStep }) => {
+export const Stepper: React.FC<StepperProps> = ({ currentStep, detail }) => {
   let currentVisualStep = currentStep;
   
-  if (currentStep === Step.PRIORITIZING_PLAN || currentStep === Step.GENERATING_TRACEABILITY) {
+  if (currentStep === Step.CONSOLIDATING_PLAN || currentStep === Step.PRIORITIZING_PLAN || currentStep === Step.GENERATING_TRACEABILITY) {
     currentVisualStep = Step.GENERATING_PLAN;
   }
   if (currentStep === Step.GENERATING_QA_DOCS) {
@@ -53,6 +55,11 @@ export const Stepper: React.FC<StepperProps> = ({ currentStep }) => {
                   )}
                 </div>
                 <span className={`text-xs mt-2 font-semibold transition-colors duration-300 w-24 flex justify-center items-center ${isCompleted ? 'text-white' : isCurrent ? 'text-blue-300' : 'text-gray-400'}`}>{step.name}</span>
+                {isCurrent && step.id === Step.GENERATING_PLAN && (
+                  <span className="text-[11px] mt-0.5 text-gray-400">
+                    {currentStep === Step.CONSOLIDATING_PLAN ? 'Merging drafts' : detail ? `${detail.label} ${detail.completed}/${detail.total}` : null}
+                  </span>
+                )}
               </div>
             </li>
           );
@@ -0,0 +1,18 @@
+import React from 'react';
+import type { TemplateVersionRef } from '../types';
+import { formatTemplateVersion } from '../services/promptTemplates';
+
+interface TemplateVersionsNoteProps {
+  versions?: TemplateVersionRef[];
+  className?: string;
+}
+
+// Shows which prompt template versions produced an artifact.
+export const TemplateVersionsNote: React.FC<TemplateVersionsNoteProps> = ({ versions, className = '' }) => {
+  if (!versions || versions.length === 0) return null;
+  return (
+    <p className={`text-xs text-gray-500 ${className}`}>
+      Prompt templates: {versions.map(formatTemplateVersion).join(' · ')}
+    </p>
+  );
+};
@@ -104,7 +104,7 @@ Priority: ${testCase.priority} (${testCase.priority_reasoning})
 Summary: ${testCase.summary}
 Type: ${testCase.type}
 Risk: ${testCase.risk}
-Story ID: ${testCase.storyId}
+Story ID: ${testCase.storyId}${testCase.regionId ? `\nRegion: ${testCase.regionId}` : ''}
 Preconditions: ${testCase.preconditions}
 Test Steps:
 ${testCase.steps.split('→').map((s, i) => `${i + 1}. ${s.trim()}`).join('\n')}
@@ -125,7 +125,7 @@ Expected Result: ${testCase.expectedResult}
         <div className="flex items-center flex-1 min-w-0">
             <Tag className={`${getPriorityColor(testCase.priority)} mr-4`}>{testCase.priority}</Tag>
             <div className="flex-1 min-w-0">
-                <p className="text-sm font-semibold text-gray-400">{testCase.id} <span className="text-gray-500">|</span> {testCase.storyId}</p>
+                <p className="text-sm font-semibold text-gray-400">{testCase.id} <span className="text-gray-500">|</span> {testCase.storyId}{testCase.regionId && <> <span className="text-gray-500">|</span> Region {testCase.regionId}</>}</p>
                  {isEditing ? (
                     <input 
                       type="text" 
@@ -1,44 +1,46 @@
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import type { TestCase, TraceabilityMatrix } from '../types';
+import type { FeatureScope, TestCase, TraceabilityMatrix, TestCaseParseIssue, PipelineWarning, TemplateVersionRef } from '../types';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
-import { GherkinIcon, TableIcon, DownloadIcon, SortAscIcon, TraceabilityIcon } from './ui/icons';
+import { GherkinIcon, TableIcon, DownloadIcon, SortAscIcon, TraceabilityIcon, AlertTriangleIcon } from './ui/icons';
 import { TestCaseCard } from './TestCaseCard';
 import { GherkinDisplay } from './GherkinDisplay';
 import { TraceabilityMatrixDisplay } from './TraceabilityMatrixDisplay';
+import { TemplateVersionsNote } from './TemplateVersionsNote';
+import { convertToCSV } from '../utils/planExport';
+import { groupTestCasesByFeature } from '../utils/projectModel';
 
 interface TestPlanDisplayProps {
   testCases: TestCase[];
   gherkin: string;
   traceabilityMatrix: TraceabilityMatrix;
+  parseIssues?: TestCaseParseIssue[];
+  warnings?: PipelineWarning[];
+  isStreaming?: boolean; // Test cases are still arriving; only the test case list is shown
+  templateVersions?: TemplateVersionRef[];
+  features?: FeatureScope[]; // Set for multi-feature inputs; test cases and traceability are grouped by feature
 }
 
 type Tab = 'interactive' | 'gherkin' | 'traceability';
 type SortOrder = 'default' | 'priority';
 
-const convertToCSV = (testCases: TestCase[]): string => {
-    if (testCases.length === 0) return '';
-    const headers: (keyof TestCase)[] = ['id', 'priority', 'priority_reasoning', 'summary', 'type', 'risk', 'storyId', 'preconditions', 'steps', 'expectedResult'];
-    const headerRow = headers.join(',');
-
-    const rows = testCases.map(tc => {
-        return headers.map(header => {
-            const value = tc[header] || '';
-            const escapedValue = `"${String(value).replace(/"/g, '""')}"`;
-            return escapedValue;
-        }).join(',');
-    });
-    return [headerRow, ...rows].join('\n');
-};
+// A stable default, so the memoized grouping is not recomputed on every render
+const NO_FEATURES: FeatureScope[] = [];
 
 export const TestPlanDisplay: React.FC<TestPlanDisplayProps> = ({ 
   testCases, 
   gherkin, 
   traceabilityMatrix,
+  parseIssues = [],
+  warnings = [],
+  isStreaming = false,
+  templateVersions,
+  features = NO_FEATURES,
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('interactive');
   const [sortOrder, setSortOrder] = useState<SortOrder>('default');
   const [editableTestCases, setEditableTestCases] = useState(testCases);
+  const coverageGapCount = (traceabilityMatrix.uncovered_story_ids?.length || 0) + (traceabilityMatrix.unknown_story_references?.length || 0);
 
   useEffect(() => {
     setEditableTestCases(testCases);
@@ -62,9 +64,14 @@ export const TestPlanDisplay: React.FC<TestPlanDisplayProps> = ({
     // 'default' sort is by ID, which is the initial order.
     return sorted;
   }, [editableTestCases, sortOrder]);
+
+  const featureGroups = useMemo(
+    () => (features.length > 0 ? groupTestCasesByFeature(sortedTestCases, features) : []),
+    [sortedTestCases, features]
+  );
   
   const handleExport = useCallback(() => {
-    const csvData = convertToCSV(sortedTestCases);
+    const csvData = convertToCSV(sortedTestCases, features);
     const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     if (link.download !== undefined) {
@@ -76,7 +83,7 @@ export const TestPlanDisplay: React.FC<TestPlanDisplayProps> = ({
       link.click();
       document.body.removeChild(link);
     }
-  }, [sortedTestCases]);
+  }, [sortedTestCases, features]);
   
   const TabButton: React.FC<{ tabId: Tab; children: React.ReactNode; }> = ({ tabId, children }) => (
     <button
@@ -90,12 +97,39 @@ export const TestPlanDisplay: React.FC<TestPlanDisplayProps> = ({
   return (
     <div>
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4">
-            <h2 className="text-2xl font-bold text-white">Test Plan & Artifacts</h2>
-            <Button onClick={handleExport} variant="outline" size="md" className="mt-2 sm:mt-0">
-                <DownloadIcon className="h-5 w-5 mr-2"/>
-                Export Test Cases (CSV)
-            </Button>
+            <div>
+              <h2 className="text-2xl font-bold text-white">{isStreaming ? 'Test Plan (generating...)' : 'Test Plan & Artifacts'}</h2>
+              <TemplateVersionsNote versions={templateVersions} className="mt-1" />
+            </div>
+            {!isStreaming && (
+              <Button onClick={handleExport} variant="outline" size="md" className="mt-2 sm:mt-0">
+                  <DownloadIcon className="h-5 w-5 mr-2"/>
+                  Export Test Cases (CSV)
+              </Button>
+            )}
         </div>
+        {warnings.map((warning, index) => (
+            <div key={index} className="mb-4 flex items-start bg-yellow-900/30 border border-yellow-700/60 text-yellow-200 px-4 py-3 rounded-lg text-sm" role="status">
+                <AlertTriangleIcon className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0 text-yellow-400" />
+                <span>{warning.message}</span>
+            </div>
+        ))}
+        {parseIssues.length > 0 && (
+            <details className="mb-4 bg-yellow-900/30 border border-yellow-700/60 text-yellow-200 px-4 py-3 rounded-lg">
+                <summary className="cursor-pointer flex items-center font-semibold">
+                    <AlertTriangleIcon className="h-5 w-5 mr-2 text-yellow-400" />
+                    {parseIssues.length} generated test case{parseIssues.length === 1 ? ' was' : 's were'} dropped because they could not be parsed.
+                </summary>
+                <ul className="mt-3 space-y-2 text-sm">
+                    {parseIssues.map((issue, index) => (
+                        <li key={index}>
+                            <span className="font-semibold">{issue.row > 0 ? `Row ${issue.row}` : 'Response'}:</span> {issue.reason}
+                            <code className="block mt-1 text-xs text-yellow-100/70 font-mono truncate">{issue.content}</code>
+                        </li>
+                    ))}
+                </ul>
+            </details>
+        )}
         <Card>
             <div className="p-2 sm:p-4">
                 <div className="border-b border-gray-700">
@@ -103,12 +137,19 @@ export const TestPlanDisplay: React.FC<TestPlanDisplayProps> = ({
                         <TabButton tabId="interactive">
                            <TableIcon className="mr-2 h-5 w-5"/> Test Cases ({testCases.length})
                         </TabButton>
-                        <TabButton tabId="gherkin">
-                            <GherkinIcon className="mr-2 h-5 w-5"/> Gherkin Scenarios
-                        </TabButton>
-                         <TabButton tabId="traceability">
-                            <TraceabilityIcon className="mr-2 h-5 w-5"/> Traceability
-                        </TabButton>
+                        {!isStreaming && (
+                          <>
+                            <TabButton tabId="gherkin">
+                                <GherkinIcon className="mr-2 h-5 w-5"/> Gherkin Scenarios
+                            </TabButton>
+                            <TabButton tabId="traceability">
+                                <TraceabilityIcon className="mr-2 h-5 w-5"/> Traceability
+                                {coverageGapCount > 0 && (
+                                    <span className="ml-2 rounded-full bg-yellow-900/60 px-2 text-xs text-yellow-300" title="Coverage gaps">{coverageGapCount}</span>
+                                )}
+                            </TabButton>
+                          </>
+                        )}
                     </nav>
                 </div>
 
@@ -122,15 +163,33 @@ export const TestPlanDisplay: React.FC<TestPlanDisplayProps> = ({
                                 <Button onClick={() => setSortOrder('priority')} variant={sortOrder === 'priority' ? 'secondary' : 'ghost'} size="sm" className="rounded-l-none -ml-px"><SortAscIcon className="h-4 w-4 mr-1.5" />Priority</Button>
                             </div>
                         </div>
-                        <div className="space-y-3">
-                            {sortedTestCases.map((tc, index) => (
-                                <TestCaseCard 
-                                  key={tc.id || index} 
-                                  testCase={tc}
-                                  onUpdate={handleUpdateTestCase} 
-                                />
-                            ))}
-                        </div>
+                        {featureGroups.length > 0 ? (
+                            <div className="space-y-6">
+                                {featureGroups.map(({ feature, items }) => (
+                                    <section key={feature?.id || 'other'}>
+                                        <h3 className="mb-2 px-1 text-sm font-semibold text-gray-300">
+                                            {feature ? feature.name : 'Other test cases'}
+                                            <span className="ml-2 font-normal text-gray-500">{items.length} test case{items.length === 1 ? '' : 's'}</span>
+                                        </h3>
+                                        <div className="space-y-3">
+                                            {items.map((tc, index) => (
+                                                <TestCaseCard key={tc.id || index} testCase={tc} onUpdate={handleUpdateTestCase} />
+                                            ))}
+                                        </div>
+                                    </section>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="space-y-3">
+                                {sortedTestCases.map((tc, index) => (
+                                    <TestCaseCard 
+                                      key={tc.id || index} 
+                                      testCase={tc}
+                                      onUpdate={handleUpdateTestCase} 
+                                    />
+                                ))}
+                            </div>
+                        )}
                       </>
                     )}
                     {activeTab === 'gherkin' && (
@@ -140,7 +199,7 @@ export const TestPlanDisplay: React.FC<TestPlanDisplayProps> = ({
                     )}
                     {activeTab === 'traceability' && (
                         <div className="overflow-x-auto max-w-full">
-                            <TraceabilityMatrixDisplay matrix={traceabilityMatrix} />
+                            <TraceabilityMatrixDisplay matrix={traceabilityMatrix} features={features} />
                         </div>
                     )}
                 </div>
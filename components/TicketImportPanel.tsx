@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { Button } from './ui/Button';
+import { AlertTriangleIcon, FileIcon } from './ui/icons';
+import type { TicketMapping, TicketTable } from '../types';
+import { TICKET_SOURCE_LABELS, getTicketTypes, ticketsFromTable, ticketsToPrd } from '../utils/ticketImporter';
+
+interface TicketImportPanelProps {
+  table: TicketTable;
+  mapping: TicketMapping;
+  onMappingChange: (mapping: TicketMapping) => void;
+  onAddToPrd: (prdText: string) => void;
+  onCancel: () => void;
+}
+
+type MappedField = 'key' | 'title' | 'description' | 'acceptanceCriteria' | 'type' | 'parent';
+
+const FIELD_LABELS: Record<MappedField, string> = {
+  key: 'Story ID',
+  title: 'Title',
+  description: 'Description',
+  acceptanceCriteria: 'Acceptance criteria',
+  type: 'Issue type',
+  parent: 'Parent',
+};
+
+const PREVIEW_LIMIT = 8;
+
+const selectClassName = 'w-full bg-black border border-gray-700 rounded-md text-gray-300 px-2 py-1 focus:ring-1 focus:ring-blue-500';
+
+export const TicketImportPanel: React.FC<TicketImportPanelProps> = ({ table, mapping, onMappingChange, onAddToPrd, onCancel }) => {
+  const { tickets, skippedRows } = useMemo(() => ticketsFromTable(table, mapping), [table, mapping]);
+  const prdText = useMemo(() => ticketsToPrd(tickets, table), [tickets, table]);
+  const types = useMemo(() => getTicketTypes(table, mapping), [table, mapping]);
+  const hasNumericIds = mapping.key !== -1 && table.rows.some(row => /^\d+$/.test((row[mapping.key] || '').trim()));
+  const mappedColumns = (Object.keys(FIELD_LABELS) as MappedField[]).map(field => mapping[field]);
+  const criteriaCount = tickets.reduce((sum, ticket) => sum + ticket.acceptanceCriteria.length, 0);
+
+  // Repeated header names (Jira writes one "Labels" column per label) are told apart by their position.
+  const columnLabel = (index: number) =>
+    table.headers.filter(header => header === table.headers[index]).length > 1 ? `${table.headers[index]} (column ${index + 1})` : table.headers[index];
+
+  const toggleType = (type: string, included: boolean) => onMappingChange({
+    ...mapping,
+    excludedTypes: included ? mapping.excludedTypes.filter(t => t !== type) : [...mapping.excludedTypes, type],
+  });
+
+  const toggleExtraField = (column: number, included: boolean) => onMappingChange({
+    ...mapping,
+    extraFields: included ? [...mapping.extraFields, column].sort((a, b) => a - b) : mapping.extraFields.filter(c => c !== column),
+  });
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-800 bg-gray-900/40">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-800">
+        <div className="flex items-center min-w-0">
+          <FileIcon className="h-5 w-5 text-gray-400 mr-3 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm text-white truncate">{table.fileName}</p>
+            <p className="text-xs text-gray-500">{TICKET_SOURCE_LABELS[table.source]} export · {table.rows.length} rows</p>
+          </div>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+          <Button onClick={() => onAddToPrd(prdText)} size="sm" disabled={tickets.length === 0}>
+            Add {tickets.length} {tickets.length === 1 ? 'story' : 'stories'}
+          </Button>
+        </div>
+      </div>
+      <div className="px-4 py-3 space-y-3">
+        <p className="text-sm text-gray-300">Choose the columns that hold each field. Ticket keys are kept as story IDs.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs text-gray-400">
+          {(Object.keys(FIELD_LABELS) as MappedField[]).map(field => (
+            <label key={field} className="flex flex-col gap-1">
+              {FIELD_LABELS[field]}
+              <select
+                value={mapping[field]}
+                onChange={(e) => onMappingChange({ ...mapping, [field]: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                <option value={-1}>{field === 'key' || field === 'title' ? 'Select a column' : 'Not mapped'}</option>
+                {table.headers.map((_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+              </select>
+            </label>
+          ))}
+          {hasNumericIds && (
+            <label className="flex flex-col gap-1" title="Numeric IDs need a prefix to be recognized as story IDs.">
+              Prefix for numeric IDs
+              <input
+                type="text"
+                value={mapping.idPrefix}
+                onChange={(e) => onMappingChange({ ...mapping, idPrefix: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10) })}
+                className={selectClassName}
+              />
+            </label>
+          )}
+        </div>
+        {types.length > 1 && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+            <span className="text-gray-300">Import:</span>
+            {types.map(type => (
+              <label key={type} className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!mapping.excludedTypes.includes(type)}
+                  onChange={(e) => toggleType(type, e.target.checked)}
+                  className="h-3.5 w-3.5 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+                />
+                {type}
+              </label>
+            ))}
+          </div>
+        )}
+        <details>
+          <summary className="cursor-pointer select-none text-xs text-blue-400 hover:underline">
+            Include other columns{mapping.extraFields.length > 0 && ` (${mapping.extraFields.length})`}
+          </summary>
+          <div className="mt-2 grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 max-h-40 overflow-auto text-xs text-gray-400">
+            {table.headers.map((_, i) => !mappedColumns.includes(i) && (
+              <label key={i} className="flex items-center gap-1.5 cursor-pointer truncate">
+                <input
+                  type="checkbox"
+                  checked={mapping.extraFields.includes(i)}
+                  onChange={(e) => toggleExtraField(i, e.target.checked)}
+                  className="h-3.5 w-3.5 rounded border-gray-600 bg-black text-blue-600 focus:ring-blue-500"
+                />
+                {columnLabel(i)}
+              </label>
+            ))}
+          </div>
+        </details>
+        {skippedRows.length > 0 && (
+          <p className="flex items-center text-xs text-yellow-300">
+            <AlertTriangleIcon className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            {skippedRows.length} {skippedRows.length === 1 ? 'row has' : 'rows have'} no usable or a repeated story ID and will be skipped (row {skippedRows.slice(0, 10).join(', ')}{skippedRows.length > 10 ? ', …' : ''}).
+          </p>
+        )}
+        <div>
+          <p className="text-xs text-gray-500 mb-1">{tickets.length} stories · {criteriaCount} acceptance criteria</p>
+          <ul className="text-sm divide-y divide-gray-800 border border-gray-800 rounded-md">
+            {tickets.slice(0, PREVIEW_LIMIT).map(ticket => (
+              <li key={ticket.key} className="px-3 py-1.5 flex items-baseline gap-2">
+                <span className="font-mono text-xs text-blue-300 flex-shrink-0">{ticket.key}</span>
+                <span className="text-gray-300 truncate">{ticket.title || '(untitled)'}</span>
+                <span className="ml-auto text-xs text-gray-500 flex-shrink-0">{ticket.acceptanceCriteria.length} AC</span>
+              </li>
+            ))}
+            {tickets.length > PREVIEW_LIMIT && <li className="px-3 py-1.5 text-xs text-gray-500">…and {tickets.length - PREVIEW_LIMIT} more</li>}
+          </ul>
+        </div>
+        <details>
+          <summary className="cursor-pointer select-none text-xs text-blue-400 hover:underline">Show PRD text</summary>
+          <pre className="mt-2 max-h-64 overflow-auto p-3 bg-black border border-gray-800 rounded-md text-xs text-gray-300 whitespace-pre-wrap">{prdText}</pre>
+        </details>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,72 @@
-import React from 'react';
-import type { TraceabilityMatrix } from '../types';
+import React, { useMemo } from 'react';
+import type { FeatureScope, TraceabilityEntry, TraceabilityMatrix } from '../types';
+import { AlertTriangleIcon, CheckCircleIcon } from './ui/icons';
+import { groupTraceabilityByFeature } from '../utils/projectModel';
 
 interface TraceabilityMatrixDisplayProps {
   matrix: TraceabilityMatrix;
+  features?: FeatureScope[]; // Groups the stories by the feature they belong to
 }
 
-export const TraceabilityMatrixDisplay: React.FC<TraceabilityMatrixDisplayProps> = ({ matrix }) => {
-  if (!matrix || !matrix.matrix || matrix.matrix.length === 0) {
+const NO_FEATURES: FeatureScope[] = [];
+
+const EntryRow: React.FC<{ entry: TraceabilityEntry }> = ({ entry }) => (
+  <tr className={`transition-colors ${entry.test_case_ids.length === 0 ? 'bg-red-900/20 hover:bg-red-900/30' : 'hover:bg-gray-800/40'}`}>
+    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-300 sm:pl-6">
+      {entry.story_id}
+    </td>
+    <td className="whitespace-normal px-3 py-4 text-sm text-gray-400">
+      {entry.test_case_ids.length === 0 ? (
+        <span className="inline-flex items-center rounded bg-red-900/50 px-2 py-1 text-xs font-semibold text-red-300">
+          <AlertTriangleIcon className="h-3.5 w-3.5 mr-1.5" /> No covering tests
+        </span>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {entry.test_case_ids.map(tcId => (
+             <span key={tcId} className="inline-block rounded bg-blue-900/50 px-2 py-1 text-xs font-mono text-blue-300">
+               {tcId}
+             </span>
+          ))}
+        </div>
+      )}
+    </td>
+  </tr>
+);
+
+export const TraceabilityMatrixDisplay: React.FC<TraceabilityMatrixDisplayProps> = ({ matrix, features = NO_FEATURES }) => {
+  const featureGroups = useMemo(
+    () => (features.length > 0 && matrix?.matrix ? groupTraceabilityByFeature(matrix.matrix, features) : []),
+    [matrix, features]
+  );
+
+  if (!matrix || !matrix.matrix || (matrix.matrix.length === 0 && !matrix.unknown_story_references?.length)) {
     return <div className="p-6 text-center text-gray-500">No traceability data available.</div>;
   }
 
+  const uncovered = matrix.uncovered_story_ids || [];
+  const unknownReferences = matrix.unknown_story_references || [];
+  const coveredCount = matrix.matrix.length - uncovered.length;
+  const hasGaps = uncovered.length > 0 || unknownReferences.length > 0;
+
   return (
     <div className="p-2 sm:p-4">
+      <div className={`mb-4 px-4 py-3 rounded-lg border flex items-start ${hasGaps ? 'bg-yellow-900/30 border-yellow-700/60 text-yellow-200' : 'bg-green-900/20 border-green-700/50 text-green-200'}`}>
+        {hasGaps
+          ? <AlertTriangleIcon className="h-5 w-5 mr-3 mt-0.5 flex-shrink-0 text-yellow-400" />
+          : <CheckCircleIcon className="h-5 w-5 mr-3 mt-0.5 flex-shrink-0 text-green-400" />}
+        <div className="text-sm">
+          <p className="font-semibold">
+            {coveredCount} of {matrix.matrix.length} known stories covered by at least one test case.
+          </p>
+          {uncovered.length > 0 && (
+            <p className="mt-1">Stories with no covering tests: <span className="font-mono">{uncovered.join(', ')}</span></p>
+          )}
+          {unknownReferences.length > 0 && (
+            <p className="mt-1">{unknownReferences.length} test case reference{unknownReferences.length === 1 ? '' : 's'} to unknown stories (listed below).</p>
+          )}
+        </div>
+      </div>
+
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-700">
           <thead className="bg-gray-800/50">
@@ -24,26 +79,39 @@ export const TraceabilityMatrixDisplay: React.FC<TraceabilityMatrixDisplayProps>
               </th>
             </tr>
           </thead>
-          <tbody className="divide-y divide-gray-800">
-            {matrix.matrix.map((entry) => (
-              <tr key={entry.story_id} className="hover:bg-gray-800/40 transition-colors">
-                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-300 sm:pl-6">
-                  {entry.story_id}
-                </td>
-                <td className="whitespace-normal px-3 py-4 text-sm text-gray-400">
-                  <div className="flex flex-wrap gap-2">
-                    {entry.test_case_ids.map(tcId => (
-                       <span key={tcId} className="inline-block rounded bg-blue-900/50 px-2 py-1 text-xs font-mono text-blue-300">
-                         {tcId}
-                       </span>
-                    ))}
-                  </div>
-                </td>
+          {featureGroups.length > 0 ? featureGroups.map(({ feature, items }) => (
+            <tbody key={feature?.id || 'other'} className="divide-y divide-gray-800">
+              <tr className="bg-gray-900/60">
+                <th scope="colgroup" colSpan={2} className="py-2 pl-4 pr-3 text-left text-sm font-semibold text-gray-200 sm:pl-6">
+                  {feature ? feature.name : 'Other stories'}
+                  <span className="ml-2 font-normal text-gray-500">
+                    {items.filter(entry => entry.test_case_ids.length > 0).length} of {items.length} covered
+                  </span>
+                </th>
               </tr>
-            ))}
-          </tbody>
+              {items.map(entry => <EntryRow key={entry.story_id} entry={entry} />)}
+            </tbody>
+          )) : (
+            <tbody className="divide-y divide-gray-800">
+              {matrix.matrix.map(entry => <EntryRow key={entry.story_id} entry={entry} />)}
+            </tbody>
+          )}
         </table>
       </div>
+
+      {unknownReferences.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-yellow-300 mb-2">Test cases referencing unknown stories</h3>
+          <p className="text-xs text-gray-500 mb-3">These story IDs were not found in the PRD or the analysis findings.</p>
+          <div className="flex flex-wrap gap-2">
+            {unknownReferences.map(ref => (
+              <span key={`${ref.test_case_id}-${ref.story_id}`} className="inline-block rounded bg-yellow-900/40 px-2 py-1 text-xs font-mono text-yellow-200">
+                {ref.test_case_id} → {ref.story_id || '(none)'}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,12 +1,66 @@
 import { Type } from "@google/genai";
+import type { ProviderId } from './services/providers/types';
+import type { ConsensusDraftConfig, PayloadThresholds, ChunkingOptions, VideoFrameOptions, ImagePreprocessOptions, PrdLintOptions } from './types';
+
+// Model used when LLM_MODEL is not set, per provider (see services/providers).
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'mock-fixtures',
+  proxy: 'server-default', // The backend proxy picks the model
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on http://localhost:8080/v1.
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// Where the frontend reaches the backend proxy (server/); vite's dev server forwards /api to it.
+export const DEFAULT_PROXY_URL = '/api';
+export const DEFAULT_PROXY_PORT = 8787;
+
+// Inputs above these estimates trigger a warning before analysis (see utils/payloadEstimator.ts).
+// Gemini rejects requests over 20 MB of inline data; PAYLOAD_MAX_TOKENS / PAYLOAD_MAX_BYTES override them.
+export const DEFAULT_PAYLOAD_THRESHOLDS: PayloadThresholds = {
+  maxTokens: 100000,
+  maxBytes: 15 * 1024 * 1024,
+};
+
+// Longest edge, in pixels, that images and video frames are reduced to when downscaled.
+export const DOWNSCALE_MAX_DIMENSION = 1024;
 
-export const GEMINI_MODEL = 'gemini-2.5-flash';
+// Applied to every uploaded image (see utils/imagePipeline.ts).
+// IMAGE_MAX_DIMENSION / IMAGE_FORMAT / IMAGE_QUALITY / IMAGE_SPLIT_ASPECT_RATIO override them.
+export const DEFAULT_IMAGE_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+  maxDimension: 2048,
+  format: 'image/jpeg',
+  quality: 0.85,
+  splitAspectRatio: 3,
+};
+
+// Video keyframes are taken at scene changes (see utils/sceneDetection.ts).
+// VIDEO_MIN_FRAMES / VIDEO_MAX_FRAMES / VIDEO_FRAME_MAX_DIMENSION / VIDEO_SCENE_THRESHOLD override them.
+export const DEFAULT_VIDEO_FRAME_OPTIONS: VideoFrameOptions = {
+  minFrames: 2,
+  maxFrames: 12,
+  maxDimension: DOWNSCALE_MAX_DIMENSION,
+  sceneThreshold: 0.08,
+};
+
+// Local PRD lint rules run with every analysis (see utils/prdLinter.ts).
+// PRD_LINT_RULES (comma-separated rule IDs, or "none") / PRD_LINT_VAGUE_TERMS (comma-separated) override them.
+export const DEFAULT_PRD_LINT_OPTIONS: PrdLintOptions = {
+  rules: ['missing-acceptance-criteria', 'unknown-story-reference', 'vague-term', 'unquantified-nfr', 'missing-error-state', 'duplicate-id'],
+  vagueTerms: [
+    'fast', 'quick', 'quickly', 'user-friendly', 'easy', 'easily', 'intuitive', 'simple', 'seamless', 'seamlessly',
+    'robust', 'efficient', 'flexible', 'etc.', 'and so on', 'as needed', 'as appropriate', 'if possible', 'TBD',
+  ],
+};
 
 export const ANALYSIS_SYSTEM_INSTRUCTION = `You are a professional QA Test Planner and Product Manager Assistant. 
-Your task is to perform a structured static review of the provided inputs, which may include a Product Requirements Document (PRD), UI mockups as images (from uploads or Figma), and descriptions of video flows.
+Your task is to perform a structured static review of the provided inputs, which may include a Product Requirements Document (PRD), UI mockups as images (from uploads or Figma), descriptions of video flows, and API specifications (OpenAPI/Swagger).
 Analyze all provided materials holistically. 
-Identify logical gaps from the PRD, and UI/UX issues, accessibility problems, or inconsistencies from the visual materials.
-For each finding, cite the relevant User Story ID if possible.
+Identify logical gaps from the PRD, UI/UX issues, accessibility problems, or inconsistencies from the visual materials, and undocumented error responses, missing validation rules or unclear authentication in the API specification.
+For each finding, cite the relevant User Story ID (or API operationId) if possible.
+Rate each finding's severity and your confidence that it is a real gap rather than something the inputs already cover.
 Provide your findings in a structured JSON format according to the provided schema.`;
 
 export const ANALYSIS_RESPONSE_SCHEMA = {
@@ -28,10 +82,23 @@ export const ANALYSIS_RESPONSE_SCHEMA = {
           },
           source_story_id: {
             type: Type.STRING,
-            description: 'The User Story ID (e.g., US-101) related to this finding, if applicable.'
+            description: 'The User Story ID (e.g., US-101) or API operationId related to this finding, if applicable.'
+          },
+          region_id: {
+            type: Type.STRING,
+            description: 'The ID of the annotated image region (e.g., R2) this finding is about, if applicable.'
+          },
+          severity: {
+            type: Type.STRING,
+            enum: ['critical', 'high', 'medium', 'low'],
+            description: 'How much the gap would hurt users or the release if it shipped unresolved: "critical" blocks a core flow or risks data or security, "low" is cosmetic or a nice-to-have clarification.'
+          },
+          confidence: {
+            type: Type.NUMBER,
+            description: 'How confident you are that this is a real gap rather than something the inputs already cover, from 0 to 1.'
           }
         },
-        required: ['category', 'description']
+        required: ['category', 'description', 'severity', 'confidence']
       }
     }
   },
@@ -40,35 +107,68 @@ export const ANALYSIS_RESPONSE_SCHEMA = {
 
 
 export const TEST_PLAN_SYSTEM_INSTRUCTION = `You are an expert QA Test Planner. Based on the provided Product Requirements Document (PRD), visual designs, and an initial analysis of its gaps, generate a comprehensive test plan.
-The output must be a JSON object containing two keys: 'markdown' and 'gherkin'.
-The 'markdown' value must be a Markdown table with the following columns: 'Test Case ID', 'Test Type', 'Summary', 'Preconditions', 'Test Steps', 'Expected Result', 'Story ID', and 'Risk Type'.
-The 'Test Steps' should use '→' as a delimiter between steps.
+The output must be a JSON object containing two keys: 'test_cases' and 'gherkin'.
+The 'test_cases' value must be an array of test case objects following the provided schema. Number the test case IDs sequentially (TC-001, TC-002, ...).
+The 'steps' of each test case should use '→' as a delimiter between steps.
 The 'gherkin' value must be a string containing corresponding Gherkin scenarios for automation.
 Ensure the test cases cover functional happy paths, error flows, and boundary conditions based on ALL provided materials (text and visuals).`;
 
 export const TEST_PLAN_RESPONSE_SCHEMA = {
     type: Type.OBJECT,
     properties: {
-        markdown: {
-            type: Type.STRING,
-            description: "A Markdown-formatted table of test cases."
+        test_cases: {
+            type: Type.ARRAY,
+            description: "The test cases in the plan.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING, description: "The test case ID (e.g., 'TC-001')." },
+                    type: { type: Type.STRING, description: "The test type (e.g., 'Automated', 'Manual', 'UI/UX', 'Accessibility')." },
+                    summary: { type: Type.STRING, description: "A one-line summary of what the test verifies." },
+                    preconditions: { type: Type.STRING, description: "The state required before the test starts." },
+                    steps: { type: Type.STRING, description: "The test steps, delimited by '→'." },
+                    expectedResult: { type: Type.STRING, description: "The expected outcome." },
+                    storyId: { type: Type.STRING, description: "The User Story ID (e.g., 'US-101') or API operationId this test covers." },
+                    risk: { type: Type.STRING, description: "The risk level: High, Medium, or Low." },
+                    regionId: { type: Type.STRING, description: "The ID of the annotated image region (e.g., 'R2') this test case exercises, if applicable." }
+                },
+                required: ['id', 'type', 'summary', 'preconditions', 'steps', 'expectedResult', 'storyId', 'risk']
+            }
         },
         gherkin: {
             type: Type.STRING,
             description: "Gherkin scenarios for BDD automation."
         }
     },
-    required: ['markdown', 'gherkin']
+    required: ['test_cases', 'gherkin'],
+    // Test cases first, so they can be rendered while the response is still streaming.
+    propertyOrdering: ['test_cases', 'gherkin']
+};
+
+export const DEFAULT_CONSENSUS_DRAFTS: ConsensusDraftConfig[] = [
+  { temperature: 0.3 },
+  { temperature: 0.5 },
+  { temperature: 0.8 },
+];
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  storiesPerChunk: 3,
+  concurrency: 2,
 };
 
-export const CONSOLIDATE_SYSTEM_INSTRUCTION = `You are an expert QA Test Lead. You have been given three draft test plans generated by different AI assistants for the same set of requirements (PRD and visual designs).
+// PRDs with at least this many stories default to per-story chunked generation.
+export const CHUNKING_STORY_THRESHOLD = 8;
+
+export const CONSOLIDATE_SYSTEM_INSTRUCTION = `You are an expert QA Test Lead. You have been given several draft test plans generated by different AI assistants for the same set of requirements (PRD and visual designs).
 Your task is to synthesize these drafts into a single, definitive, and high-quality test plan.
 You must:
 1.  De-duplicate test cases, merging similar ones to avoid redundancy.
 2.  Ensure complete coverage of happy paths, edge cases, and error conditions mentioned in any of the drafts.
 3.  Harmonize the 'Test Case ID' format to be consistent (e.g., TC-001, TC-002).
-4.  Produce a final, clean JSON output with 'markdown' and 'gherkin' keys, following the provided schema.
-The final output should be the best possible version, combining the strengths of all three drafts.`;
+4.  Produce a final, clean JSON output with 'test_cases' and 'gherkin' keys, following the provided schema.
+The final output should be the best possible version, combining the strengths of all the drafts.`;
+
+export const PRD_ENHANCEMENT_INSTRUCTION = `You are a senior QA and product analyst. Enhance the following PRD by improving clarity, completeness, and structure. Add any missing areas based on these findings, and rewrite the PRD to be more actionable and readable for QA and development teams.`;
 
 export const PRIORITIZATION_SYSTEM_INSTRUCTION = `You are a Principal QA Engineer. You have been given a list of test cases.
 Your task is to assign a priority level to each test case and provide a brief justification.
@@ -110,39 +210,6 @@ export const PRIORITIZATION_RESPONSE_SCHEMA = {
   required: ['prioritized_cases']
 };
 
-export const TRACEABILITY_SYSTEM_INSTRUCTION = `You are a QA Analyst. You have been given a list of test cases and their source user story IDs.
-Your task is to create a Requirement-to-Test-Case Traceability Matrix.
-For each unique User Story ID present in the test cases, list all the Test Case IDs that cover it.
-The output must be a JSON object containing a 'matrix' array. Each object in the array should have a 'story_id' and an array of corresponding 'test_case_ids'.`;
-
-export const TRACEABILITY_RESPONSE_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    matrix: {
-      type: Type.ARRAY,
-      description: 'The traceability matrix mapping user stories to test cases.',
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          story_id: {
-            type: Type.STRING,
-            description: "The User Story ID (e.g., 'US-101')."
-          },
-          test_case_ids: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.STRING,
-            },
-            description: "An array of Test Case IDs that cover this story."
-          }
-        },
-        required: ['story_id', 'test_case_ids']
-      }
-    }
-  },
-  required: ['matrix']
-};
-
 export const QA_DOCS_GENERATION_INSTRUCTION = `Based on all the provided context (PRD text, images, video frames, etc.), generate a comprehensive QA documentation suite following the structure below. This is for a high-level strategic document.
 
 The output must be a single, well-organized markdown document containing these 8 sections:
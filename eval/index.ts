@@ -0,0 +1,223 @@
+// eval/index.ts
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { analyzeInputs, generateFullTestPlan } from '../services/geminiService';
+import { createProvider, getProviderConfig, setProvider } from '../services/providers';
+import type { LLMProvider } from '../services/providers';
+import { PROMPT_TEMPLATE_DEFINITIONS, importTemplates, resetTemplateToDefault, setOrgName } from '../services/promptTemplates';
+import type { TemplateVersionRef } from '../types';
+import { parseRequirements } from '../utils/requirementParser';
+import { createRecordedProvider, loadRecording, saveRecording } from './recordedProvider';
+import type { Recording } from './recordedProvider';
+import { failedCaseScore, scoreTestPlan } from './scoring';
+import type { CaseScore, GoldenCase } from './scoring';
+import { renderEvalReport } from './report';
+import type { ConfigRun } from './report';
+
+const USAGE = `Usage: npm run eval -- [--golden <dir>] [--config <file> ...] [--out <dir>]
+
+Runs analysis and test plan generation over every golden PRD and scores the results.
+With two or more --config files, the report compares each one against the first.
+
+  --golden <dir>   Folder with one sub-folder per case: prd.md + expectations.json (default: eval/golden)
+  --config <file>  Provider / prompt configuration; repeatable (default: eval/configs/baseline.json)
+  --out <dir>      Where report.md and results.json are written (default: eval-report)
+  -h, --help       Show this help`;
+
+/**
+ * A configuration file. Paths are relative to the file.
+ * - `provider` / `model`: as LLM_PROVIDER / LLM_MODEL; defaults to the environment.
+ * - `templates`: a prompt template export (Prompts → Export JSON) to evaluate instead of the defaults.
+ * - `recording`: replays responses from `path`, or records them there when `mode` is "record".
+ */
+interface EvalConfig {
+    name: string;
+    provider?: string;
+    model?: string;
+    templates?: string;
+    recording?: { path: string; mode: 'replay' | 'record' };
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+// `npm run eval` runs from the package root; resolve the user's paths against where they invoked it.
+const baseDir = process.env.INIT_CWD || process.cwd();
+
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+const readJson = async (filePath: string): Promise<unknown> => {
+    try {
+        return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not read "${filePath}": ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): value is string | undefined => value === undefined || typeof value === 'string';
+
+// A missing list is empty; anything but a list of strings is an error in the file.
+const readStringList = (data: Record<string, unknown>, key: string, filePath: string): string[] => {
+    const value = data[key] ?? [];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        throw new Error(`"${key}" in "${filePath}" must be a list of strings.`);
+    }
+    return value;
+};
+
+const isEvalConfig = (value: unknown): value is EvalConfig =>
+    isObject(value)
+    && typeof value.name === 'string'
+    && optionalString(value.provider)
+    && optionalString(value.model)
+    && optionalString(value.templates)
+    && (value.recording === undefined
+        || (isObject(value.recording) && typeof value.recording.path === 'string' && (value.recording.mode === 'replay' || value.recording.mode === 'record')));
+
+const loadGoldenCases = async (goldenDir: string): Promise<GoldenCase[]> => {
+    const entries = await readdir(goldenDir, { withFileTypes: true });
+    const cases: GoldenCase[] = [];
+    for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+        const caseDir = path.join(goldenDir, entry.name);
+        const expectationsPath = path.join(caseDir, 'expectations.json');
+        const expectations = await readJson(expectationsPath);
+        if (!isObject(expectations)) {
+            throw new Error(`"${expectationsPath}" must contain a JSON object.`);
+        }
+        cases.push({
+            name: entry.name,
+            prdText: await readFile(path.join(caseDir, 'prd.md'), 'utf8'),
+            expectedStoryIds: readStringList(expectations, 'expectedStoryIds', expectationsPath),
+            mustHaveScenarios: readStringList(expectations, 'mustHaveScenarios', expectationsPath),
+            bannedContent: readStringList(expectations, 'bannedContent', expectationsPath),
+        });
+    }
+    if (cases.length === 0) {
+        throw new Error(`No golden cases in "${goldenDir}". Each case is a folder with prd.md and expectations.json.`);
+    }
+    return cases;
+};
+
+const loadConfig = async (configPath: string): Promise<{ config: EvalConfig; configDir: string }> => {
+    const config = await readJson(configPath);
+    if (!isObject(config) || typeof config.name !== 'string') {
+        throw new Error(`"${configPath}" needs a "name".`);
+    }
+    if (!isEvalConfig(config)) {
+        throw new Error(`"${configPath}" is not a valid configuration: "provider", "model" and "templates" must be strings, and "recording" needs a "path" and a "mode" of "replay" or "record".`);
+    }
+    return { config, configDir: path.dirname(configPath) };
+};
+
+/** Applies the config's prompt templates; every template not in the export runs at its default. */
+const applyTemplates = async (config: EvalConfig, configDir: string) => {
+    PROMPT_TEMPLATE_DEFINITIONS.forEach(definition => resetTemplateToDefault(definition.id));
+    setOrgName('');
+    if (config.templates) {
+        importTemplates(await readFile(path.resolve(configDir, config.templates), 'utf8'));
+    }
+};
+
+const runCase = async (golden: GoldenCase): Promise<{ score: CaseScore; templateVersions: TemplateVersionRef[] }> => {
+    const startedAt = Date.now();
+    const inputs = { prdText: golden.prdText, files: [], figmaUrl: '', requirements: parseRequirements(golden.prdText) };
+    try {
+        const analysis = await analyzeInputs(inputs);
+        const plan = await generateFullTestPlan(inputs, analysis.findings, () => undefined);
+        return {
+            score: scoreTestPlan(golden, plan, Date.now() - startedAt),
+            templateVersions: [...(analysis.templateVersions || []), ...plan.templateVersions],
+        };
+    } catch (error) {
+        return { score: failedCaseScore(golden, error instanceof Error ? error.message : String(error), Date.now() - startedAt), templateVersions: [] };
+    }
+};
+
+const runConfig = async (config: EvalConfig, configDir: string, cases: GoldenCase[]): Promise<ConfigRun> => {
+    await applyTemplates(config, configDir);
+
+    const recordingPath = config.recording && path.resolve(configDir, config.recording.path);
+    let recording: Recording | null = null;
+    let provider: LLMProvider;
+    if (config.recording?.mode === 'replay') {
+        recording = await loadRecording(recordingPath!);
+        if (!recording) throw new Error(`Recording "${recordingPath}" does not exist. Run the config with "mode": "record" first.`);
+        provider = createRecordedProvider(recording);
+    } else {
+        const live = createProvider(getProviderConfig({ provider: config.provider, model: config.model }));
+        if (config.recording) {
+            recording = await loadRecording(recordingPath!) || { format: 'qa-plan-recording', provider: live.id, model: live.model, responses: {} };
+            provider = createRecordedProvider(recording, live);
+        } else {
+            provider = live;
+        }
+    }
+    setProvider(provider);
+    log(`${config.name}: ${provider.name} (${provider.model})`);
+
+    const scores: CaseScore[] = [];
+    const templateVersions = new Map<string, TemplateVersionRef>();
+    for (const golden of cases) {
+        const result = await runCase(golden);
+        result.templateVersions.forEach(ref => templateVersions.set(ref.templateId, ref));
+        scores.push(result.score);
+        log(`  ${golden.name}: ${result.score.error ? `failed (${result.score.error})` : `${result.score.parseableTestCases} test cases, ${Math.round(result.score.storyCoverage * 100)}% coverage`}`);
+    }
+    if (config.recording?.mode === 'record' && recording) {
+        await saveRecording(recordingPath!, recording);
+        log(`  recorded ${Object.keys(recording.responses).length} responses to ${path.relative(baseDir, recordingPath!)}`);
+    }
+    return { name: config.name, provider: provider.id, model: provider.model, templateVersions: Array.from(templateVersions.values()), scores };
+};
+
+const main = async (): Promise<number> => {
+    let values;
+    try {
+        ({ values } = parseArgs({
+            options: {
+                golden: { type: 'string', default: 'eval/golden' },
+                config: { type: 'string', multiple: true, default: [] },
+                out: { type: 'string', default: 'eval-report' },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        }));
+    } catch (error) {
+        log(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+    if (values.help) {
+        log(USAGE);
+        return 0;
+    }
+
+    try {
+        const cases = await loadGoldenCases(path.resolve(baseDir, values.golden));
+        const configPaths = values.config.length > 0 ? values.config : ['eval/configs/baseline.json'];
+        const runs: ConfigRun[] = [];
+        for (const configPath of configPaths) {
+            const { config, configDir } = await loadConfig(path.resolve(baseDir, configPath));
+            runs.push(await runConfig(config, configDir, cases));
+        }
+
+        const outDir = path.resolve(baseDir, values.out);
+        await mkdir(outDir, { recursive: true });
+        await writeFile(path.join(outDir, 'report.md'), renderEvalReport(runs));
+        await writeFile(path.join(outDir, 'results.json'), JSON.stringify(runs, null, 2));
+        log(`Report written to ${path.relative(baseDir, path.join(outDir, 'report.md'))}.`);
+        return 0;
+    } catch (error) {
+        log(`Error: ${error instanceof Error ? error.message : error}`);
+        return 1;
+    }
+};
+
+main().then(code => {
+    process.exitCode = code;
+});
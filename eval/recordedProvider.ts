@@ -0,0 +1,74 @@
+// eval/recordedProvider.ts
+
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import type { GenerateRequest, LLMProvider, ProviderId } from '../services/providers';
+import { ProviderError, throwIfCancelled } from '../services/providers';
+
+const RECORDING_FORMAT = 'qa-plan-recording';
+
+/** Model responses captured from a live provider, keyed by recordingKey(). */
+export interface Recording {
+    format: typeof RECORDING_FORMAT;
+    provider: ProviderId;
+    model: string;
+    responses: Record<string, string>;
+}
+
+/** Hashes everything that affects the response, so a changed prompt misses the recording. */
+export const recordingKey = (request: GenerateRequest, model: string): string =>
+    createHash('sha256').update(JSON.stringify({
+        operation: request.operation,
+        model: request.model || model,
+        parts: request.parts,
+        systemInstruction: request.systemInstruction || '',
+        responseSchema: request.responseSchema || null,
+        temperature: request.temperature,
+    })).digest('hex');
+
+export const loadRecording = async (filePath: string): Promise<Recording | null> => {
+    if (!existsSync(filePath)) return null;
+    const data = JSON.parse(await readFile(filePath, 'utf8'));
+    if (data?.format !== RECORDING_FORMAT || typeof data.responses !== 'object') {
+        throw new Error(`"${filePath}" is not a provider recording.`);
+    }
+    return data;
+};
+
+export const saveRecording = (filePath: string, recording: Recording): Promise<void> =>
+    writeFile(filePath, `${JSON.stringify(recording, null, 2)}\n`);
+
+/**
+ * Creates a provider that answers from a recording. With a `live` provider, requests that are not
+ * recorded yet go to it and the response is added to `recording`; without one they fail.
+ * It reports the recorded provider and model, so reports show what originally produced the responses.
+ * @param recording The responses to replay; mutated when recording.
+ * @param live The provider to record from, if any.
+ */
+export const createRecordedProvider = (recording: Recording, live?: LLMProvider): LLMProvider => {
+    const generateContent = async (request: GenerateRequest): Promise<string> => {
+        throwIfCancelled(request.signal);
+        const key = recordingKey(request, recording.model);
+        if (key in recording.responses) return recording.responses[key];
+        if (!live) {
+            throw new ProviderError(`No recorded response for this "${request.operation}" request. Re-record after changing prompts or inputs.`);
+        }
+        const text = await live.generateContent(request);
+        recording.responses[key] = text;
+        return text;
+    };
+
+    // Recorded responses are replayed in one chunk; streaming only matters for the UI.
+    async function* generateContentStream(request: GenerateRequest): AsyncGenerator<string> {
+        yield await generateContent(request);
+    }
+
+    return {
+        id: recording.provider,
+        name: `${live ? 'Recording' : 'Replay of'} ${recording.provider}`,
+        model: recording.model,
+        generateContent,
+        generateContentStream,
+    };
+};
@@ -0,0 +1,111 @@
+// eval/report.ts
+
+import type { TemplateVersionRef } from '../types';
+import { formatTemplateVersion } from '../services/promptTemplates';
+import type { CaseScore } from './scoring';
+
+/** The scores of every golden case under one provider / prompt configuration. */
+export interface ConfigRun {
+    name: string;
+    provider: string;
+    model: string;
+    templateVersions: TemplateVersionRef[];
+    scores: CaseScore[];
+}
+
+interface Metric {
+    label: string;
+    value: (scores: CaseScore[]) => number;
+    format: (value: number) => string;
+    /** Whether a larger value is an improvement; decides the arrow in the comparison. */
+    higherIsBetter: boolean;
+}
+
+const average = (scores: CaseScore[], pick: (score: CaseScore) => number) =>
+    scores.length === 0 ? 0 : scores.reduce((sum, score) => sum + pick(score), 0) / scores.length;
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const count = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const METRICS: Metric[] = [
+    { label: 'Story coverage', value: s => average(s, x => x.storyCoverage), format: percent, higherIsBetter: true },
+    { label: 'Schema-valid responses', value: s => average(s, x => (x.schemaValid ? 1 : 0)), format: percent, higherIsBetter: true },
+    { label: 'Parseable test cases (avg)', value: s => average(s, x => x.parseableTestCases), format: count, higherIsBetter: true },
+    { label: 'Rejected test cases (total)', value: s => s.reduce((sum, x) => sum + x.rejectedTestCases, 0), format: count, higherIsBetter: false },
+    { label: 'Gherkin validity', value: s => average(s, x => x.gherkinValidity), format: percent, higherIsBetter: true },
+    { label: 'Must-have scenarios found', value: s => average(s, x => x.mustHaveScenarioRate), format: percent, higherIsBetter: true },
+    { label: 'Banned content hits (total)', value: s => s.reduce((sum, x) => sum + x.bannedContentFound.length, 0), format: count, higherIsBetter: false },
+    { label: 'Failed cases', value: s => s.filter(x => x.error).length, format: count, higherIsBetter: false },
+];
+
+const formatDelta = (metric: Metric, baseline: number, candidate: number): string => {
+    const delta = candidate - baseline;
+    if (Math.abs(delta) < 1e-9) return '=';
+    const improved = (delta > 0) === metric.higherIsBetter;
+    const sign = delta > 0 ? '+' : '-';
+    const magnitude = metric.format === percent ? `${(Math.abs(delta) * 100).toFixed(1)} pts` : count(Math.abs(delta));
+    return `${sign}${magnitude} ${improved ? '▲' : '▼'}`;
+};
+
+const formatDistribution = (scores: CaseScore[]): string => {
+    const totals: Record<string, number> = {};
+    scores.forEach(score => Object.entries(score.priorityDistribution).forEach(([priority, n]) => {
+        totals[priority] = (totals[priority] || 0) + n;
+    }));
+    const total = Object.values(totals).reduce((sum, n) => sum + n, 0);
+    if (total === 0) return '–';
+    return ['P0', 'P1', 'P2', 'P3', 'other']
+        .filter(priority => totals[priority])
+        .map(priority => `${priority} ${Math.round((totals[priority] / total) * 100)}%`)
+        .join(' · ');
+};
+
+const caseNotes = (score: CaseScore): string => {
+    if (score.error) return `Failed: ${score.error}`;
+    const notes = [
+        score.missingStoryIds.length > 0 && `uncovered ${score.missingStoryIds.join(', ')}`,
+        score.missingScenarios.length > 0 && `missing scenarios: ${score.missingScenarios.map(s => `"${s}"`).join(', ')}`,
+        score.bannedContentFound.length > 0 && `banned: ${score.bannedContentFound.map(s => `"${s}"`).join(', ')}`,
+        score.gherkinProblems.length > 0 && `${score.gherkinProblems.length} Gherkin problem${score.gherkinProblems.length === 1 ? '' : 's'}`,
+    ].filter(Boolean);
+    return notes.length > 0 ? notes.join('; ') : '–';
+};
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * Renders the eval results as Markdown. The first run is the baseline; each further run gets
+ * a delta column against it.
+ */
+export const renderEvalReport = (runs: ConfigRun[]): string => {
+    const [baseline, ...candidates] = runs;
+    const lines = ['# Prompt Evaluation Report', '', `Generated ${new Date().toISOString()}.`, '', '## Configurations', ''];
+    runs.forEach(run => {
+        const templates = run.templateVersions.length > 0 ? run.templateVersions.map(formatTemplateVersion).join(', ') : 'none used';
+        lines.push(`- **${run.name}**: ${run.provider} (${run.model}); templates: ${templates}`);
+    });
+
+    lines.push('', '## Summary', '');
+    const header = ['Metric', ...runs.flatMap((run, i) => (i === 0 ? [run.name] : [run.name, 'Δ']))];
+    lines.push(`| ${header.join(' | ')} |`, `| ${header.map(() => '---').join(' | ')} |`);
+    METRICS.forEach(metric => {
+        const baselineValue = metric.value(baseline.scores);
+        const cells = [metric.label, metric.format(baselineValue)];
+        candidates.forEach(run => {
+            const value = metric.value(run.scores);
+            cells.push(metric.format(value), formatDelta(metric, baselineValue, value));
+        });
+        lines.push(`| ${cells.join(' | ')} |`);
+    });
+    const distributions = runs.flatMap((run, i) => (i === 0 ? [formatDistribution(run.scores)] : [formatDistribution(run.scores), '']));
+    lines.push(`| ${['Priority distribution', ...distributions].join(' | ')} |`);
+
+    lines.push('', '## Cases');
+    baseline.scores.forEach((_, index) => {
+        lines.push('', `### ${baseline.scores[index].caseName}`, '', '| Configuration | Coverage | Test cases | Gherkin | Must-haves | Notes |', '| --- | --- | --- | --- | --- | --- |');
+        runs.forEach(run => {
+            const score = run.scores[index];
+            lines.push(`| ${run.name} | ${percent(score.storyCoverage)} | ${score.parseableTestCases} (${score.rejectedTestCases} rejected) | ${percent(score.gherkinValidity)} | ${percent(score.mustHaveScenarioRate)} | ${escapeCell(caseNotes(score))} |`);
+        });
+    });
+    return `${lines.join('\n')}\n`;
+};
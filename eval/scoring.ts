@@ -0,0 +1,155 @@
+// eval/scoring.ts
+
+import type { TestPlanResult } from '../types';
+import { extractReferencedIds } from '../utils/traceability';
+
+/** A golden PRD and what a good plan for it must (and must not) contain. */
+export interface GoldenCase {
+    name: string;
+    prdText: string;
+    /** Stories that must each be covered by at least one test case. */
+    expectedStoryIds: string[];
+    /** Matched case-insensitively against scenario titles and test case summaries. */
+    mustHaveScenarios: string[];
+    /** Phrases that must not appear anywhere in the test cases or Gherkin. */
+    bannedContent: string[];
+}
+
+export interface CaseScore {
+    caseName: string;
+    /** Set when the pipeline failed; the metrics below are then zero. */
+    error?: string;
+    durationMs: number;
+    storyCoverage: number; // 0-1
+    missingStoryIds: string[];
+    /** False when the test plan response as a whole did not match the schema. */
+    schemaValid: boolean;
+    parseableTestCases: number;
+    rejectedTestCases: number;
+    priorityDistribution: Record<string, number>;
+    gherkinValidity: number; // 0-1, share of well-formed scenarios
+    gherkinProblems: string[];
+    mustHaveScenarioRate: number; // 0-1
+    missingScenarios: string[];
+    bannedContentFound: string[];
+}
+
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s/;
+const SCENARIO_PATTERN = /^(Scenario|Scenario Outline|Scenario Template|Example):/;
+
+/**
+ * Checks the structure of generated Gherkin: at least one Feature, scenarios with at least one
+ * step each, outlines with an Examples table, and no stray text between steps.
+ * @returns The scenario titles, how many are well-formed, and a description of each problem.
+ */
+export const validateGherkin = (gherkin: string): { scenarios: string[]; validScenarios: number; problems: string[] } => {
+    const problems: string[] = [];
+    const scenarios: Array<{ title: string; line: number; steps: number; isOutline: boolean; hasExamples: boolean; valid: boolean }> = [];
+    let hasFeature = false;
+    let inDocString = false;
+    // Free-text descriptions are allowed directly below a Feature / Scenario line, until the first step.
+    let allowDescription = false;
+
+    gherkin.split('\n').forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        const current = scenarios[scenarios.length - 1];
+        if (line.startsWith('"""') || line.startsWith('```')) {
+            inDocString = !inDocString;
+            return;
+        }
+        if (inDocString || !line || line.startsWith('#') || line.startsWith('@') || line.startsWith('|')) return;
+
+        if (line.startsWith('Feature:')) {
+            hasFeature = true;
+            allowDescription = true;
+        } else if (line.startsWith('Rule:') || line.startsWith('Background:')) {
+            allowDescription = true;
+        } else if (SCENARIO_PATTERN.test(line)) {
+            const title = line.replace(SCENARIO_PATTERN, '').trim();
+            scenarios.push({ title, line: index + 1, steps: 0, isOutline: line.startsWith('Scenario Outline') || line.startsWith('Scenario Template'), hasExamples: false, valid: true });
+            allowDescription = true;
+        } else if (line.startsWith('Examples:') || line.startsWith('Scenarios:')) {
+            if (current) current.hasExamples = true;
+        } else if (STEP_PATTERN.test(line)) {
+            if (current) current.steps++;
+            allowDescription = false;
+        } else if (!allowDescription) {
+            problems.push(`Line ${index + 1}: unexpected text "${line.slice(0, 60)}"`);
+            if (current) current.valid = false;
+        }
+    });
+
+    if (!hasFeature) problems.unshift('No "Feature:" line.');
+    scenarios.forEach(scenario => {
+        if (scenario.steps === 0) {
+            problems.push(`Line ${scenario.line}: scenario "${scenario.title}" has no steps.`);
+            scenario.valid = false;
+        }
+        if (scenario.isOutline && !scenario.hasExamples) {
+            problems.push(`Line ${scenario.line}: scenario outline "${scenario.title}" has no Examples.`);
+            scenario.valid = false;
+        }
+    });
+    const validScenarios = hasFeature ? scenarios.filter(s => s.valid).length : 0;
+    return { scenarios: scenarios.map(s => s.title), validScenarios, problems };
+};
+
+/**
+ * Scores one pipeline run against its golden case.
+ * @param golden The expectations for the PRD.
+ * @param result The generated test plan.
+ * @param durationMs How long analysis and plan generation took.
+ */
+export const scoreTestPlan = (golden: GoldenCase, result: TestPlanResult, durationMs: number): CaseScore => {
+    // A Story ID cell can name several stories ("US-101, US-102") or an operationId.
+    const coveredStoryIds = new Set(result.testCases.flatMap(tc => extractReferencedIds(tc.storyId, golden.expectedStoryIds).map(id => id.toUpperCase())));
+    const missingStoryIds = golden.expectedStoryIds.filter(id => !coveredStoryIds.has(id.toUpperCase()));
+
+    const priorityDistribution: Record<string, number> = {};
+    result.testCases.forEach(tc => {
+        const priority = /^P[0-3]$/.test(tc.priority) ? tc.priority : 'other';
+        priorityDistribution[priority] = (priorityDistribution[priority] || 0) + 1;
+    });
+
+    const gherkin = validateGherkin(result.gherkin);
+    const titles = [...gherkin.scenarios, ...result.testCases.map(tc => tc.summary)].map(title => title.toLowerCase());
+    const missingScenarios = golden.mustHaveScenarios.filter(expected => !titles.some(title => title.includes(expected.toLowerCase())));
+
+    const content = `${JSON.stringify(result.testCases)}\n${result.gherkin}`.toLowerCase();
+    const bannedContentFound = golden.bannedContent.filter(phrase => content.includes(phrase.toLowerCase()));
+
+    const ratio = (part: number, total: number) => total === 0 ? 1 : part / total;
+    return {
+        caseName: golden.name,
+        durationMs,
+        storyCoverage: ratio(golden.expectedStoryIds.length - missingStoryIds.length, golden.expectedStoryIds.length),
+        missingStoryIds,
+        schemaValid: !result.parseIssues.some(issue => issue.row === 0),
+        parseableTestCases: result.testCases.length,
+        rejectedTestCases: result.parseIssues.filter(issue => issue.row > 0).length,
+        priorityDistribution,
+        gherkinValidity: gherkin.scenarios.length === 0 ? 0 : gherkin.validScenarios / gherkin.scenarios.length,
+        gherkinProblems: gherkin.scenarios.length === 0 ? ['No scenarios.', ...gherkin.problems] : gherkin.problems,
+        mustHaveScenarioRate: ratio(golden.mustHaveScenarios.length - missingScenarios.length, golden.mustHaveScenarios.length),
+        missingScenarios,
+        bannedContentFound,
+    };
+};
+
+/** The score recorded for a case whose pipeline run failed. */
+export const failedCaseScore = (golden: GoldenCase, error: string, durationMs: number): CaseScore => ({
+    caseName: golden.name,
+    error,
+    durationMs,
+    storyCoverage: 0,
+    missingStoryIds: golden.expectedStoryIds,
+    schemaValid: false,
+    parseableTestCases: 0,
+    rejectedTestCases: 0,
+    priorityDistribution: {},
+    gherkinValidity: 0,
+    gherkinProblems: [],
+    mustHaveScenarioRate: 0,
+    missingScenarios: golden.mustHaveScenarios,
+    bannedContentFound: [],
+});
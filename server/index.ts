@@ -0,0 +1,40 @@
+// server/index.ts
+
+import { existsSync } from 'node:fs';
+import { createProvider, getProviderConfig } from '../services/providers';
+import { DEFAULT_PROXY_PORT } from '../constants';
+import { createProxyServer } from './proxyServer';
+import { createRateLimiter } from './rateLimiter';
+
+// Same key file as the Vite dev server, so one .env.local configures both.
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+const readNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const config = getProviderConfig();
+if (config.provider === 'proxy') {
+    console.error('LLM_PROVIDER=proxy would make the server call itself. Set it to gemini, openai or mock.');
+    process.exit(1);
+}
+
+const port = readNumber('PROXY_PORT', DEFAULT_PROXY_PORT);
+const server = createProxyServer({
+    provider: createProvider(config),
+    rateLimiter: createRateLimiter({
+        limit: readNumber('PROXY_RATE_LIMIT', 30),
+        windowMs: readNumber('PROXY_RATE_WINDOW_MS', 60_000),
+    }),
+    log: entry => console.log(JSON.stringify(entry)),
+    maxBodyBytes: readNumber('PROXY_MAX_BODY_BYTES', 25 * 1024 * 1024),
+    allowedOrigin: process.env.PROXY_ALLOWED_ORIGIN,
+    staticDir: existsSync('dist/index.html') ? 'dist' : undefined,
+});
+
+server.listen(port, () => {
+    console.log(`QA plan proxy listening on http://localhost:${port} (${config.provider}, ${config.model})`);
+});
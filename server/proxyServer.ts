@@ -0,0 +1,285 @@
+// server/proxyServer.ts
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { GenerateRequest, LLMOperation, LLMProvider, PromptPart } from '../services/providers';
+import { ProviderError } from '../services/providers';
+import type { RateLimiter } from './rateLimiter';
+
+// One endpoint per service operation: analyze, generate plan (+ consensus merge), prioritize, QA docs, enhance.
+const OPERATIONS: LLMOperation[] = ['analyze', 'testPlan', 'consolidate', 'prioritize', 'qaDocs', 'enhancePrd'];
+const ROUTE_PATTERN = /^\/api\/llm\/(\w+)(\/stream)?$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+export interface RequestLogEntry {
+    time: string;
+    id: string;
+    ip: string;
+    method: string;
+    path: string;
+    operation?: LLMOperation;
+    status: number;
+    durationMs: number;
+    /** Size of the request body, which is dominated by attached images. */
+    bytes: number;
+    error?: string;
+}
+
+export interface ProxyServerOptions {
+    /** The real provider; its API key never leaves the server. */
+    provider: LLMProvider;
+    rateLimiter: RateLimiter;
+    /** Called once per finished request. */
+    log: (entry: RequestLogEntry) => void;
+    /** Request bodies above this size are rejected with 413. */
+    maxBodyBytes: number;
+    /** Value for Access-Control-Allow-Origin; omit to only serve same-origin clients. */
+    allowedOrigin?: string;
+    /** Serves the built frontend from this directory for every non-API path. */
+    staticDir?: string;
+}
+
+class HttpError extends Error {
+    status: number;
+    /** Sent as the Retry-After header. */
+    retryAfterSeconds?: number;
+
+    constructor(message: string, status: number, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            reject(new HttpError(`The request body exceeds the ${maxBytes} byte limit.`, 413));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPromptPart = (value: unknown): value is PromptPart =>
+    isObject(value) && (typeof value.text === 'string'
+        || (isObject(value.inlineData) && typeof value.inlineData.mimeType === 'string' && typeof value.inlineData.data === 'string'));
+
+/** Validates the JSON body and turns it into a provider request. */
+const parseGenerateRequest = (body: Buffer, operation: LLMOperation, signal: AbortSignal): GenerateRequest => {
+    let data: unknown;
+    try {
+        data = JSON.parse(body.toString('utf8'));
+    } catch {
+        throw new HttpError('The request body is not valid JSON.', 400);
+    }
+    if (!isObject(data) || !Array.isArray(data.parts) || data.parts.length === 0) {
+        throw new HttpError('The request body must contain a non-empty "parts" array.', 400);
+    }
+    if (!data.parts.every(isPromptPart)) {
+        throw new HttpError('Every entry of "parts" must have a "text" string or "inlineData" with "mimeType" and "data" strings.', 400);
+    }
+    if (typeof data.temperature !== 'number') {
+        throw new HttpError('The request body must contain a numeric "temperature".', 400);
+    }
+    return {
+        operation,
+        parts: data.parts,
+        systemInstruction: typeof data.systemInstruction === 'string' ? data.systemInstruction : undefined,
+        responseSchema: isObject(data.responseSchema) ? data.responseSchema : undefined,
+        temperature: data.temperature,
+        model: typeof data.model === 'string' ? data.model : undefined,
+        signal,
+    };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+// Upstream rate limits and outages keep their status so the client's retry logic applies; anything else is a bad gateway.
+const toHttpError = (error: unknown): HttpError => {
+    if (error instanceof HttpError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new HttpError(message, error instanceof ProviderError && error.status ? error.status : 502);
+};
+
+/**
+ * Creates the HTTP server that forwards LLM requests from the frontend to the configured provider.
+ * Routes: `GET /api/health`, `POST /api/llm/:operation` (returns `{ text }`) and
+ * `POST /api/llm/:operation/stream` (newline-delimited `{ text }` chunks, or a final `{ error, status }`).
+ * @param options The provider, rate limiter, request logger and HTTP limits.
+ */
+export const createProxyServer = (options: ProxyServerOptions): Server => {
+    const { provider, rateLimiter, log, maxBodyBytes, allowedOrigin, staticDir } = options;
+
+    const serveStatic = async (pathname: string, res: ServerResponse): Promise<number> => {
+        if (!staticDir) {
+            sendJson(res, 404, { error: 'Not found.' });
+            return 404;
+        }
+        let decoded: string;
+        try {
+            decoded = decodeURIComponent(pathname);
+        } catch {
+            throw new HttpError('The request path is not a valid URI.', 400);
+        }
+        const root = path.resolve(staticDir);
+        let filePath = path.resolve(root, `.${decoded}`);
+        // A prefix test would also let `/../dist-secret/...` through to sibling directories.
+        const relative = path.relative(root, filePath);
+        if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+            sendJson(res, 404, { error: 'Not found.' });
+            return 404;
+        }
+        // Unknown paths fall back to index.html so the single-page app can load.
+        const isFile = await stat(filePath).then(s => s.isFile(), () => false);
+        if (!isFile) filePath = path.join(root, 'index.html');
+        try {
+            const content = await readFile(filePath);
+            res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+            res.end(content);
+            return 200;
+        } catch {
+            sendJson(res, 404, { error: 'Not found.' });
+            return 404;
+        }
+    };
+
+    const handleGenerate = async (
+        req: IncomingMessage,
+        res: ServerResponse,
+        entry: RequestLogEntry,
+        stream: boolean
+    ): Promise<number> => {
+        const limit = rateLimiter.check(entry.ip);
+        if (!limit.allowed) {
+            throw new HttpError(`Too many requests. Try again in ${limit.retryAfterSeconds}s.`, 429, limit.retryAfterSeconds);
+        }
+        res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+
+        const body = await readBody(req, maxBodyBytes);
+        entry.bytes = body.length;
+
+        // Stop paying for the upstream call once the browser has gone (e.g. the user pressed Cancel).
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) controller.abort();
+        });
+        const request = parseGenerateRequest(body, entry.operation!, controller.signal);
+
+        if (!stream) {
+            const text = await provider.generateContent(request);
+            sendJson(res, 200, { text });
+            return 200;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+        try {
+            for await (const text of provider.generateContentStream(request)) {
+                res.write(`${JSON.stringify({ text })}\n`);
+            }
+        } catch (error) {
+            // The status line has already been sent, so the failure travels in the stream.
+            const httpError = toHttpError(error);
+            entry.error = httpError.message;
+            res.write(`${JSON.stringify({ error: httpError.message, status: httpError.status })}\n`);
+        }
+        res.end();
+        return 200;
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse, entry: RequestLogEntry): Promise<number> => {
+        if (allowedOrigin) {
+            res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+            res.setHeader('Vary', 'Origin');
+        }
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204, {
+                'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+                'Access-Control-Allow-Headers': 'Content-Type',
+            });
+            res.end();
+            return 204;
+        }
+
+        if (entry.path === '/api/health' && req.method === 'GET') {
+            sendJson(res, 200, { status: 'ok', provider: provider.id, model: provider.model });
+            return 200;
+        }
+
+        const match = entry.path.match(ROUTE_PATTERN);
+        if (match) {
+            if (!OPERATIONS.includes(match[1] as LLMOperation)) {
+                throw new HttpError(`Unknown operation "${match[1]}".`, 404);
+            }
+            if (req.method !== 'POST') {
+                throw new HttpError('Use POST for LLM requests.', 405);
+            }
+            entry.operation = match[1] as LLMOperation;
+            return handleGenerate(req, res, entry, Boolean(match[2]));
+        }
+
+        if (entry.path.startsWith('/api/')) {
+            throw new HttpError('Not found.', 404);
+        }
+        return serveStatic(entry.path, res);
+    };
+
+    return createServer((req, res) => {
+        const startedAt = Date.now();
+        const entry: RequestLogEntry = {
+            time: new Date(startedAt).toISOString(),
+            id: randomUUID(),
+            ip: req.socket.remoteAddress || 'unknown',
+            method: req.method || 'GET',
+            path: new URL(req.url || '/', 'http://localhost').pathname,
+            status: 0,
+            durationMs: 0,
+            bytes: 0,
+        };
+        res.setHeader('X-Request-Id', entry.id);
+
+        handle(req, res, entry)
+            .catch((error: unknown) => {
+                const httpError = toHttpError(error);
+                entry.error = httpError.message;
+                if (res.headersSent) {
+                    res.end();
+                    return httpError.status;
+                }
+                const headers: Record<string, string> = httpError.retryAfterSeconds !== undefined
+                    ? { 'Retry-After': String(httpError.retryAfterSeconds) }
+                    : {};
+                sendJson(res, httpError.status, { error: httpError.message }, headers);
+                return httpError.status;
+            })
+            .then(status => {
+                entry.status = status;
+                entry.durationMs = Date.now() - startedAt;
+                log(entry);
+            });
+    });
+};
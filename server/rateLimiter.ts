@@ -0,0 +1,40 @@
+// server/rateLimiter.ts
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    /** Seconds until the client's window resets; sent as Retry-After when the request is rejected. */
+    retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+    check(clientId: string): RateLimitResult;
+}
+
+/**
+ * Creates a fixed-window rate limiter that allows `limit` requests per client every `windowMs`.
+ * State is kept in memory, so limits reset when the server restarts.
+ * @param options The number of requests allowed per window and the window length.
+ */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter => {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+
+    const check = (clientId: string): RateLimitResult => {
+        const now = Date.now();
+        // Drop expired windows so clients that stop calling don't accumulate.
+        windows.forEach((window, id) => {
+            if (now - window.startedAt >= windowMs) windows.delete(id);
+        });
+
+        const window = windows.get(clientId) || { startedAt: now, count: 0 };
+        windows.set(clientId, window);
+        const retryAfterSeconds = Math.ceil((window.startedAt + windowMs - now) / 1000);
+        if (window.count >= limit) {
+            return { allowed: false, remaining: 0, retryAfterSeconds };
+        }
+        window.count++;
+        return { allowed: true, remaining: limit - window.count, retryAfterSeconds };
+    };
+
+    return { check };
+};
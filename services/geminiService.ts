@@ -1,27 +1,116 @@
 
 
-import { GoogleGenAI, Part } from "@google/genai";
-import type { Analysis, AnalysisFinding, TestPlan, TestCase, InputData, FileData, TraceabilityMatrix } from '../types';
+import type { Analysis, AnalysisFinding, AnalysisOptions, TestPlan, TestCase, GeneratedTestCase, InputData, PipelineWarning, ConsensusDraftConfig, GenerationOptions, ProgressDetail, PipelineStage, PlanCheckpoint, TestPlanResult, RequestOptions, ChunkingOptions, TemplateVersionRef, GeneratedDocument } from '../types';
 import { Step } from '../types';
+import { getProvider, StreamInterruptedError, OperationCancelledError } from './providers';
+import { parseStructuredTestCases, parseMarkdownTable, parsePartialTestCases } from '../utils/testCaseParser';
+import type { TestCaseParseResult } from '../utils/testCaseParser';
+import { buildTraceabilityMatrix, collectKnownStoryIds } from '../utils/traceability';
+import { splitApiSpecIntoChunks, splitPrdIntoStoryChunks } from '../utils/prdChunker';
+import { formatRequirementOutline } from '../utils/requirementParser';
+import { formatFigmaDesign } from '../utils/figmaParser';
+import { formatApiSpec } from '../utils/openApiParser';
+import { formatTimestamp } from '../utils/sceneDetection';
+import { formatImageAnnotations } from '../utils/imageAnnotations';
+import { normalizeFindings } from '../utils/findingTriage';
+import { lintPrd } from '../utils/prdLinter';
+import type { PrdChunk } from '../utils/prdChunker';
+import { mapSettledWithConcurrency } from '../utils/concurrency';
+import { withRetry } from '../utils/retry';
+import type { RetryOptions } from '../utils/retry';
+import type { GenerateRequest, PromptPart } from './providers';
+import { hashRequest, getCachedResponse, putCachedResponse } from './responseCache';
+import { resolvePromptTemplate } from './promptTemplates';
 import { 
-    GEMINI_MODEL, 
-    ANALYSIS_SYSTEM_INSTRUCTION, 
     ANALYSIS_RESPONSE_SCHEMA,
-    TEST_PLAN_SYSTEM_INSTRUCTION,
     TEST_PLAN_RESPONSE_SCHEMA,
-    CONSOLIDATE_SYSTEM_INSTRUCTION,
-    PRIORITIZATION_SYSTEM_INSTRUCTION,
-    PRIORITIZATION_RESPONSE_SCHEMA,
-    TRACEABILITY_SYSTEM_INSTRUCTION,
-    TRACEABILITY_RESPONSE_SCHEMA,
-    QA_DOCS_GENERATION_INSTRUCTION
+    PRIORITIZATION_RESPONSE_SCHEMA
 } from '../constants';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set. Please set it in your environment.");
+interface CallOptions extends RetryOptions {
+    // Skips the cache lookup; the fresh response still replaces the cached one.
+    bypassCache?: boolean;
+    // Extra check before a response is cached, so a re-run doesn't replay an unusable answer.
+    cacheable?: (text: string) => boolean;
+    // Receives the prompt template version each call was built from.
+    onTemplateUsed?: (ref: TemplateVersionRef) => void;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const isCacheable = (request: GenerateRequest, text: string, options: CallOptions): boolean => {
+    try {
+        if (request.responseSchema) JSON.parse(text);
+        return options.cacheable?.(text) ?? true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Answers from the response cache when possible, otherwise runs `fetchResponse` and caches its result.
+ * @returns The response text and whether it came from the cache.
+ */
+const withResponseCache = async (
+    request: GenerateRequest,
+    options: CallOptions,
+    fetchResponse: () => Promise<string>
+): Promise<{ text: string; cached: boolean }> => {
+    const provider = getProvider();
+    const key = await hashRequest(provider, request);
+    if (key && !options.bypassCache) {
+        const cachedText = await getCachedResponse(key);
+        if (cachedText !== undefined) return { text: cachedText, cached: true };
+    }
+    const text = await fetchResponse();
+    if (key && isCacheable(request, text, options)) {
+        await putCachedResponse(key, request, request.model || provider.model, text);
+    }
+    return { text, cached: false };
+};
+
+// Every model call goes through the configured provider (Gemini, OpenAI-compatible or mock) and the
+// response cache, with rate limits and server errors retried with backoff. `options.signal` also aborts the request itself.
+const callModel = async (request: GenerateRequest, options: CallOptions = {}): Promise<string> => {
+    const { text } = await withResponseCache(request, options, () =>
+        withRetry(() => getProvider().generateContent({ ...request, signal: options.signal }), options));
+    return text;
+};
+
+// Streams one uncached response, retrying only until the first chunk arrives.
+const streamModel = (request: GenerateRequest, onText: (text: string) => void, options: CallOptions): Promise<string> =>
+    withRetry(async () => {
+        let text = '';
+        try {
+            for await (const chunk of getProvider().generateContentStream({ ...request, signal: options.signal })) {
+                text += chunk;
+                onText(text);
+            }
+            return text;
+        } catch (error) {
+            if (text && !options.signal?.aborted) {
+                throw new StreamInterruptedError(`The response stream was interrupted. ${error instanceof Error ? error.message : ''}`, text);
+            }
+            throw error;
+        }
+    }, options);
+
+/**
+ * Streaming variant of callModel. `onText` receives the full text received so far after every chunk
+ * (a cached response arrives as a single chunk). Only failures before the first chunk are retried;
+ * later ones raise a StreamInterruptedError carrying the partial text.
+ */
+const callModelStream = async (request: GenerateRequest, onText: (text: string) => void, options: CallOptions = {}): Promise<string> => {
+    const { text, cached } = await withResponseCache(request, options, () => streamModel(request, onText, options));
+    if (cached) onText(text);
+    return text;
+};
+
+const providerName = (): string => {
+    try {
+        return getProvider().name;
+    } catch {
+        return 'AI provider';
+    }
+};
 
 interface PrioritizedCase {
     test_case_id: string;
@@ -34,68 +123,46 @@ interface PrioritizationResponse {
 }
 
 
-// --- Helper function to parse markdown table into structured TestCase objects ---
-const parseMarkdownTable = (markdown: string): Omit<TestCase, 'priority' | 'priority_reasoning'>[] => {
-    try {
-        const lines = markdown.trim().split('\n').filter(line => line.trim().startsWith('|') && !line.includes('---'));
-        if (lines.length < 2) return [];
-
-        const headerLine = lines[0];
-        const headers = headerLine.split('|').map(h => h.trim()).filter(Boolean);
-        const headerMap: { [key: string]: number } = {
-            'Test Case ID': headers.indexOf('Test Case ID'),
-            'Test Type': headers.indexOf('Test Type'),
-            'Summary': headers.indexOf('Summary'),
-            'Preconditions': headers.indexOf('Preconditions'),
-            'Test Steps': headers.indexOf('Test Steps'),
-            'Expected Result': headers.indexOf('Expected Result'),
-            'Story ID': headers.indexOf('Story ID'),
-            'Risk Type': headers.indexOf('Risk Type'),
-        };
-        
-        if (Object.values(headerMap).some(v => v === -1)) {
-            console.error("Markdown table parsing error: One or more headers not found", headers);
-            return [];
-        }
-        
-        const rows = lines.slice(1);
-
-        return rows.map(row => {
-            const cells = row.split('|').map(cell => cell.trim()).filter(Boolean);
-            return {
-                id: cells[headerMap['Test Case ID']] || 'N/A',
-                type: cells[headerMap['Test Type']] || 'N/A',
-                summary: cells[headerMap['Summary']] || 'No summary',
-                preconditions: cells[headerMap['Preconditions']] || 'None',
-                steps: cells[headerMap['Test Steps']] || 'N/A',
-                expectedResult: cells[headerMap['Expected Result']] || 'N/A',
-                storyId: cells[headerMap['Story ID']] || 'N/A',
-                risk: cells[headerMap['Risk Type']] || 'N/A',
-            };
-        });
-    } catch (error) {
-        console.error("Failed to parse markdown table:", error);
-        return [];
-    }
-};
-
-function buildMultimodalPrompt(inputs: InputData, additionalContext?: string): Part[] {
-    const parts: Part[] = [];
+function buildMultimodalPrompt(inputs: InputData, additionalContext?: string): PromptPart[] {
+    const parts: PromptPart[] = [];
     let textPrompt = '';
 
     if (inputs.prdText) {
         textPrompt += `Here is the PRD to analyze:\n\n---\n\n${inputs.prdText}\n\n`;
     }
+    if (inputs.features && inputs.features.length > 1) {
+        textPrompt += `These inputs cover ${inputs.features.length} features of one project: ${inputs.features.map(f => `"${f.name}"`).join(', ')}. Each feature's PRD starts with a "# Feature: <name>" heading, and its attachments, Figma frames and API operations are labeled with the feature name. Keep each feature's stories and test cases separate, and also look for conflicts and gaps between the features.\n\n`;
+    }
+    const outline = formatRequirementOutline(inputs.requirements);
+    if (outline) {
+        textPrompt += `The user stories and acceptance criteria detected in the PRD are listed below. Use these story IDs when referring to stories:\n\n${outline}\n\n`;
+    }
     if (inputs.figmaUrl) {
         textPrompt += `The following Figma design is also relevant: ${inputs.figmaUrl}\n\n`;
     }
+    if (inputs.figmaDesign) {
+        textPrompt += `The structure of the Figma design, parsed from its file export:\n\n${formatFigmaDesign(inputs.figmaDesign)}\n\n`;
+    }
+    if (inputs.apiSpec) {
+        textPrompt += `The API specification, parsed from its OpenAPI/Swagger file:\n\n${formatApiSpec(inputs.apiSpec)}\n\n`;
+    }
     
     if(textPrompt) {
         parts.push({ text: textPrompt });
     }
 
     inputs.files.forEach(file => {
-        if(file.type.startsWith('image/')) {
+        if (file.type.startsWith('image/') && file.segments) {
+            parts.push({ text: `Analyze the following UI mockup/screenshot named "${file.name}". It is very tall, so it was split top to bottom into ${file.segments.length} overlapping parts:` });
+            file.segments.forEach(segment => {
+                parts.push({
+                    inlineData: {
+                        mimeType: segment.slice(5, segment.indexOf(';')),
+                        data: segment.split(',')[1],
+                    }
+                });
+            });
+        } else if(file.type.startsWith('image/')) {
             parts.push({ text: `Analyze the following UI mockup/screenshot named "${file.name}":` });
             parts.push({
                 inlineData: {
@@ -104,9 +171,13 @@ function buildMultimodalPrompt(inputs: InputData, additionalContext?: string): P
                 }
             });
         } else if (file.type.startsWith('video/') && file.frames && file.frames.length > 0) {
-            parts.push({ text: `Analyze the following keyframes extracted from the video named "${file.name}":` });
-            file.frames.forEach(frameDataUrl => {
-                 parts.push({
+            const times = file.frameTimes?.length === file.frames.length ? file.frameTimes : undefined;
+            parts.push({ text: times
+                ? `Analyze the following keyframes extracted at the scene changes of the video named "${file.name}", in the order they occur. Each frame is preceded by its timestamp; describe the flow in this order and refer to moments as "at m:ss" (e.g. "at ${formatTimestamp(times[times.length - 1])}") in findings and test steps.`
+                : `Analyze the following keyframes extracted from the video named "${file.name}":` });
+            file.frames.forEach((frameDataUrl, i) => {
+                if (times) parts.push({ text: `${file.name} at ${formatTimestamp(times[i])}:` });
+                parts.push({
                     inlineData: {
                         mimeType: 'image/jpeg',
                         data: frameDataUrl.split(',')[1],
@@ -114,6 +185,11 @@ function buildMultimodalPrompt(inputs: InputData, additionalContext?: string): P
                 });
             });
         }
+        // Annotations are drawn into the image; the text ties each drawn label to its note.
+        const annotations = formatImageAnnotations(file);
+        if (annotations && (file.type.startsWith('image/') || file.frames?.length)) {
+            parts.push({ text: annotations });
+        }
     });
 
     if (additionalContext) {
@@ -123,127 +199,429 @@ function buildMultimodalPrompt(inputs: InputData, additionalContext?: string): P
     return parts;
 }
 
-export async function analyzeInputs(inputs: InputData): Promise<Analysis> {
+/**
+ * Reviews the inputs for gaps and ambiguities, and adds the findings of the local PRD lint rules.
+ * @param options `signal` aborts the request (the promise then rejects with an OperationCancelledError);
+ *   `bypassCache` forces a fresh response; `lint` selects the lint rules.
+ */
+export async function analyzeInputs(inputs: InputData, options: AnalysisOptions = {}): Promise<Analysis> {
   try {
     const parts = buildMultimodalPrompt(inputs);
     if (parts.length === 0) throw new Error("No content to analyze.");
+    const template = resolvePromptTemplate('analysis', { prdText: inputs.prdText });
       
-    const response = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: { role: "user", parts },
-      config: {
-        systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: ANALYSIS_RESPONSE_SCHEMA,
-        temperature: 0.1,
-      },
-    });
-    const result = JSON.parse(response.text);
+    const text = await callModel({
+      operation: 'analyze',
+      parts,
+      systemInstruction: template.text,
+      responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+      temperature: 0.1,
+    }, options);
+    const result = JSON.parse(text);
     if (!result || !Array.isArray(result.findings)) throw new Error('Invalid analysis response format.');
-    return result as Analysis;
+    const ruleFindings = lintPrd(inputs.prdText, inputs.requirements, options.lint);
+    return { findings: normalizeFindings([...result.findings, ...ruleFindings]), templateVersions: [template.ref] };
   } catch (error) {
+    if (error instanceof OperationCancelledError) throw error;
     console.error("Error analyzing inputs:", error);
-    throw new Error(`Failed to get analysis from Gemini API. ${error instanceof Error ? error.message : ''}`);
+    throw new Error(`Failed to get analysis from ${providerName()}. ${error instanceof Error ? error.message : ''}`);
   }
 }
 
-async function _generateSingleTestPlan(inputs: InputData, findings?: AnalysisFinding[]): Promise<TestPlan> {
+const parseTestPlan = (text: string): TestPlan => {
+    const result = JSON.parse(text);
+    const hasCases = Array.isArray(result?.test_cases) || typeof result?.markdown === 'string';
+    if (!result || !hasCases || typeof result.gherkin !== 'string') throw new Error('Invalid test plan response format.');
+    return result as TestPlan;
+};
+
+// Prefers the structured test_cases array; the Markdown table is only a fallback for providers that ignore the schema.
+const extractTestCases = (plan: TestPlan): TestCaseParseResult => {
+    if (Array.isArray(plan.test_cases)) {
+        return parseStructuredTestCases(plan.test_cases);
+    }
+    return parseMarkdownTable(plan.markdown || '');
+};
+
+// Streams the request when the caller wants partial output, otherwise makes a plain call.
+const requestTestPlan = async (request: GenerateRequest, options?: CallOptions, onPartialText?: (text: string) => void): Promise<TestPlan> => {
+    // A plan without a single usable test case gets regenerated, so it must not be replayed from the cache.
+    const callOptions: CallOptions = { ...options, cacheable: planText => extractTestCases(parseTestPlan(planText)).testCases.length > 0 };
+    const text = onPartialText ? await callModelStream(request, onPartialText, callOptions) : await callModel(request, callOptions);
+    return parseTestPlan(text);
+};
+
+async function _generateSingleTestPlan(inputs: InputData, findings?: AnalysisFinding[], draft?: ConsensusDraftConfig, options?: CallOptions, onPartialText?: (text: string) => void, storyScope?: string[]): Promise<TestPlan> {
     let additionalContext = "\n---\n";
     if (findings && findings.length > 0) {
-        const findingsText = findings.map(f => `- ${f.category} (${f.source_story_id || 'N/A'}): ${f.description}`).join('\n');
+        const findingsText = findings.map(f => `- ${f.category}${f.severity ? ` [${f.severity}]` : ''} (${f.source_story_id || 'N/A'}${f.region_id ? `, region ${f.region_id}` : ''}): ${f.description}`).join('\n');
         additionalContext += `\nPlease pay special attention to addressing the following gaps that were identified:\n${findingsText}`;
     }
+    if (inputs.apiSpec && inputs.apiSpec.operations.length > 0) {
+        additionalContext += `\nFor each API operation, write positive, negative (invalid or missing input), boundary (the schema's limits), authentication/authorization and response schema validation test cases. Set their storyId to the operation's operationId.`;
+    }
+    if (storyScope && storyScope.length > 0) {
+        additionalContext += inputs.apiSpec
+            ? `\nThis API specification excerpt is one part of a larger specification. Only write test cases for these API operations: ${storyScope.join(', ')}. Treat the PRD text as context.`
+            : `\nThis PRD excerpt is one part of a larger document. Only write test cases for these user stories: ${storyScope.join(', ')}. Treat the rest of the text as context.`;
+    }
 
     const parts = buildMultimodalPrompt(inputs, additionalContext);
+    const template = resolvePromptTemplate('testPlan', { prdText: inputs.prdText, findings });
+    options?.onTemplateUsed?.(template.ref);
 
-    const response = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: { role: "user", parts },
-      config: {
-        systemInstruction: TEST_PLAN_SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
+    return requestTestPlan({
+      operation: 'testPlan',
+      parts,
+      systemInstruction: template.text,
+      responseSchema: TEST_PLAN_RESPONSE_SCHEMA,
+      temperature: draft?.temperature ?? 0.5,
+      model: draft?.model,
+    }, options, onPartialText);
+}
+
+async function _consolidateTestPlans(inputs: InputData, drafts: TestPlan[], options?: CallOptions, onPartialText?: (text: string) => void): Promise<TestPlan> {
+    const draftsText = drafts.map((draft, i) =>
+        `### Draft ${i + 1}\n\nTest cases:\n${JSON.stringify(extractTestCases(draft).testCases, null, 2)}\n\nGherkin:\n${draft.gherkin}`
+    ).join('\n\n');
+    const parts = buildMultimodalPrompt(inputs, `\n---\nHere are the ${drafts.length} draft test plans to consolidate:\n\n${draftsText}`);
+    const template = resolvePromptTemplate('consolidate', { prdText: inputs.prdText });
+    options?.onTemplateUsed?.(template.ref);
+
+    return requestTestPlan({
+        operation: 'consolidate',
+        parts,
+        systemInstruction: template.text,
         responseSchema: TEST_PLAN_RESPONSE_SCHEMA,
-        temperature: 0.5,
-      },
+        temperature: 0.2,
+    }, options, onPartialText);
+}
+
+/**
+ * Generates every configured draft in parallel, then merges the successful ones.
+ * Failed drafts are logged and skipped; the run only fails if every draft fails.
+ */
+async function _generateConsensusTestPlan(
+    inputs: InputData,
+    findings: AnalysisFinding[] | undefined,
+    draftConfigs: ConsensusDraftConfig[],
+    onProgress: (message: string, step: Step, detail?: ProgressDetail) => void,
+    callOptionsFor: (step: Step) => CallOptions,
+    onPartialText?: (text: string) => void
+): Promise<TestPlan> {
+    const total = draftConfigs.length;
+    let completed = 0;
+    onProgress(`Generating ${total} draft test plans...`, Step.GENERATING_PLAN, { label: 'Drafts', completed, total });
+
+    const results = await Promise.allSettled(draftConfigs.map(async (draft) => {
+        const plan = await _generateSingleTestPlan(inputs, findings, draft, callOptionsFor(Step.GENERATING_PLAN));
+        completed++;
+        onProgress(`Generated draft ${completed} of ${total}...`, Step.GENERATING_PLAN, { label: 'Drafts', completed, total });
+        return plan;
+    }));
+
+    // Cancelling rejects every pending draft; report that rather than "all drafts failed".
+    if (results.some(result => result.status === 'rejected' && result.reason instanceof OperationCancelledError)) {
+        throw new OperationCancelledError();
+    }
+
+    const drafts: TestPlan[] = [];
+    results.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+            drafts.push(result.value);
+        } else {
+            console.error(`Draft ${i + 1} (temperature ${draftConfigs[i].temperature}) failed:`, result.reason);
+        }
     });
-    const result = JSON.parse(response.text);
-    if (!result || typeof result.markdown !== 'string' || typeof result.gherkin !== 'string') throw new Error('Invalid test plan response format.');
-    return result as TestPlan;
+    if (drafts.length === 0) {
+        throw new Error(`All ${total} consensus drafts failed.`);
+    }
+    if (drafts.length === 1) {
+        return drafts[0];
+    }
+
+    onProgress(`Merging ${drafts.length} drafts into a single plan...`, Step.CONSOLIDATING_PLAN);
+    return _consolidateTestPlans(inputs, drafts, callOptionsFor(Step.CONSOLIDATING_PLAN), onPartialText);
 }
 
-async function _prioritizeTestCases(testCases: Omit<TestCase, 'priority' | 'priority_reasoning'>[]): Promise<TestCase[]> {
-    const prompt = `Prioritize the following test cases:\n\n${JSON.stringify(testCases.map(tc => ({id: tc.id, summary: tc.summary, risk: tc.risk})), null, 2)}`;
-    
-    const response = await ai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: { role: "user", parts: [{ text: prompt }] },
-        config: {
-            systemInstruction: PRIORITIZATION_SYSTEM_INSTRUCTION,
-            responseMimeType: "application/json",
-            responseSchema: PRIORITIZATION_RESPONSE_SCHEMA,
-            temperature: 0.1
+interface ChunkResult {
+    chunk: PrdChunk;
+    plan: TestPlan;
+    testCases: GeneratedTestCase[];
+}
+
+/**
+ * Concatenates the chunk plans in PRD order, renumbering test cases TC-001, TC-002, ... across
+ * all chunks and updating the IDs each chunk's Gherkin refers to.
+ */
+const mergeChunkResults = (results: ChunkResult[]): { test_cases: GeneratedTestCase[]; gherkin: string } => {
+    const testCases: GeneratedTestCase[] = [];
+    const gherkinSections: string[] = [];
+    [...results].sort((a, b) => a.chunk.index - b.chunk.index).forEach(({ chunk, plan, testCases: chunkCases }) => {
+        const idMap = new Map<string, string>();
+        chunkCases.forEach(tc => {
+            const id = `TC-${String(testCases.length + 1).padStart(3, '0')}`;
+            idMap.set(tc.id, id);
+            testCases.push({ ...tc, id });
+        });
+        const gherkin = plan.gherkin.replace(/\bTC-\d+\b/g, id => idMap.get(id) || id).trim();
+        if (gherkin) gherkinSections.push(`# Stories: ${chunk.storyIds.join(', ')}\n${gherkin}`);
+    });
+    return { test_cases: testCases, gherkin: gherkinSections.join('\n\n') };
+};
+
+/**
+ * Generates a plan per user-story chunk, at most `chunking.concurrency` at a time, and merges them.
+ * A failed chunk is recorded as a warning and its stories are left uncovered; the run only
+ * fails if every chunk fails. PRDs without detected stories fall back to a single request.
+ */
+async function _generateChunkedTestPlan(
+    inputs: InputData,
+    findings: AnalysisFinding[] | undefined,
+    chunking: ChunkingOptions,
+    onProgress: (message: string, step: Step, detail?: ProgressDetail) => void,
+    callOptionsFor: (step: Step) => CallOptions,
+    warnings: PipelineWarning[],
+    onPartialTestCases?: (testCases: GeneratedTestCase[]) => void
+): Promise<TestPlan> {
+    const prdChunks = splitPrdIntoStoryChunks(inputs.prdText, inputs.requirements, findings || [], inputs.files, chunking.storiesPerChunk);
+    // API operations get chunks of their own, after the stories.
+    const chunks = inputs.apiSpec
+        ? [...prdChunks, ...splitApiSpecIntoChunks(inputs.apiSpec, inputs.prdText, inputs.requirements, findings || [], chunking.storiesPerChunk, prdChunks.length)]
+        : prdChunks;
+    if (chunks.length === 0) {
+        warnings.push({ stage: 'generate', message: 'No user stories were detected in the PRD, so the plan was generated in a single request instead of per story.' });
+        onProgress('Generating comprehensive test plan...', Step.GENERATING_PLAN);
+        return _generateSingleTestPlan(inputs, findings, undefined, callOptionsFor(Step.GENERATING_PLAN));
+    }
+
+    const total = chunks.length;
+    const completed: ChunkResult[] = [];
+    onProgress(`Generating test cases for ${total} story chunks...`, Step.GENERATING_PLAN, { label: 'Chunks', completed: 0, total });
+
+    const results = await mapSettledWithConcurrency(chunks, chunking.concurrency, async (chunk) => {
+        const chunkInputs: InputData = { ...inputs, prdText: chunk.prdText, requirements: chunk.requirements, files: chunk.files, apiSpec: chunk.apiSpec ?? null };
+        const plan = await _generateSingleTestPlan(chunkInputs, chunk.findings, undefined, callOptionsFor(Step.GENERATING_PLAN), undefined, chunk.storyIds);
+        const { testCases, issues } = extractTestCases(plan);
+        if (testCases.length === 0) {
+            throw new Error(`No usable test cases were returned. ${issues.slice(0, 3).map(issue => issue.reason).join(' ')}`);
         }
+        if (issues.length > 0) {
+            warnings.push({ stage: 'generate', message: `Chunk ${chunk.index + 1} (${chunk.storyIds.join(', ')}): ${issues.length} unusable test case(s) were dropped.` });
+        }
+        completed.push({ chunk, plan, testCases });
+        onProgress(`Generated chunk ${completed.length} of ${total}...`, Step.GENERATING_PLAN, { label: 'Chunks', completed: completed.length, total });
+        onPartialTestCases?.(mergeChunkResults(completed).test_cases);
+        return completed[completed.length - 1];
     });
-    const result = JSON.parse(response.text) as PrioritizationResponse;
+
+    if (results.some(result => result.status === 'rejected' && result.reason instanceof OperationCancelledError)) {
+        throw new OperationCancelledError();
+    }
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            const chunk = chunks[i];
+            console.error(`Chunk ${i + 1} (${chunk.storyIds.join(', ')}) failed:`, result.reason);
+            warnings.push({
+                stage: 'generate',
+                message: `Chunk ${i + 1} of ${total} (${chunk.storyIds.join(', ')}) failed and has no test cases: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`,
+            });
+        }
+    });
+    if (completed.length === 0) {
+        throw new Error(`All ${total} story chunks failed.`);
+    }
+    return mergeChunkResults(completed);
+}
+
+/**
+ * Safety net after consolidation: drops cases that duplicate an earlier case for the same
+ * story and renumbers the rest as TC-001, TC-002, ...
+ */
+const deduplicateAndRenumber = (testCases: GeneratedTestCase[]): GeneratedTestCase[] => {
+    const seen = new Set<string>();
+    return testCases
+        .filter(tc => {
+            const key = `${tc.storyId.trim().toLowerCase()}|${tc.summary.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .map((tc, i) => ({ ...tc, id: `TC-${String(i + 1).padStart(3, '0')}` }));
+};
+
+const PRIORITY_LEVELS = ['P0', 'P1', 'P2', 'P3'];
+const DEFAULT_PRIORITY = 'P2';
+
+/**
+ * Assigns priorities to the test cases. Cases the response omits (or gives an unknown
+ * priority) default to P2 and are listed in `defaultedIds` so the caller can warn about them.
+ */
+async function _prioritizeTestCases(testCases: GeneratedTestCase[], options?: CallOptions): Promise<{ testCases: TestCase[]; defaultedIds: string[] }> {
+    const prompt = `Prioritize the following test cases:\n\n${JSON.stringify(testCases.map(tc => ({id: tc.id, summary: tc.summary, risk: tc.risk})), null, 2)}`;
+    const template = resolvePromptTemplate('prioritization');
+    options?.onTemplateUsed?.(template.ref);
+    
+    const text = await callModel({
+        operation: 'prioritize',
+        parts: [{ text: prompt }],
+        systemInstruction: template.text,
+        responseSchema: PRIORITIZATION_RESPONSE_SCHEMA,
+        temperature: 0.1
+    }, options);
+    const result = JSON.parse(text) as PrioritizationResponse;
     if (!result || !Array.isArray(result.prioritized_cases)) throw new Error('Invalid prioritization response format.');
 
-    const priorityMap = new Map(result.prioritized_cases.map((p: PrioritizedCase) => [p.test_case_id, { priority: p.priority, reasoning: p.reasoning }]));
+    const priorityMap = new Map(result.prioritized_cases.map((p: PrioritizedCase) => [p.test_case_id, { priority: p.priority?.trim().toUpperCase(), reasoning: p.reasoning }]));
+    const defaultedIds: string[] = [];
     
-    return testCases.map(tc => {
-        const priorityInfo = priorityMap.get(tc.id) || { priority: 'P2', reasoning: 'N/A - Defaulted' };
+    const prioritized = testCases.map(tc => {
+        const priorityInfo = priorityMap.get(tc.id);
+        if (!priorityInfo || !PRIORITY_LEVELS.includes(priorityInfo.priority)) {
+            defaultedIds.push(tc.id);
+            return { ...tc, priority: DEFAULT_PRIORITY, priority_reasoning: `Defaulted to ${DEFAULT_PRIORITY}: the prioritization step returned no valid priority for this test case.` };
+        }
         return { ...tc, priority: priorityInfo.priority, priority_reasoning: priorityInfo.reasoning };
     });
+    return { testCases: prioritized, defaultedIds };
 }
 
-async function _generateTraceabilityMatrix(testCases: TestCase[]): Promise<TraceabilityMatrix> {
-    const relevantData = testCases.map(tc => ({ test_case_id: tc.id, story_id: tc.storyId }));
-    const prompt = `Generate a traceability matrix from the following test case data:\n\n${JSON.stringify(relevantData, null, 2)}`;
-
-    const response = await ai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: { role: "user", parts: [{ text: prompt }] },
-        config: {
-            systemInstruction: TRACEABILITY_SYSTEM_INSTRUCTION,
-            responseMimeType: "application/json",
-            responseSchema: TRACEABILITY_RESPONSE_SCHEMA,
-            temperature: 0.1
+/**
+ * Keeps the complete test cases from a plan whose stream broke off midway, recording a
+ * warning. Anything else (or an interruption before the first complete case) is rethrown.
+ */
+const recoverInterruptedPlan = (error: unknown, warnings: PipelineWarning[]): TestPlan => {
+    if (error instanceof StreamInterruptedError) {
+        const recovered = parsePartialTestCases(error.partialText);
+        if (recovered.length > 0) {
+            warnings.push({
+                stage: 'generate',
+                message: `The plan generation stream was interrupted. ${recovered.length} complete test case(s) were kept; the rest of the plan and the Gherkin scenarios are missing.`,
+            });
+            return { test_cases: recovered, gherkin: '' };
         }
-    });
+    }
+    throw error;
+};
+
+/**
+ * A generateFullTestPlan failure. `checkpoint` holds the output of every stage that
+ * completed, so passing it back as `options.resumeFrom` re-runs only `stage` onwards.
+ */
+export class PipelineError extends Error {
+    stage: PipelineStage;
+    checkpoint: PlanCheckpoint;
 
-    const result = JSON.parse(response.text) as TraceabilityMatrix;
-    if (!result || !Array.isArray(result.matrix)) throw new Error('Invalid traceability matrix response format.');
-    return result;
+    constructor(message: string, stage: PipelineStage, checkpoint: PlanCheckpoint) {
+        super(message);
+        this.name = 'PipelineError';
+        this.stage = stage;
+        this.checkpoint = checkpoint;
+    }
 }
 
 export async function generateFullTestPlan(
   inputs: InputData,
   findings: AnalysisFinding[] | undefined,
-  onProgress: (message: string, step: Step) => void
-): Promise<{testCases: TestCase[], gherkin: string, traceabilityMatrix: TraceabilityMatrix}> {
+  onProgress: (message: string, step: Step, detail?: ProgressDetail) => void,
+  options: GenerationOptions = {}
+): Promise<TestPlanResult> {
+  const checkpoint: PlanCheckpoint = { ...options.resumeFrom, warnings: [...(options.resumeFrom?.warnings || [])] };
+  let stage: PipelineStage = 'generate';
+  // Re-parse the streamed JSON as it grows, but only notify when another test case has completed.
+  let streamedCount = 0;
+  const onPartialText = options.onPartialTestCases && ((text: string) => {
+    const partialCases = parsePartialTestCases(text);
+    if (partialCases.length !== streamedCount) {
+        streamedCount = partialCases.length;
+        options.onPartialTestCases?.(partialCases);
+    }
+  });
+  // Keeps the latest version per template, so a re-run stage replaces what an earlier attempt recorded.
+  const recordTemplate = (ref: TemplateVersionRef) => {
+    checkpoint.templateVersions = [...(checkpoint.templateVersions || []).filter(r => r.templateId !== ref.templateId), ref];
+  };
+  const callOptionsFor = (step: Step): CallOptions => ({
+    signal: options.signal,
+    bypassCache: options.bypassCache,
+    onTemplateUsed: recordTemplate,
+    onRetry: ({ attempt, maxRetries, delayMs }) =>
+      onProgress(`Provider is busy or rate limited. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxRetries})...`, step),
+  });
+
   try {
-    // Step 1: Generate plan (single call)
-    onProgress('Generating comprehensive test plan...', Step.GENERATING_PLAN);
-    const plan = await _generateSingleTestPlan(inputs, findings);
+    // Step 1: Generate plan (single call, or several drafts merged in consensus mode)
+    if (!checkpoint.plan) {
+        // Warnings from an earlier attempt at this stage no longer apply.
+        checkpoint.warnings = checkpoint.warnings.filter(warning => warning.stage !== 'generate');
+        try {
+            if (options.chunking) {
+                checkpoint.plan = await _generateChunkedTestPlan(inputs, findings, options.chunking, onProgress, callOptionsFor, checkpoint.warnings, options.onPartialTestCases);
+            } else if (options.consensus && options.consensus.drafts.length > 0) {
+                checkpoint.plan = await _generateConsensusTestPlan(inputs, findings, options.consensus.drafts, onProgress, callOptionsFor, onPartialText);
+            } else {
+                onProgress('Generating comprehensive test plan...', Step.GENERATING_PLAN);
+                checkpoint.plan = await _generateSingleTestPlan(inputs, findings, undefined, callOptionsFor(Step.GENERATING_PLAN), onPartialText);
+            }
+        } catch (error) {
+            checkpoint.plan = recoverInterruptedPlan(error, checkpoint.warnings);
+        }
+    }
+    const plan = checkpoint.plan;
     
     // Step 2: Parse the result
-    const parsedTestCases = parseMarkdownTable(plan.markdown);
-    if (parsedTestCases.length === 0) {
-        throw new Error("Failed to parse any test cases from the generated markdown.");
+    stage = 'parse';
+    if (!checkpoint.testCases) {
+        const { testCases: extractedTestCases, issues } = extractTestCases(plan);
+        if (issues.length > 0) {
+            console.warn(`Dropped ${issues.length} unusable test case(s):`, issues);
+        }
+        const parsedTestCases = options.consensus ? deduplicateAndRenumber(extractedTestCases) : extractedTestCases;
+        if (parsedTestCases.length === 0) {
+            // Re-parsing the same response can't succeed, so a retry has to regenerate it.
+            delete checkpoint.plan;
+            stage = 'generate';
+            const reasons = issues.slice(0, 3).map(issue => issue.reason).join(' ');
+            throw new Error(`Failed to parse any test cases from the generated plan. ${reasons}`);
+        }
+        checkpoint.testCases = parsedTestCases;
+        checkpoint.parseIssues = issues;
     }
 
     // Step 3: Prioritize the test cases
-    onProgress('Prioritizing test cases...', Step.PRIORITIZING_PLAN);
-    const prioritizedTestCases = await _prioritizeTestCases(parsedTestCases);
+    stage = 'prioritize';
+    if (!checkpoint.prioritizedTestCases) {
+        onProgress('Prioritizing test cases...', Step.PRIORITIZING_PLAN);
+        const { testCases: prioritized, defaultedIds } = await _prioritizeTestCases(checkpoint.testCases, callOptionsFor(Step.PRIORITIZING_PLAN));
+        if (defaultedIds.length > 0) {
+            checkpoint.warnings.push({
+                stage,
+                message: `No valid priority was returned for ${defaultedIds.length} test case(s) (${defaultedIds.join(', ')}); they were defaulted to ${DEFAULT_PRIORITY}.`,
+            });
+        }
+        checkpoint.prioritizedTestCases = prioritized;
+    }
+    const prioritizedTestCases = checkpoint.prioritizedTestCases;
     
-    // Step 4: Generate Traceability Matrix
+    // Step 4: Build the traceability matrix locally and check it against the known stories
+    stage = 'traceability';
     onProgress('Creating traceability matrix...', Step.GENERATING_TRACEABILITY);
     
-    const traceabilityMatrix = await _generateTraceabilityMatrix(prioritizedTestCases);
+    const operationIds = inputs.apiSpec?.operations.map(operation => operation.operationId);
+    const traceabilityMatrix = buildTraceabilityMatrix(prioritizedTestCases, collectKnownStoryIds(inputs.requirements, findings, operationIds));
     
-    return { testCases: prioritizedTestCases, gherkin: plan.gherkin, traceabilityMatrix };
+    return {
+        testCases: prioritizedTestCases,
+        gherkin: plan.gherkin,
+        traceabilityMatrix,
+        parseIssues: checkpoint.parseIssues || [],
+        warnings: checkpoint.warnings,
+        templateVersions: checkpoint.templateVersions || [],
+    };
 
   } catch (error) {
-    console.error("Error in the full test plan process:", error);
+    if (error instanceof OperationCancelledError) throw error;
+    console.error(`Error in the full test plan process (stage: ${stage}):`, error);
     let detail = "An unknown error occurred.";
     if (error instanceof Error) {
         detail = error.message;
@@ -251,26 +629,67 @@ export async function generateFullTestPlan(
         const errObj = error as any;
         detail = errObj.message || JSON.stringify(errObj);
     }
-    throw new Error(`Failed to generate and prioritize test plan. ${detail}`);
+    throw new PipelineError(`Failed to generate and prioritize test plan. ${detail}`, stage, checkpoint);
   }
 }
 
-export async function generateQaDocumentation(inputs: InputData): Promise<string> {
+/**
+ * Generates the QA documentation suite as Markdown.
+ * @param onText When given, the response is streamed and `onText` receives the Markdown received so far.
+ *   If the stream breaks off, the StreamInterruptedError is rethrown with the partial Markdown.
+ * @param options `signal` aborts the request (the promise then rejects with an OperationCancelledError);
+ *   `bypassCache` forces a fresh response.
+ */
+export async function generateQaDocumentation(inputs: InputData, onText?: (markdown: string) => void, options: RequestOptions = {}): Promise<GeneratedDocument> {
     try {
-        const parts = buildMultimodalPrompt(inputs, QA_DOCS_GENERATION_INSTRUCTION);
-
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL,
-            contents: { role: "user", parts },
-            config: {
-              temperature: 0.6,
-            },
-        });
+        const template = resolvePromptTemplate('qaDocs', { prdText: inputs.prdText });
+        const parts = buildMultimodalPrompt(inputs, template.text);
+        const request: GenerateRequest = {
+            operation: 'qaDocs',
+            parts,
+            temperature: 0.6,
+        };
 
-        return response.text;
+        const text = onText ? await callModelStream(request, onText, options) : await callModel(request, options);
+        return { text, templateVersions: [template.ref] };
 
     } catch (error) {
+        if (error instanceof OperationCancelledError) throw error;
         console.error("Error generating QA documentation:", error);
-        throw new Error(`Failed to generate QA documentation from Gemini API. ${error instanceof Error ? error.message : ''}`);
+        if (error instanceof StreamInterruptedError) {
+            throw new StreamInterruptedError(`QA documentation generation was interrupted; the partial document is shown. ${error.message}`, error.partialText);
+        }
+        throw new Error(`Failed to generate QA documentation from ${providerName()}. ${error instanceof Error ? error.message : ''}`);
+    }
+}
+
+/**
+ * Rewrites the PRD so it addresses the analysis findings.
+ * @param options `signal` aborts the request (the promise then rejects with an OperationCancelledError);
+ *   `bypassCache` forces a fresh response.
+ */
+export async function enhancePrd(inputs: InputData, findings: AnalysisFinding[] = [], options: RequestOptions = {}): Promise<GeneratedDocument> {
+    try {
+        let prompt = `PRD:\n${inputs.prdText || ''}\n\n`;
+        if (findings.length > 0) {
+            prompt += `Missing or weak areas identified by analysis:\n`;
+            findings.forEach((f) => {
+                prompt += `- ${f.category}${f.severity ? ` [${f.severity}]` : ''}: ${f.description}${f.source_story_id ? ` (Story: ${f.source_story_id})` : ''}\n`;
+            });
+        }
+        prompt += `\nPlease provide the enhanced PRD only, do not include commentary or notes.`;
+        const template = resolvePromptTemplate('enhancePrd', { prdText: inputs.prdText, findings });
+
+        const text = await callModel({
+            operation: 'enhancePrd',
+            parts: [{ text: prompt }],
+            systemInstruction: template.text,
+            temperature: 0.6,
+        }, options);
+        return { text, templateVersions: [template.ref] };
+    } catch (error) {
+        if (error instanceof OperationCancelledError) throw error;
+        console.error("Error enhancing PRD:", error);
+        throw new Error(`Failed to enhance PRD with ${providerName()}. ${error instanceof Error ? error.message : ''}`);
     }
 }
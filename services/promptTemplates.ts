@@ -0,0 +1,233 @@
+// services/promptTemplates.ts
+
+import type { AnalysisFinding, PromptTemplateId, TemplateVersionRef } from '../types';
+import {
+    ANALYSIS_SYSTEM_INSTRUCTION,
+    TEST_PLAN_SYSTEM_INSTRUCTION,
+    CONSOLIDATE_SYSTEM_INSTRUCTION,
+    PRIORITIZATION_SYSTEM_INSTRUCTION,
+    QA_DOCS_GENERATION_INSTRUCTION,
+    PRD_ENHANCEMENT_INSTRUCTION
+} from '../constants';
+
+export interface PromptTemplateDefinition {
+    id: PromptTemplateId;
+    name: string;
+    description: string;
+    defaultText: string;
+}
+
+export interface PromptTemplateVersion {
+    version: number;
+    text: string;
+    savedAt: string;
+    note?: string;
+}
+
+interface StoredTemplate {
+    versions: PromptTemplateVersion[];
+    activeVersion: number; // 0 = built-in default
+}
+
+interface TemplateStore {
+    orgName: string;
+    templates: Partial<Record<PromptTemplateId, StoredTemplate>>;
+}
+
+export const PROMPT_TEMPLATE_DEFINITIONS: PromptTemplateDefinition[] = [
+    { id: 'analysis', name: 'PRD analysis', description: 'System instruction for finding gaps in the PRD, designs and videos.', defaultText: ANALYSIS_SYSTEM_INSTRUCTION },
+    { id: 'testPlan', name: 'Test plan', description: 'System instruction for generating test cases and Gherkin scenarios.', defaultText: TEST_PLAN_SYSTEM_INSTRUCTION },
+    { id: 'consolidate', name: 'Consensus merge', description: 'System instruction for merging consensus drafts into one plan.', defaultText: CONSOLIDATE_SYSTEM_INSTRUCTION },
+    { id: 'prioritization', name: 'Prioritization', description: 'System instruction for assigning P0-P3 priorities.', defaultText: PRIORITIZATION_SYSTEM_INSTRUCTION },
+    { id: 'qaDocs', name: 'QA documentation', description: 'Prompt appended to the inputs when generating the QA documentation suite.', defaultText: QA_DOCS_GENERATION_INSTRUCTION },
+    { id: 'enhancePrd', name: 'PRD enhancement', description: 'System instruction for rewriting the PRD to address the findings.', defaultText: PRD_ENHANCEMENT_INSTRUCTION },
+];
+
+export const PROMPT_VARIABLES: Array<{ name: string; description: string }> = [
+    { name: 'prdText', description: 'The full PRD text.' },
+    { name: 'findings', description: 'The accepted analysis findings as a bullet list (empty during analysis).' },
+    { name: 'orgName', description: 'The organization name set in the template editor.' },
+];
+
+const STORAGE_KEY = 'qa-plan-prompt-templates';
+const EXPORT_FORMAT = 'qa-plan-prompt-templates';
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// An exported version must at least have its number and text; the rest is optional.
+const isExportedVersion = (value: unknown): value is { version: number; text: string; savedAt?: unknown; note?: unknown } =>
+    isObject(value) && typeof value.version === 'number' && typeof value.text === 'string';
+
+const getDefinition = (id: PromptTemplateId): PromptTemplateDefinition => {
+    const definition = PROMPT_TEMPLATE_DEFINITIONS.find(d => d.id === id);
+    if (!definition) throw new Error(`Unknown prompt template "${id}".`);
+    return definition;
+};
+
+// Without localStorage (e.g. in Node scripts) the store only lives for the current process.
+let memoryStore: TemplateStore = { orgName: '', templates: {} };
+
+const loadStore = (): TemplateStore => {
+    if (typeof localStorage === 'undefined') return structuredClone(memoryStore);
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        return stored && typeof stored === 'object' ? { orgName: stored.orgName || '', templates: stored.templates || {} } : { orgName: '', templates: {} };
+    } catch {
+        return { orgName: '', templates: {} };
+    }
+};
+
+const saveStore = (store: TemplateStore): void => {
+    if (typeof localStorage === 'undefined') {
+        memoryStore = structuredClone(store);
+        return;
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+const getStoredTemplate = (store: TemplateStore, id: PromptTemplateId): StoredTemplate =>
+    store.templates[id] || { versions: [], activeVersion: 0 };
+
+/** Returns the saved versions of a template, oldest first. Version 0 (the default) is not included. */
+export const getTemplateVersions = (id: PromptTemplateId): PromptTemplateVersion[] =>
+    getStoredTemplate(loadStore(), id).versions;
+
+/** Returns the text of a specific version; 0 is the built-in default. */
+export const getTemplateText = (id: PromptTemplateId, version: number): string => {
+    if (version === 0) return getDefinition(id).defaultText;
+    const match = getTemplateVersions(id).find(v => v.version === version);
+    if (!match) throw new Error(`Version ${version} of the "${getDefinition(id).name}" template does not exist.`);
+    return match.text;
+};
+
+export const getActiveTemplateVersion = (id: PromptTemplateId): number =>
+    getStoredTemplate(loadStore(), id).activeVersion;
+
+/**
+ * Saves `text` as the next version of a template and makes it the active one.
+ * @returns The new version number.
+ */
+export const saveTemplateVersion = (id: PromptTemplateId, text: string, note?: string): number => {
+    const store = loadStore();
+    const template = getStoredTemplate(store, id);
+    const version = template.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+    store.templates[id] = {
+        versions: [...template.versions, { version, text, savedAt: new Date().toISOString(), ...(note && { note }) }],
+        activeVersion: version,
+    };
+    saveStore(store);
+    return version;
+};
+
+/** Makes an existing version active. Passing 0 resets the template to its built-in default; saved versions are kept. */
+export const activateTemplateVersion = (id: PromptTemplateId, version: number): void => {
+    getTemplateText(id, version); // Throws for unknown versions
+    const store = loadStore();
+    store.templates[id] = { ...getStoredTemplate(store, id), activeVersion: version };
+    saveStore(store);
+};
+
+export const resetTemplateToDefault = (id: PromptTemplateId): void => activateTemplateVersion(id, 0);
+
+export const getOrgName = (): string => loadStore().orgName;
+
+export const setOrgName = (orgName: string): void => {
+    const store = loadStore();
+    saveStore({ ...store, orgName });
+};
+
+/** Lists the `{{variables}}` in a template that are not in PROMPT_VARIABLES; they are left as-is when rendering. */
+export const findUnknownVariables = (text: string): string[] => {
+    const known = PROMPT_VARIABLES.map(v => v.name);
+    const unknown = Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]).filter(name => !known.includes(name));
+    return Array.from(new Set(unknown));
+};
+
+const formatFindings = (findings: AnalysisFinding[]): string =>
+    findings.map(f => `- ${f.category}${f.severity ? ` [${f.severity}]` : ''}${f.source_story_id ? ` (${f.source_story_id})` : ''}: ${f.description}`).join('\n');
+
+/**
+ * Renders the active version of a template with the run's variables filled in.
+ * @param id The template to render.
+ * @param context The values for {{prdText}} and {{findings}}; {{orgName}} comes from the store.
+ * @returns The prompt text and the version it was rendered from, to be recorded on the artifact.
+ */
+export const resolvePromptTemplate = (
+    id: PromptTemplateId,
+    context: { prdText?: string; findings?: AnalysisFinding[] } = {}
+): { text: string; ref: TemplateVersionRef } => {
+    const store = loadStore();
+    let version = getStoredTemplate(store, id).activeVersion;
+    let template: string;
+    try {
+        template = getTemplateText(id, version);
+    } catch {
+        version = 0; // The active version was removed from storage by hand; fall back to the default.
+        template = getDefinition(id).defaultText;
+    }
+    const values: Record<string, string> = {
+        prdText: context.prdText || '',
+        findings: formatFindings(context.findings || []),
+        orgName: store.orgName,
+    };
+    const text = template.replace(VARIABLE_PATTERN, (match, name: string) => name in values ? values[name] : match);
+    return { text, ref: { templateId: id, version } };
+};
+
+/** Human-readable label for a recorded template version, e.g. "Test plan v3" or "Test plan (default)". */
+export const formatTemplateVersion = (ref: TemplateVersionRef): string =>
+    `${getDefinition(ref.templateId).name} ${ref.version === 0 ? '(default)' : `v${ref.version}`}`;
+
+/** Serializes the organization name and every saved version as JSON. */
+export const exportTemplates = (): string => {
+    const store = loadStore();
+    return JSON.stringify({ format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), ...store }, null, 2);
+};
+
+/**
+ * Imports templates exported by exportTemplates(). Imported versions are appended after the existing
+ * ones (identical texts are skipped) and the exported active versions become active.
+ * @returns The number of versions added.
+ */
+export const importTemplates = (json: string): number => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isObject(data) || data.format !== EXPORT_FORMAT || !isObject(data.templates)) {
+        throw new Error('The file is not a prompt template export.');
+    }
+
+    const store = loadStore();
+    let added = 0;
+    Object.entries(data.templates).forEach(([id, imported]) => {
+        if (!PROMPT_TEMPLATE_DEFINITIONS.some(d => d.id === id) || !isObject(imported) || !Array.isArray(imported.versions)) return;
+        const templateId = id as PromptTemplateId;
+        const existing = getStoredTemplate(store, templateId);
+        const versions = [...existing.versions];
+        const versionMap = new Map<number, number>([[0, 0]]);
+        imported.versions.forEach((v: unknown) => {
+            if (!isExportedVersion(v)) return;
+            const duplicate = versions.find(current => current.text === v.text);
+            if (duplicate) {
+                versionMap.set(v.version, duplicate.version);
+                return;
+            }
+            const version = versions.reduce((max, current) => Math.max(max, current.version), 0) + 1;
+            versions.push({ version, text: v.text, savedAt: typeof v.savedAt === 'string' ? v.savedAt : new Date().toISOString(), ...(typeof v.note === 'string' && { note: v.note }) });
+            versionMap.set(v.version, version);
+            added++;
+        });
+        const activeVersion = typeof imported.activeVersion === 'number' ? versionMap.get(imported.activeVersion) : undefined;
+        store.templates[templateId] = { versions, activeVersion: activeVersion ?? existing.activeVersion };
+    });
+    if (typeof data.orgName === 'string' && data.orgName) {
+        store.orgName = data.orgName;
+    }
+    saveStore(store);
+    return added;
+};
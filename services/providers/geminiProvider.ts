@@ -0,0 +1,56 @@
+// services/providers/geminiProvider.ts
+
+import { GoogleGenAI, ApiError } from "@google/genai";
+import type { GenerateRequest, LLMProvider, ProviderConfig } from './types';
+import { ProviderError } from './types';
+
+/**
+ * Creates a provider backed by the Google GenAI SDK.
+ * @param config The resolved provider configuration. `apiKey` is required.
+ */
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+    if (!config.apiKey) {
+        throw new ProviderError("GEMINI_API_KEY is not set. Add it to .env.local, or set LLM_PROVIDER=mock to run without a key.");
+    }
+
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+    const toParams = (request: GenerateRequest) => ({
+        model: request.model || config.model,
+        contents: { role: "user", parts: request.parts },
+        config: {
+            systemInstruction: request.systemInstruction,
+            temperature: request.temperature,
+            abortSignal: request.signal,
+            ...(request.responseSchema && {
+                responseMimeType: "application/json",
+                responseSchema: request.responseSchema,
+            }),
+        },
+    });
+
+    const toProviderError = (error: unknown): unknown =>
+        error instanceof ApiError ? new ProviderError(error.message, error.status) : error;
+
+    const generateContent = async (request: GenerateRequest): Promise<string> => {
+        try {
+            const response = await ai.models.generateContent(toParams(request));
+            return response.text ?? '';
+        } catch (error) {
+            throw toProviderError(error);
+        }
+    };
+
+    async function* generateContentStream(request: GenerateRequest): AsyncGenerator<string> {
+        try {
+            const stream = await ai.models.generateContentStream(toParams(request));
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        } catch (error) {
+            throw toProviderError(error);
+        }
+    }
+
+    return { id: 'gemini', name: 'Gemini API', model: config.model, generateContent, generateContentStream };
+};
@@ -0,0 +1,68 @@
+// services/providers/index.ts
+
+import type { LLMProvider, ProviderConfig, ProviderId } from './types';
+import { ProviderError } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL, DEFAULT_PROXY_URL } from '../../constants';
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'mock', 'proxy'];
+
+/**
+ * Reads the provider configuration from the environment (see vite.config.ts):
+ * LLM_PROVIDER selects the provider, LLM_MODEL overrides its default model.
+ * @param overrides Takes precedence over LLM_PROVIDER / LLM_MODEL, e.g. to compare providers from a script.
+ */
+export const getProviderConfig = (overrides: { provider?: string; model?: string } = {}): ProviderConfig => {
+    const requested = (overrides.provider || process.env.LLM_PROVIDER || 'gemini').toLowerCase() as ProviderId;
+    if (!PROVIDER_IDS.includes(requested)) {
+        throw new ProviderError(`Unknown LLM_PROVIDER "${requested}". Expected one of: ${PROVIDER_IDS.join(', ')}.`);
+    }
+    // LLM_MODEL belongs to LLM_PROVIDER, so it doesn't carry over to an overridden provider.
+    const model = overrides.model || (overrides.provider ? undefined : process.env.LLM_MODEL) || DEFAULT_MODELS[requested];
+
+    switch (requested) {
+        case 'gemini':
+            return { provider: requested, model, apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY };
+        case 'openai':
+            return {
+                provider: requested,
+                model,
+                apiKey: process.env.OPENAI_API_KEY,
+                baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+            };
+        case 'mock':
+            return { provider: requested, model };
+        case 'proxy':
+            return { provider: requested, model, baseUrl: process.env.LLM_PROXY_URL || DEFAULT_PROXY_URL };
+    }
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+    switch (config.provider) {
+        case 'gemini': return createGeminiProvider(config);
+        case 'openai': return createOpenAiCompatibleProvider(config);
+        case 'mock': return createMockProvider(config);
+        case 'proxy': return createProxyProvider(config);
+    }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/** Returns the configured provider, creating it on first use. */
+export const getProvider = (): LLMProvider => {
+    if (!activeProvider) {
+        activeProvider = createProvider(getProviderConfig());
+    }
+    return activeProvider;
+};
+
+/** Replaces the active provider, e.g. to inject a mock from a script. */
+export const setProvider = (provider: LLMProvider | null): void => {
+    activeProvider = provider;
+};
+
+export type { GenerateRequest, LLMOperation, LLMProvider, PromptPart, ProviderConfig, ProviderId } from './types';
+export { ProviderError, StreamInterruptedError, OperationCancelledError, throwIfCancelled } from './types';
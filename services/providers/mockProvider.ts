@@ -0,0 +1,31 @@
+// services/providers/mockProvider.ts
+
+import type { GenerateRequest, LLMProvider, ProviderConfig } from './types';
+import { throwIfCancelled } from './types';
+import { MOCK_FIXTURES } from './mockFixtures';
+
+const STREAM_CHUNK_SIZE = 80;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+/**
+ * Creates an offline provider that answers every request from MOCK_FIXTURES.
+ * Responses depend only on the request, so runs are fully reproducible.
+ */
+export const createMockProvider = (config: ProviderConfig): LLMProvider => {
+    const generateContent = async (request: GenerateRequest): Promise<string> => {
+        throwIfCancelled(request.signal);
+        return MOCK_FIXTURES[request.operation](request);
+    };
+
+    // Replays the fixture in fixed-size chunks so streaming UIs can be exercised offline.
+    async function* generateContentStream(request: GenerateRequest): AsyncGenerator<string> {
+        const text = await generateContent(request);
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+            throwIfCancelled(request.signal);
+            yield text.slice(i, i + STREAM_CHUNK_SIZE);
+        }
+    }
+
+    return { id: 'mock', name: 'Mock provider', model: config.model, generateContent, generateContentStream };
+};
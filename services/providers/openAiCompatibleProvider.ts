@@ -0,0 +1,125 @@
+// services/providers/openAiCompatibleProvider.ts
+
+import type { GenerateRequest, LLMProvider, ProviderConfig } from './types';
+import { ProviderError } from './types';
+
+type ChatContent =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * Converts the Gemini-style schemas in constants.tsx (`type: 'OBJECT'`) into plain
+ * JSON Schema (`type: 'object'`), which OpenAI-compatible servers expect.
+ */
+const toJsonSchema = (schema: unknown): unknown => {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const converted: Record<string, unknown> = {};
+    Object.entries(schema as Record<string, unknown>).forEach(([key, value]) => {
+        if (key === 'propertyOrdering') return; // Gemini-only extension
+        converted[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+    });
+    return converted;
+};
+
+const toChatContent = (request: GenerateRequest): ChatContent[] =>
+    request.parts.map(part => 'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+    );
+
+/**
+ * Creates a provider for any server implementing the OpenAI chat completions API
+ * (OpenAI, Ollama, llama.cpp, vLLM, LM Studio...).
+ * @param config The resolved provider configuration. `baseUrl` should include the `/v1` suffix.
+ */
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): LLMProvider => {
+    const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+    if (!baseUrl) {
+        throw new ProviderError("OPENAI_BASE_URL is not set for the OpenAI-compatible provider.");
+    }
+
+    const buildBody = (request: GenerateRequest, stream: boolean): Record<string, unknown> => {
+        const messages: Array<{ role: string; content: string | ChatContent[] }> = [];
+        if (request.systemInstruction) {
+            messages.push({ role: 'system', content: request.systemInstruction });
+        }
+        messages.push({ role: 'user', content: toChatContent(request) });
+
+        const body: Record<string, unknown> = {
+            model: request.model || config.model,
+            messages,
+            temperature: request.temperature,
+            stream,
+        };
+        if (request.responseSchema) {
+            body.response_format = {
+                type: 'json_schema',
+                json_schema: { name: request.operation, schema: toJsonSchema(request.responseSchema) },
+            };
+        }
+        return body;
+    };
+
+    const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+                },
+                body: JSON.stringify(body),
+                signal,
+            });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            throw new ProviderError(`Could not reach ${baseUrl}. ${error instanceof Error ? error.message : ''}`);
+        }
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new ProviderError(`Request failed with status ${response.status}. ${detail}`, response.status);
+        }
+        return response;
+    };
+
+    const generateContent = async (request: GenerateRequest): Promise<string> => {
+        const response = await post(buildBody(request, false), request.signal);
+        const result = await response.json();
+        const content = result?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new ProviderError('Response did not contain any message content.');
+        }
+        return content;
+    };
+
+    // Reads the server-sent events stream: one `data: {json}` line per delta, ending with `data: [DONE]`.
+    async function* generateContentStream(request: GenerateRequest): AsyncGenerator<string> {
+        const response = await post(buildBody(request, true), request.signal);
+        if (!response.body) {
+            throw new ProviderError('Streaming is not supported by this server.');
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const data = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !data) continue;
+                if (data === '[DONE]') return;
+                const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+                if (typeof delta === 'string' && delta) yield delta;
+            }
+        }
+    }
+
+    return { id: 'openai', name: 'OpenAI-compatible API', model: config.model, generateContent, generateContentStream };
+};
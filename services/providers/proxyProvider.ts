@@ -0,0 +1,81 @@
+// services/providers/proxyProvider.ts
+
+import type { GenerateRequest, LLMProvider, ProviderConfig } from './types';
+import { ProviderError } from './types';
+
+/**
+ * Creates a provider that forwards every request to the backend proxy (server/), which holds
+ * the API key and calls the real provider. Error statuses are passed through, so rate limits
+ * (429) are retried like any other provider's.
+ * @param config The resolved provider configuration. `baseUrl` is the proxy's API root, e.g. `/api`.
+ */
+export const createProxyProvider = (config: ProviderConfig): LLMProvider => {
+    const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+    if (!baseUrl) {
+        throw new ProviderError("LLM_PROXY_URL is not set for the proxy provider.");
+    }
+
+    // The model is chosen by the server unless the request overrides it (e.g. consensus drafts).
+    const toBody = (request: GenerateRequest) => JSON.stringify({
+        parts: request.parts,
+        systemInstruction: request.systemInstruction,
+        responseSchema: request.responseSchema,
+        temperature: request.temperature,
+        model: request.model,
+    });
+
+    const post = async (path: string, request: GenerateRequest): Promise<Response> => {
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/llm/${request.operation}${path}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: toBody(request),
+                signal: request.signal,
+            });
+        } catch (error) {
+            if (request.signal?.aborted) throw error;
+            throw new ProviderError(`Could not reach the backend proxy at ${baseUrl}. ${error instanceof Error ? error.message : ''}`);
+        }
+
+        if (!response.ok) {
+            const detail = await response.json().catch(() => null);
+            throw new ProviderError(detail?.error || `The backend proxy responded with status ${response.status}.`, response.status);
+        }
+        return response;
+    };
+
+    const generateContent = async (request: GenerateRequest): Promise<string> => {
+        const result = await (await post('', request)).json();
+        if (typeof result?.text !== 'string') {
+            throw new ProviderError('The backend proxy returned no text.');
+        }
+        return result.text;
+    };
+
+    // The stream is newline-delimited JSON: `{"text": "..."}` per chunk, or a final `{"error": "...", "status": 503}`.
+    async function* generateContentStream(request: GenerateRequest): AsyncGenerator<string> {
+        const response = await post('/stream', request);
+        if (!response.body) {
+            throw new ProviderError('Streaming is not supported by this browser.');
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                if (!line.trim()) continue;
+                const message = JSON.parse(line);
+                if (typeof message.error === 'string') throw new ProviderError(message.error, message.status);
+                if (typeof message.text === 'string' && message.text) yield message.text;
+            }
+        }
+    }
+
+    return { id: 'proxy', name: 'Backend proxy', model: config.model, generateContent, generateContentStream };
+};
@@ -0,0 +1,93 @@
+// services/providers/types.ts
+
+export type ProviderId = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+/**
+ * The service operation a request belongs to. Providers that don't talk to a real
+ * model (e.g. the mock provider) use it to pick a response.
+ */
+export type LLMOperation =
+    | 'analyze'
+    | 'testPlan'
+    | 'consolidate'
+    | 'prioritize'
+    | 'qaDocs'
+    | 'enhancePrd';
+
+export type PromptPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface GenerateRequest {
+    operation: LLMOperation;
+    parts: PromptPart[];
+    systemInstruction?: string;
+    /** When set, the provider must return JSON matching this (Gemini-style) schema. */
+    responseSchema?: object;
+    temperature: number;
+    /** Overrides the configured model for this request only. */
+    model?: string;
+    /** Aborts the request when signalled. Providers reject with the abort reason or their own error. */
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    id: ProviderId;
+    /** Human-readable name used in error messages. */
+    name: string;
+    model: string;
+    generateContent(request: GenerateRequest): Promise<string>;
+    /** Same as generateContent, but yields the response text in chunks as it arrives. */
+    generateContentStream(request: GenerateRequest): AsyncGenerator<string>;
+}
+
+export interface ProviderConfig {
+    provider: ProviderId;
+    model: string;
+    apiKey?: string;
+    baseUrl?: string;
+}
+
+/**
+ * Error raised by a provider. `status` carries the HTTP status code when the failure
+ * came from the remote API.
+ */
+export class ProviderError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = status;
+    }
+}
+
+/**
+ * A streamed response failed after part of it had arrived. `partialText` holds everything
+ * received before the failure.
+ */
+export class StreamInterruptedError extends Error {
+    partialText: string;
+
+    constructor(message: string, partialText: string) {
+        super(message);
+        this.name = 'StreamInterruptedError';
+        this.partialText = partialText;
+    }
+}
+
+/**
+ * The caller aborted the operation. Services rethrow it unchanged so the UI can tell a
+ * cancellation apart from a failure.
+ */
+export class OperationCancelledError extends Error {
+    constructor(message = 'The operation was cancelled.') {
+        super(message);
+        this.name = 'OperationCancelledError';
+    }
+}
+
+/** Throws an OperationCancelledError if `signal` has already been aborted. */
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+    if (signal?.aborted) throw new OperationCancelledError();
+};
@@ -0,0 +1,121 @@
+// services/responseCache.ts
+
+import type { GenerateRequest, LLMOperation, LLMProvider } from './providers';
+
+const DB_NAME = 'qa-plan-response-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+interface CachedResponse {
+    key: string;
+    operation: LLMOperation;
+    model: string;
+    text: string;
+    bytes: number;
+    createdAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+    byOperation: Partial<Record<LLMOperation, number>>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again instead of caching the failure.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Hashes everything that determines a response: provider, model, prompt parts, system
+ * instruction, schema and temperature.
+ * @returns A hex SHA-256 digest, or null when IndexedDB or Web Crypto is unavailable (e.g. in Node),
+ *   in which case caching is skipped.
+ */
+export const hashRequest = async (provider: LLMProvider, request: GenerateRequest): Promise<string | null> => {
+    if (typeof indexedDB === 'undefined' || !globalThis.crypto?.subtle) return null;
+    const payload = JSON.stringify({
+        provider: provider.id,
+        model: request.model || provider.model,
+        parts: request.parts,
+        systemInstruction: request.systemInstruction ?? null,
+        responseSchema: request.responseSchema ?? null,
+        temperature: request.temperature,
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Looks up a cached response. Storage failures are logged and treated as a miss so the
+ * cache can never break a model call.
+ */
+export const getCachedResponse = async (key: string): Promise<string | undefined> => {
+    try {
+        const entry = await runTransaction<CachedResponse | undefined>('readonly', store => store.get(key));
+        return entry?.text;
+    } catch (error) {
+        console.warn('Response cache lookup failed:', error);
+        return undefined;
+    }
+};
+
+export const putCachedResponse = async (key: string, request: GenerateRequest, model: string, text: string): Promise<void> => {
+    const entry: CachedResponse = {
+        key,
+        operation: request.operation,
+        model,
+        text,
+        bytes: new TextEncoder().encode(text).length,
+        createdAt: Date.now(),
+    };
+    try {
+        await runTransaction('readwrite', store => store.put(entry));
+    } catch (error) {
+        console.warn('Response cache write failed:', error);
+    }
+};
+
+/** Counts the cached responses and the bytes of response text they hold. */
+export const getCacheStats = async (): Promise<CacheStats> => {
+    const entries = await runTransaction<CachedResponse[]>('readonly', store => store.getAll());
+    const byOperation: CacheStats['byOperation'] = {};
+    entries.forEach(entry => {
+        byOperation[entry.operation] = (byOperation[entry.operation] || 0) + 1;
+    });
+    return {
+        entries: entries.length,
+        bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+        byOperation,
+    };
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+    await runTransaction('readwrite', store => store.clear());
+};
@@ -1,15 +1,61 @@
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// Findings start out pending; only accepted ones are used for test generation and PRD enhancement.
+export type FindingStatus = 'pending' | 'accepted' | 'dismissed';
+
+// 'analysis' findings come from the model, 'rule' ones from the local PRD linter, 'manual' ones from the user.
+export type FindingSource = 'analysis' | 'rule' | 'manual';
+
+export type PrdLintRuleId =
+  | 'missing-acceptance-criteria'
+  | 'unknown-story-reference'
+  | 'vague-term'
+  | 'unquantified-nfr'
+  | 'missing-error-state'
+  | 'duplicate-id';
+
+export interface PrdLintOptions {
+  rules: PrdLintRuleId[]; // The enabled rules
+  vagueTerms: string[]; // Words and phrases the vague-term rule flags, matched case-insensitively
+}
+
 export interface AnalysisFinding {
+  id?: string; // "F1"…, assigned when the analysis is parsed; manual findings take the next free number
   category: string;
   description: string;
   source_story_id?: string;
+  region_id?: string; // The annotated region (e.g. "R2") the finding is about
+  severity?: FindingSeverity;
+  confidence?: number; // The model's confidence that the finding is real, from 0 to 1; absent for rule and manual findings
+  status?: FindingStatus; // Absent means pending
+  dismissReason?: string;
+  originalDescription?: string; // The generated wording, kept once the user edits the description
+  source?: FindingSource; // Absent means 'analysis'
+  ruleId?: PrdLintRuleId; // The lint rule that raised a 'rule' finding
 }
 
 export interface Analysis {
   findings: AnalysisFinding[];
+  templateVersions?: TemplateVersionRef[]; // Set by the service, not part of the model response
+}
+
+export type PromptTemplateId = 'analysis' | 'testPlan' | 'consolidate' | 'prioritization' | 'qaDocs' | 'enhancePrd';
+
+// Identifies the prompt template version an artifact was generated with. Version 0 is the built-in default.
+export interface TemplateVersionRef {
+  templateId: PromptTemplateId;
+  version: number;
+}
+
+// A document produced by a single model call (QA docs, enhanced PRD).
+export interface GeneratedDocument {
+  text: string;
+  templateVersions: TemplateVersionRef[];
 }
 
 export interface TestPlan {
-  markdown: string;
+  test_cases?: unknown[]; // Structured cases per TEST_PLAN_RESPONSE_SCHEMA; validated before use
+  markdown?: string; // Legacy/fallback Markdown table, parsed only when test_cases is absent
   gherkin: string;
 }
 
@@ -18,6 +64,7 @@ export enum Step {
   ANALYSIS_COMPLETE,
   ENHANCE_PRD,
   GENERATING_PLAN,
+  CONSOLIDATING_PLAN,
   PRIORITIZING_PLAN,
   GENERATING_TRACEABILITY,
   PLAN_GENERATED,
@@ -36,6 +83,16 @@ export interface TestCase {
     risk: string;
     priority: string;
     priority_reasoning: string;
+    regionId?: string; // The annotated region (e.g. "R2") the test case exercises
+}
+
+export type GeneratedTestCase = Omit<TestCase, 'priority' | 'priority_reasoning'>;
+
+// A generated test case that could not be used, and why.
+export interface TestCaseParseIssue {
+    row: number; // 1-based position in the response; 0 for problems with the response as a whole
+    reason: string;
+    content: string;
 }
 
 export interface FileData {
@@ -47,12 +104,214 @@ export interface FileData {
     isProcessing: boolean;
     error?: string | null;
     frames?: string[]; // For base64 video frames
+    frameTimes?: number[]; // Seconds into the video for each entry in `frames`
+    downscaled?: boolean; // Set once the image / frames have been re-encoded at a smaller size
+    // Images go through utils/imagePipeline.ts on upload
+    originalDataUrl?: string; // The image as uploaded, kept so it can be cropped or processed again
+    originalSize?: number; // Bytes before preprocessing
+    thumbnailUrl?: string;
+    crop?: CropRect;
+    segments?: string[]; // Parts of a very tall screenshot, top to bottom; sent instead of dataUrl (which holds the first)
+    annotations?: ImageAnnotation[]; // Drawn into the image (or keyframes) that is sent, and described in the prompt
+    originalFrames?: string[]; // Video keyframes without annotations, kept once annotations are drawn on `frames`
+}
+
+export type AnnotationShape = 'box' | 'arrow';
+
+// A region marked on an image or video keyframe. Coordinates are fractions (0-1) of the original image.
+export interface ImageAnnotation {
+    id: string; // "R1", "R2", ...; unique across the uploads so findings and test cases can refer to it
+    shape: AnnotationShape;
+    x1: number; // Box: one corner. Arrow: the tail
+    y1: number;
+    x2: number; // Box: the opposite corner. Arrow: the head, at the element it points to
+    y2: number;
+    note: string;
+    storyId?: string;
+    frameIndex?: number; // Videos: the keyframe it is drawn on
+}
+
+// A crop area as fractions (0-1) of the original image's width and height.
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type ImageOutputFormat = 'image/jpeg' | 'image/webp';
+
+export interface ImagePreprocessOptions {
+    maxDimension: number; // Longest edge in pixels; 0 keeps the original size
+    format: ImageOutputFormat;
+    quality: number; // 0-1
+    splitAspectRatio: number; // Images taller than this many times their width are split into parts; 0 never splits
+}
+
+// A .docx/.pdf/.md/.txt file whose text is being reviewed before it is added to the PRD
+export interface ImportedDocument {
+    id: string;
+    name: string;
+    size: number;
+    text: string; // Extracted markdown
+    isProcessing: boolean;
+    error?: string | null;
+}
+
+export type TicketSource = 'jira' | 'linear' | 'azureDevOps' | 'generic';
+
+// An issue tracker export (Jira CSV/XML, Linear CSV, Azure DevOps CSV) read as a table
+export interface TicketTable {
+    fileName: string;
+    source: TicketSource;
+    headers: string[];
+    rows: string[][];
+}
+
+// Which export columns hold each story field; column indexes, -1 when not mapped
+export interface TicketMapping {
+    key: number;
+    title: number;
+    description: number;
+    acceptanceCriteria: number;
+    type: number;
+    parent: number;
+    extraFields: number[]; // Further columns copied into each story as "Name: value" lines
+    idPrefix: string; // Turns numeric IDs (Azure DevOps) into story IDs, e.g. 1234 → ADO-1234
+    excludedTypes: string[]; // Issue types that are not imported, e.g. "Epic"
+}
+
+// Pre-flight warning limits for the inputs sent with each request.
+export interface PayloadThresholds {
+    maxTokens: number;
+    maxBytes: number;
+}
+
+// Adaptive video keyframe extraction (see utils/sceneDetection.ts).
+export interface VideoFrameOptions {
+    minFrames: number;
+    maxFrames: number;
+    maxDimension: number; // Longest edge of the extracted frames, in pixels
+    sceneThreshold: number; // Mean per-pixel difference (0-1) that counts as a new scene
+}
+
+// A user story or acceptance criterion detected in the PRD by utils/requirementParser.ts.
+export interface Requirement {
+    id: string;
+    kind: 'story' | 'acceptanceCriterion';
+    title: string; // The item's first line without its ID
+    text: string; // The item's full text, including continuation lines
+    parentId?: string; // The story an acceptance criterion belongs to, when it could be determined
+    startLine: number; // 1-based and inclusive, in the PRD text
+    endLine: number;
+    inferredId?: boolean; // The PRD gave the criterion no ID, so one was derived from its story or line
+}
+
+export type RequirementSourceFormat = 'list' | 'heading' | 'table';
+
+export interface RequirementModel {
+    requirements: Requirement[]; // In PRD order
+    formats: RequirementSourceFormat[]; // The layouts the requirements were found in
+}
+
+// An interactive layer in a Figma frame, e.g. a button or text field.
+export interface FigmaElement {
+    id: string;
+    label: string; // Its visible text, or the layer name when it has none
+    kind: string; // 'button', 'input', 'checkbox', ... or 'hotspot' for other layers with prototype interactions
+    component?: string; // The component it is an instance of
+}
+
+export interface FigmaPrototypeLink {
+    fromLabel: string; // The element (or frame) the interaction starts on
+    trigger: string; // e.g. 'on click'
+    destination: string; // The destination frame's name, "Back" or a URL
+}
+
+// A top-level frame, i.e. one screen of the design.
+export interface FigmaFrame {
+    id: string;
+    name: string;
+    page: string;
+    components: string[]; // Distinct component names used in the frame
+    textLayers: string[]; // Visible text, in layer order
+    interactiveElements: FigmaElement[];
+    links: FigmaPrototypeLink[];
+}
+
+// Parsed locally from a Figma REST API file export
+export interface FigmaDesign {
+    fileName: string; // The uploaded file
+    documentName: string; // The Figma file's own name
+    frames: FigmaFrame[];
+}
+
+// Schemas are summarized as one line, e.g. `{ id: integer int64 (required), name: string [maxLength 50] }`
+export interface ApiParameter {
+    name: string;
+    location: string; // path, query, header or cookie
+    required: boolean;
+    schema: string;
+    description?: string;
+}
+
+export interface ApiResponse {
+    status: string; // e.g. "200", "4XX" or "default"
+    description: string;
+    schema?: string;
+}
+
+export interface ApiOperation {
+    operationId: string; // Used as the story ID of the operation's findings and test cases
+    operationIdGenerated?: boolean; // The spec has none; derived from the method and path
+    method: string; // Uppercase
+    path: string;
+    summary: string;
+    tags: string[];
+    parameters: ApiParameter[];
+    requestBody?: { contentTypes: string[]; required: boolean; schema: string };
+    responses: ApiResponse[];
+    security: string[]; // Accepted alternatives, e.g. "bearerAuth" or "oauth2 (read:pets)"; empty when public
+    deprecated?: boolean;
+}
+
+export interface ApiSpec {
+    fileName: string;
+    title: string;
+    version: string;
+    format: string; // "OpenAPI 3.0.3" or "Swagger 2.0"
+    servers: string[];
+    securitySchemes: Array<{ name: string; description: string }>;
+    operations: ApiOperation[];
+    schemas: Array<{ name: string; schema: string }>;
+}
+
+// One feature of a project (e.g. one of a release's features), with its own PRD, attachments and design links
+export interface ProjectFeature {
+    id: string;
+    name: string;
+    prdText: string;
+    files: FileData[];
+    figmaUrl: string;
+    figmaDesign?: FigmaDesign | null;
+    apiSpec?: ApiSpec | null;
+}
+
+// The part of combined inputs that came from one feature (see utils/projectModel.ts)
+export interface FeatureScope {
+    id: string;
+    name: string;
+    storyIds: string[]; // The stories in its PRD section and its API operationIds; criterion IDs repeat across features
 }
 
 export interface InputData {
     prdText: string;
     files: FileData[];
     figmaUrl: string;
+    figmaDesign?: FigmaDesign | null;
+    apiSpec?: ApiSpec | null;
+    requirements: RequirementModel; // Parsed from prdText when the inputs are submitted
+    features?: FeatureScope[]; // Set when the inputs combine several features; results are grouped by them
 }
 
 export interface TraceabilityEntry {
@@ -60,6 +319,82 @@ export interface TraceabilityEntry {
     test_case_ids: string[];
 }
 
+export interface UnknownStoryReference {
+    test_case_id: string;
+    story_id: string; // The referenced ID, or the raw Story ID cell when it contains no ID at all
+}
+
 export interface TraceabilityMatrix {
     matrix: TraceabilityEntry[];
+    uncovered_story_ids: string[]; // Known stories with zero covering test cases
+    unknown_story_references: UnknownStoryReference[]; // Test cases pointing at stories not found in the PRD or findings
+}
+
+export interface ConsensusDraftConfig {
+    temperature: number;
+    model?: string; // Defaults to the configured provider model
+}
+
+export interface ChunkingOptions {
+    storiesPerChunk: number;
+    concurrency: number; // Maximum chunks generated at the same time
+}
+
+// Per-run options accepted by every service function.
+export interface RequestOptions {
+    // Aborts every remaining model call; the call then rejects with an OperationCancelledError.
+    signal?: AbortSignal;
+    // Ignores cached responses for this run (fresh responses still refresh the cache).
+    bypassCache?: boolean;
+}
+
+export interface AnalysisOptions extends RequestOptions {
+    // The PRD lint rules whose findings are added to the model's; defaults to getPrdLintOptions().
+    lint?: PrdLintOptions;
+}
+
+export interface GenerationOptions extends RequestOptions {
+    // When set, several drafts are generated in parallel and merged by the consolidation step.
+    consensus?: {
+        drafts: ConsensusDraftConfig[];
+    };
+    // When set, the PRD is split into user-story chunks that are generated separately and merged.
+    chunking?: ChunkingOptions;
+    // Output of a failed run; stages already in the checkpoint are skipped.
+    resumeFrom?: PlanCheckpoint;
+    // When set, the plan is streamed and this receives every complete test case parsed so far.
+    onPartialTestCases?: (testCases: GeneratedTestCase[]) => void;
+}
+
+export type PipelineStage = 'generate' | 'parse' | 'prioritize' | 'traceability';
+
+// A stage that fell back to a default instead of failing the run.
+export interface PipelineWarning {
+    stage: PipelineStage;
+    message: string;
+}
+
+// Output of each completed stage of generateFullTestPlan, so a failed run can resume.
+export interface PlanCheckpoint {
+    plan?: TestPlan;
+    testCases?: GeneratedTestCase[];
+    parseIssues?: TestCaseParseIssue[];
+    prioritizedTestCases?: TestCase[];
+    warnings: PipelineWarning[];
+    templateVersions?: TemplateVersionRef[];
+}
+
+export interface TestPlanResult {
+    testCases: TestCase[];
+    gherkin: string;
+    traceabilityMatrix: TraceabilityMatrix;
+    parseIssues: TestCaseParseIssue[];
+    warnings: PipelineWarning[];
+    templateVersions: TemplateVersionRef[];
+}
+
+export interface ProgressDetail {
+    label: string; // What is being counted, e.g. 'Drafts' or 'Chunks'
+    completed: number;
+    total: number;
 }
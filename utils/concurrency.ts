@@ -0,0 +1,29 @@
+// utils/concurrency.ts
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight, like Promise.allSettled.
+ * @param items The inputs, processed in order.
+ * @param limit The maximum number of concurrent calls.
+ * @param fn The async operation to run per item.
+ * @returns One settled result per item, in input order.
+ */
+export const mapSettledWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
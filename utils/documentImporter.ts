@@ -0,0 +1,356 @@
+// utils/documentImporter.ts
+
+import JSZip from 'jszip';
+
+/** File extensions that can be imported as PRD text. */
+export const DOCUMENT_EXTENSIONS = ['.docx', '.pdf', '.md', '.markdown', '.txt'];
+
+const getExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+export const isImportableDocument = (fileName: string): boolean => DOCUMENT_EXTENSIONS.includes(getExtension(fileName));
+
+// --- DOCX ---
+
+/** Decodes the XML character entities and references in `text`. */
+export const decodeXml = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, '&');
+
+const getAttribute = (attributes: string, name: string): string | undefined =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+/**
+ * Maps paragraph style IDs to markdown heading levels. "Title" is level 0 so that documents using
+ * it (including our own enhanced PRD export) keep "Title" as `#` and "Heading 1" as `##`.
+ */
+const readHeadingStyles = (stylesXml: string): Map<string, number> => {
+  const levels = new Map<string, number>();
+  for (const match of stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const styleId = getAttribute(match[1], 'w:styleId');
+    const name = match[2].match(/<w:name w:val="([^"]*)"/)?.[1] || styleId || '';
+    if (!styleId) continue;
+    const heading = name.match(/^heading\s*(\d)$/i);
+    if (heading) levels.set(styleId, Number(heading[1]));
+    else if (/^title$/i.test(name)) levels.set(styleId, 0);
+  }
+  return levels;
+};
+
+interface DocxParagraph {
+  styleId?: string;
+  outlineLevel?: number;
+  listLevel?: number;
+  text: string;
+}
+
+type DocxBlock = { kind: 'heading'; level: number; text: string } | { kind: 'listItem'; level: number; text: string } | { kind: 'text'; text: string };
+
+const escapeTableCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+
+const renderTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map(row => row.length));
+  const padded = rows.map(row => [...row, ...Array(width - row.length).fill('')]);
+  const toLine = (cells: string[]) => `| ${cells.map(escapeTableCell).join(' | ')} |`;
+  return [toLine(padded[0]), toLine(padded[0].map(() => '---')), ...padded.slice(1).map(toLine)].join('\n');
+};
+
+/**
+ * Converts the body of word/document.xml to markdown: headings by paragraph style (or outline
+ * level), numbered and bulleted paragraphs as nested `-` items, and tables as markdown tables.
+ */
+const convertDocumentXml = (documentXml: string, headingStyles: Map<string, number>): string => {
+  const hasTitle = Array.from(documentXml.matchAll(/<w:pStyle w:val="([^"]*)"/g)).some(m => headingStyles.get(m[1]) === 0);
+  const blocks: DocxBlock[] = [];
+  // Each open table holds its rows; each row holds its cells; each cell holds its paragraph texts.
+  const tables: { rows: string[][]; row: string[]; cell: string[] }[] = [];
+  let paragraph: DocxParagraph | null = null;
+  let inText = false;
+
+  const finishParagraph = () => {
+    if (!paragraph) return;
+    const text = paragraph.text.trim();
+    const { styleId, outlineLevel, listLevel } = paragraph;
+    paragraph = null;
+    if (!text) return;
+
+    const table = tables[tables.length - 1];
+    if (table) {
+      table.cell.push(listLevel !== undefined ? `- ${text}` : text);
+      return;
+    }
+    const styleLevel = styleId !== undefined ? headingStyles.get(styleId) : undefined;
+    let headingLevel: number | undefined;
+    if (styleLevel !== undefined) headingLevel = styleLevel + (hasTitle ? 1 : 0);
+    else if (outlineLevel !== undefined) headingLevel = outlineLevel + 1;
+    if (headingLevel !== undefined) {
+      blocks.push({ kind: 'heading', level: Math.min(headingLevel, 6), text });
+    } else if (listLevel !== undefined) {
+      blocks.push({ kind: 'listItem', level: listLevel, text });
+    } else {
+      blocks.push({ kind: 'text', text });
+    }
+  };
+
+  for (const match of documentXml.matchAll(/<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+    const [, closing, tag, attributes, selfClosing, text] = match;
+    if (text !== undefined) {
+      if (inText && paragraph) paragraph.text += decodeXml(text);
+      continue;
+    }
+    const isOpen = !closing;
+    switch (tag) {
+      case 'w:p':
+        if (isOpen) {
+          finishParagraph();
+          paragraph = { text: '' };
+          if (selfClosing) finishParagraph();
+        } else {
+          finishParagraph();
+        }
+        break;
+      case 'w:pStyle':
+        if (paragraph) paragraph.styleId = getAttribute(attributes, 'w:val');
+        break;
+      case 'w:outlineLvl':
+        if (paragraph) paragraph.outlineLevel = Number(getAttribute(attributes, 'w:val'));
+        break;
+      case 'w:numPr':
+        if (paragraph && isOpen) paragraph.listLevel ??= 0;
+        break;
+      case 'w:ilvl':
+        if (paragraph) paragraph.listLevel = Number(getAttribute(attributes, 'w:val')) || 0;
+        break;
+      case 'w:t':
+        inText = isOpen && !selfClosing;
+        break;
+      case 'w:tab':
+        if (paragraph && isOpen) paragraph.text += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        if (paragraph && isOpen) paragraph.text += '\n';
+        break;
+      case 'w:tbl':
+        if (isOpen) {
+          finishParagraph();
+          tables.push({ rows: [], row: [], cell: [] });
+        } else {
+          const table = tables.pop();
+          if (!table || table.rows.length === 0) break;
+          const outer = tables[tables.length - 1];
+          // Nested tables are flattened into the enclosing cell, one row per line.
+          if (outer) outer.cell.push(...table.rows.map(row => row.join(' / ')));
+          else blocks.push({ kind: 'text', text: renderTable(table.rows) });
+        }
+        break;
+      case 'w:tr':
+        if (tables.length > 0) {
+          const table = tables[tables.length - 1];
+          if (isOpen) table.row = [];
+          else table.rows.push(table.row);
+        }
+        break;
+      case 'w:tc':
+        if (tables.length > 0) {
+          const table = tables[tables.length - 1];
+          if (isOpen) {
+            table.cell = [];
+          } else {
+            finishParagraph();
+            table.row.push(table.cell.join('\n'));
+          }
+        }
+        break;
+    }
+  }
+  finishParagraph();
+
+  return blocks
+    .map((block, i) => {
+      const previous = blocks[i - 1];
+      // Consecutive list items stay together; everything else is separated by a blank line.
+      const separator = i === 0 ? '' : block.kind === 'listItem' && previous?.kind === 'listItem' ? '\n' : '\n\n';
+      switch (block.kind) {
+        case 'heading': return `${separator}${'#'.repeat(block.level)} ${block.text}`;
+        case 'listItem': return `${separator}${'  '.repeat(block.level)}- ${block.text}`;
+        case 'text': return `${separator}${block.text}`;
+      }
+    })
+    .join('');
+};
+
+const extractDocxText = async (data: ArrayBuffer): Promise<string> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('The file is not a valid .docx document. Older .doc files need to be saved as .docx first.');
+  }
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('The file is not a Word document (word/document.xml is missing).');
+  }
+  const stylesXml = (await zip.file('word/styles.xml')?.async('string')) || '';
+  return convertDocumentXml(documentXml, readHeadingStyles(stylesXml));
+};
+
+// --- PDF ---
+
+interface PdfLine {
+  text: string;
+  fontSize: number;
+  x: number;
+  y: number;
+}
+
+const BULLET_PATTERN = /^[•●▪◦‣·∙]\s*/;
+
+/** Rounds font sizes so that lines drawn at the same size compare equal despite float noise. */
+const roundSize = (size: number) => Math.round(size * 2) / 2;
+
+/**
+ * Turns positioned text lines into markdown. PDFs have no structure, so headings are inferred
+ * from font size: the most common size is body text and each larger size is a heading level.
+ */
+const pdfLinesToMarkdown = (pages: PdfLine[][]): string => {
+  const weights = new Map<number, number>();
+  pages.flat().forEach(line => weights.set(line.fontSize, (weights.get(line.fontSize) || 0) + line.text.length));
+  const bodySize = Array.from(weights.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+  const headingSizes = Array.from(weights.keys()).filter(size => size > bodySize * 1.1).sort((a, b) => b - a);
+
+  const output: string[] = [];
+  pages.forEach(lines => {
+    const left = Math.min(...lines.map(line => line.x));
+    lines.forEach((line, i) => {
+      const previous = lines[i - 1];
+      const headingLevel = headingSizes.indexOf(line.fontSize) + 1;
+      const isHeading = headingLevel > 0 && line.text.length <= 120;
+      const isBullet = BULLET_PATTERN.test(line.text);
+      // A gap noticeably taller than one line starts a new paragraph.
+      const gap = previous ? previous.y - line.y : Infinity;
+      const startsBlock = isHeading || !previous || gap > Math.max(line.fontSize, previous.fontSize) * 1.8 || headingSizes.includes(previous.fontSize);
+      if (startsBlock && output.length > 0 && !(isBullet && BULLET_PATTERN.test(previous?.text || ''))) output.push('');
+      if (isHeading) {
+        output.push(`${'#'.repeat(Math.min(headingLevel, 6))} ${line.text}`);
+      } else if (isBullet || /^-\s/.test(line.text)) {
+        // Items indented by an em or more are nested, e.g. the Given/When/Then steps in our own export.
+        const indent = line.x - left >= line.fontSize ? '  ' : '';
+        output.push(`${indent}- ${line.text.replace(BULLET_PATTERN, '').replace(/^-\s+/, '')}`);
+      } else {
+        output.push(line.text);
+      }
+    });
+    output.push('');
+  });
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  // The legacy build also runs on Node 20, which the CLI and eval harness use.
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  if (typeof window !== 'undefined' && !pdfjs.GlobalWorkerOptions.workerSrc) {
+    const { default: workerSrc } = await import('pdfjs-dist/legacy/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  }
+
+  let pdf: Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>;
+  try {
+    // Only text is needed, so missing standard font data is not worth a console warning.
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false, verbosity: pdfjs.VerbosityLevel.ERRORS }).promise;
+  } catch (error) {
+    throw new Error(`The PDF could not be opened: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const pages: PdfLine[][] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items
+        .filter((item): item is Extract<typeof item, { str: string }> => 'str' in item && item.str.length > 0)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          fontSize: roundSize(Math.hypot(item.transform[2], item.transform[3]) || item.height),
+        }));
+
+      // Group items whose baselines are within a couple of points into one line, top to bottom.
+      const rows: (typeof items)[] = [];
+      items
+        .sort((a, b) => b.y - a.y || a.x - b.x)
+        .forEach(item => {
+          const row = rows.find(r => Math.abs(r[0].y - item.y) <= Math.max(2, item.fontSize * 0.3));
+          if (row) row.push(item);
+          else rows.push([item]);
+        });
+
+      pages.push(rows.map(row => {
+        row.sort((a, b) => a.x - b.x);
+        let text = '';
+        row.forEach((item, i) => {
+          const previous = row[i - 1];
+          const gap = previous ? item.x - (previous.x + previous.width) : 0;
+          if (previous && gap > item.fontSize * 0.2 && !/\s$/.test(text) && !/^\s/.test(item.text)) text += ' ';
+          text += item.text;
+        });
+        return { text: text.trim(), fontSize: Math.max(...row.map(item => item.fontSize)), x: row[0].x, y: row[0].y };
+      }).filter(line => line.text));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pdfLinesToMarkdown(pages);
+};
+
+// --- Public API ---
+
+/**
+ * Extracts the text of a PRD document as markdown, keeping headings, lists and tables.
+ * @param fileName Used to pick the format by extension.
+ * @param data The file contents.
+ * @returns The markdown text; throws when the format is unsupported or the file cannot be read.
+ */
+export const extractDocumentText = async (fileName: string, data: ArrayBuffer): Promise<string> => {
+  const extension = getExtension(fileName);
+  let text: string;
+  switch (extension) {
+    case '.docx':
+      text = await extractDocxText(data);
+      break;
+    case '.pdf':
+      text = await extractPdfText(data);
+      break;
+    case '.md':
+    case '.markdown':
+    case '.txt':
+      text = new TextDecoder('utf-8').decode(data).replace(/^﻿/, '').replace(/\r\n?/g, '\n');
+      break;
+    default:
+      throw new Error(`"${fileName}" is not a supported document (${DOCUMENT_EXTENSIONS.join(', ')}).`);
+  }
+  text = text.trim();
+  if (!text) {
+    throw new Error(extension === '.pdf'
+      ? 'No text was found. Scanned PDFs contain only images; run them through OCR or upload the pages as images instead.'
+      : 'The document is empty.');
+  }
+  return text;
+};
+
+/**
+ * Combines imported documents into PRD text, each introduced by a "Source" heading so findings and
+ * requirements can be traced back to the file they came from.
+ */
+export const mergeDocuments = (documents: Array<{ name: string; text: string }>): string =>
+  documents.map(doc => `# Source: ${doc.name}\n\n${doc.text}`).join('\n\n');
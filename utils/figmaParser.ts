@@ -0,0 +1,242 @@
+// utils/figmaParser.ts
+
+import type { FigmaDesign, FigmaElement, FigmaFrame, FigmaPrototypeLink } from '../types';
+
+// The subset of the Figma REST API node shape that is read here.
+interface FigmaNode {
+  id?: string;
+  name?: string;
+  type?: string;
+  visible?: boolean;
+  characters?: string;
+  componentId?: string;
+  children?: FigmaNode[];
+  transitionNodeID?: string | null;
+  reactions?: FigmaReaction[];
+}
+
+interface FigmaAction {
+  type?: string;
+  destinationId?: string | null;
+  url?: string;
+}
+
+interface FigmaReaction {
+  trigger?: { type?: string } | null;
+  action?: FigmaAction | null; // Older exports
+  actions?: FigmaAction[]; // Current exports
+}
+
+interface ComponentMeta {
+  components: Record<string, { name?: string; componentSetId?: string }>;
+  componentSets: Record<string, { name?: string }>;
+}
+
+// Checked in order against the layer and component names.
+const ELEMENT_KINDS: Array<{ kind: string; pattern: RegExp }> = [
+  { kind: 'checkbox', pattern: /check\s*box/i },
+  { kind: 'radio', pattern: /\bradio/i },
+  { kind: 'toggle', pattern: /toggle|switch/i },
+  { kind: 'dropdown', pattern: /dropdown|select|picker|combo\s*box/i },
+  { kind: 'input', pattern: /input|text\s*field|textarea|search\s*(bar|box|field)|form\s*field/i },
+  { kind: 'tab', pattern: /\btabs?\b/i },
+  { kind: 'link', pattern: /\blink\b/i },
+  { kind: 'button', pattern: /button|\bbtn\b|\bcta\b|icon\s*button/i },
+];
+
+// Screen-level node types; sections are containers whose frames are screens in their own right.
+const FRAME_TYPES = ['FRAME', 'COMPONENT'];
+
+const MAX_LABEL_LENGTH = 80;
+
+const cleanText = (text: string): string => {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_LABEL_LENGTH ? `${collapsed.slice(0, MAX_LABEL_LENGTH - 1)}…` : collapsed;
+};
+
+const isVisible = (node: FigmaNode) => node.visible !== false;
+
+const firstText = (node: FigmaNode): string | undefined => {
+  if (node.type === 'TEXT' && node.characters?.trim()) return cleanText(node.characters);
+  for (const child of (node.children || []).filter(isVisible)) {
+    const text = firstText(child);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+const formatTrigger = (type?: string): string => (type || 'ON_CLICK').toLowerCase().replace(/_/g, ' ');
+
+/** Lists the destinations of a node's prototype interactions, as destination IDs or `url:` / `back` markers. */
+const getInteractions = (node: FigmaNode): Array<{ trigger: string; target: string }> => {
+  const interactions = (node.reactions || []).flatMap(reaction => {
+    const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+    return actions.flatMap(action => {
+      const trigger = formatTrigger(reaction.trigger?.type);
+      if (action.type === 'NODE' && action.destinationId) return [{ trigger, target: action.destinationId }];
+      if (action.type === 'BACK') return [{ trigger, target: 'back' }];
+      if (action.type === 'URL' && action.url) return [{ trigger, target: `url:${action.url}` }];
+      return [];
+    });
+  });
+  if (interactions.length === 0 && node.transitionNodeID) {
+    interactions.push({ trigger: 'on click', target: node.transitionNodeID });
+  }
+  return interactions;
+};
+
+const getComponentName = (node: FigmaNode, meta: ComponentMeta): string | undefined => {
+  if (node.type !== 'INSTANCE') return undefined;
+  const component = node.componentId ? meta.components[node.componentId] : undefined;
+  const set = component?.componentSetId ? meta.componentSets[component.componentSetId] : undefined;
+  return set?.name || component?.name || node.name;
+};
+
+const parseFrame = (frame: FigmaNode, page: string, meta: ComponentMeta, names: Map<string, string>) => {
+  const components = new Set<string>();
+  const textLayers: string[] = [];
+  const interactiveElements: FigmaElement[] = [];
+  const pendingLinks: Array<{ fromLabel: string; trigger: string; target: string }> = [];
+
+  const visit = (node: FigmaNode, insideElement: boolean) => {
+    if (node.id && node.name) names.set(node.id, node.name);
+    const component = getComponentName(node, meta);
+    if (component) components.add(component);
+    if (node.type === 'TEXT' && node.characters?.trim()) textLayers.push(cleanText(node.characters));
+
+    const interactions = getInteractions(node);
+    const kind = node === frame ? undefined : ELEMENT_KINDS.find(k => k.pattern.test(node.name || '') || k.pattern.test(component || ''))?.kind;
+    let isElement = false;
+    // Nested matches (e.g. the "Button/Label" layer inside a button) describe the same element.
+    if (!insideElement && node !== frame && (kind || interactions.length > 0)) {
+      isElement = true;
+      interactiveElements.push({
+        id: node.id || '',
+        label: firstText(node) || cleanText(node.name || node.type || 'Unnamed layer'),
+        kind: kind || 'hotspot',
+        ...(component && { component }),
+      });
+    }
+    const fromLabel = node === frame ? frame.name || 'Frame' : firstText(node) || cleanText(node.name || 'Unnamed layer');
+    interactions.forEach(interaction => pendingLinks.push({ fromLabel, ...interaction }));
+
+    (node.children || []).filter(isVisible).forEach(child => visit(child, insideElement || isElement));
+  };
+  visit(frame, false);
+
+  return {
+    frame: {
+      id: frame.id || '',
+      name: cleanText(frame.name || 'Untitled frame'),
+      page,
+      components: Array.from(components),
+      textLayers,
+      interactiveElements,
+      links: [] as FigmaPrototypeLink[],
+    },
+    pendingLinks,
+  };
+};
+
+/** Finds the screen frames under a node: the node itself, the frames on a page or in a section, or the pages of a document. */
+const collectFrames = (node: FigmaNode, page: string, found: Array<{ node: FigmaNode; page: string }>) => {
+  if (!isVisible(node)) return;
+  if (FRAME_TYPES.includes(node.type || '')) {
+    found.push({ node, page });
+  } else if (node.type === 'DOCUMENT') {
+    (node.children || []).forEach(child => collectFrames(child, child.name || 'Page', found));
+  } else if (node.type === 'CANVAS') {
+    (node.children || []).forEach(child => collectFrames(child, node.name || page, found));
+  } else if (node.type === 'SECTION' || node.type === 'GROUP') {
+    (node.children || []).forEach(child => collectFrames(child, page, found));
+  }
+};
+
+/**
+ * Parses a Figma REST API JSON export (`GET /v1/files/:key` or `GET /v1/files/:key/nodes`), or a
+ * single exported node tree, into its frames, components, text layers, interactive elements and
+ * prototype links.
+ * @param json The parsed JSON.
+ * @param fileName The uploaded file's name, kept for attribution.
+ */
+export const parseFigmaExport = (json: unknown, fileName: string): FigmaDesign => {
+  if (!json || typeof json !== 'object') {
+    throw new Error('The file is not a Figma JSON export.');
+  }
+  const data = json as Record<string, any>;
+  const meta: ComponentMeta = { components: { ...data.components }, componentSets: { ...data.componentSets } };
+  let roots: FigmaNode[];
+  if (data.document && typeof data.document === 'object') {
+    roots = [data.document];
+  } else if (data.nodes && typeof data.nodes === 'object') {
+    roots = Object.values(data.nodes as Record<string, any>).filter(entry => entry?.document).map(entry => {
+      Object.assign(meta.components, entry.components);
+      Object.assign(meta.componentSets, entry.componentSets);
+      return entry.document as FigmaNode;
+    });
+  } else if (typeof data.type === 'string' && Array.isArray(data.children)) {
+    roots = [data as FigmaNode];
+  } else {
+    throw new Error('The file is not a Figma JSON export: expected a "document" or "nodes" property, as returned by the Figma REST API.');
+  }
+
+  const found: Array<{ node: FigmaNode; page: string }> = [];
+  roots.forEach(root => collectFrames(root, root.type === 'CANVAS' ? root.name || 'Page' : 'Page', found));
+  if (found.length === 0) {
+    throw new Error('No frames were found in the Figma export.');
+  }
+
+  const names = new Map<string, string>();
+  const parsed = found.map(({ node, page }) => parseFrame(node, page, meta, names));
+  // Links are resolved last because they can point at frames that come later in the file.
+  const frames: FigmaFrame[] = parsed.map(({ frame, pendingLinks }) => ({
+    ...frame,
+    links: pendingLinks.map(({ fromLabel, trigger, target }) => ({
+      fromLabel,
+      trigger,
+      destination: target === 'back' ? 'Back' : target.startsWith('url:') ? target.slice(4) : names.get(target) || `node ${target}`,
+    })),
+  }));
+
+  return {
+    fileName,
+    documentName: typeof data.name === 'string' && data.name ? data.name : fileName.replace(/\.json$/i, ''),
+    frames,
+  };
+};
+
+// Keeps the prompt section bounded for large files.
+const MAX_FRAMES = 40;
+const MAX_ITEMS_PER_FRAME = 25;
+
+const listWithLimit = (items: string[]): string =>
+  items.length > MAX_ITEMS_PER_FRAME
+    ? `${items.slice(0, MAX_ITEMS_PER_FRAME).join('; ')}; …and ${items.length - MAX_ITEMS_PER_FRAME} more`
+    : items.join('; ');
+
+/**
+ * Summarizes a parsed design for the prompt: one section per frame with its components,
+ * interactive elements, prototype links and text.
+ */
+export const formatFigmaDesign = (design: FigmaDesign): string => {
+  const sections = design.frames.slice(0, MAX_FRAMES).map(frame => {
+    const lines = [`### ${frame.name} (page: ${frame.page})`];
+    if (frame.components.length > 0) lines.push(`- Components: ${listWithLimit(frame.components)}`);
+    if (frame.interactiveElements.length > 0) {
+      lines.push(`- Interactive elements: ${listWithLimit(frame.interactiveElements.map(e => `${e.kind} "${e.label}"`))}`);
+    }
+    if (frame.links.length > 0) {
+      lines.push(`- Prototype links: ${listWithLimit(frame.links.map(l => `"${l.fromLabel}" (${l.trigger}) → ${l.destination}`))}`);
+    }
+    if (frame.textLayers.length > 0) lines.push(`- Text: ${listWithLimit(frame.textLayers.map(t => `"${t}"`))}`);
+    return lines.join('\n');
+  });
+  if (design.frames.length > MAX_FRAMES) {
+    sections.push(`…and ${design.frames.length - MAX_FRAMES} more frames.`);
+  }
+  return [
+    `Figma design "${design.documentName}" (from ${design.fileName}), with ${design.frames.length} frame${design.frames.length === 1 ? '' : 's'}.`,
+    'When referring to the design, name screens by their frame name and elements by their label, e.g. On "Login", click the button "Sign in".',
+    ...sections,
+  ].join('\n\n');
+};
@@ -0,0 +1,65 @@
+// utils/findingTriage.ts
+
+import type { AnalysisFinding, FindingSeverity, FindingStatus } from '../types';
+
+// Most severe first; also the sort order of the triage list.
+export const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const isSeverity = (value: unknown): value is FindingSeverity =>
+  typeof value === 'string' && (FINDING_SEVERITIES as string[]).includes(value);
+
+// Models occasionally answer in percent rather than as a fraction.
+const normalizeConfidence = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return undefined;
+  return Math.min(1, number > 1 ? number / 100 : number);
+};
+
+/**
+ * Turns the findings of an analysis response into pending findings with IDs (F1, F2, …), a known
+ * severity (or none) and a confidence between 0 and 1.
+ */
+export const normalizeFindings = (findings: AnalysisFinding[]): AnalysisFinding[] =>
+  findings.map((finding, i) => {
+    const severity = String(finding.severity || '').toLowerCase();
+    return {
+      ...finding,
+      id: `F${i + 1}`,
+      severity: isSeverity(severity) ? severity : undefined,
+      confidence: normalizeConfidence(finding.confidence),
+      status: 'pending',
+    };
+  });
+
+export const getFindingStatus = (finding: AnalysisFinding): FindingStatus => finding.status || 'pending';
+
+/** The findings the user accepted; only these are used for test generation and PRD enhancement. */
+export const getAcceptedFindings = (findings: AnalysisFinding[]): AnalysisFinding[] =>
+  findings.filter(finding => getFindingStatus(finding) === 'accepted');
+
+export const countFindingsByStatus = (findings: AnalysisFinding[]): Record<FindingStatus, number> => {
+  const counts: Record<FindingStatus, number> = { pending: 0, accepted: 0, dismissed: 0 };
+  findings.forEach(finding => counts[getFindingStatus(finding)]++);
+  return counts;
+};
+
+/** The ID for a finding added by hand, after the highest one in use. */
+export const getNextFindingId = (findings: AnalysisFinding[]): string =>
+  `F${findings.reduce((max, finding) => Math.max(max, Number(finding.id?.slice(1)) || 0), 0) + 1}`;
+
+/**
+ * Accepts the findings at or above a severity and dismisses the others, for runs without a
+ * person to triage them. Findings without a severity are accepted.
+ */
+export const triageBySeverity = (findings: AnalysisFinding[], minSeverity: FindingSeverity): AnalysisFinding[] => {
+  const threshold = FINDING_SEVERITIES.indexOf(minSeverity);
+  return findings.map(finding => finding.severity && FINDING_SEVERITIES.indexOf(finding.severity) > threshold
+    ? { ...finding, status: 'dismissed', dismissReason: `Below the minimum severity (${minSeverity})` }
+    : { ...finding, status: 'accepted' });
+};
+
+/** Orders findings by severity, most severe first; findings without a severity go last. */
+export const sortFindingsBySeverity = (findings: AnalysisFinding[]): AnalysisFinding[] => {
+  const rank = (finding: AnalysisFinding) => (finding.severity ? FINDING_SEVERITIES.indexOf(finding.severity) : FINDING_SEVERITIES.length);
+  return [...findings].sort((a, b) => rank(a) - rank(b));
+};
@@ -0,0 +1,144 @@
+// utils/imageAnnotations.ts
+
+import type { FileData, ImageAnnotation } from '../types';
+import { loadImage } from './imageDownscaler';
+import { formatTimestamp } from './sceneDetection';
+
+// Saturated red reads as a marking on almost any UI screenshot.
+export const ANNOTATION_COLOR = '#ff2d55';
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const percent = (value: number) => `${Math.round(clamp01(value) * 100)}%`;
+
+/** The number after the highest region ID used in any upload, so new regions never reuse an ID. */
+export const getNextAnnotationNumber = (files: FileData[]): number =>
+  files.flatMap(file => file.annotations || []).reduce((max, annotation) => Math.max(max, Number(annotation.id.slice(1)) || 0), 0) + 1;
+
+/** The annotations drawn on one keyframe of a video, or on an image when `frameIndex` is omitted. */
+export const getFrameAnnotations = (annotations: ImageAnnotation[] = [], frameIndex?: number): ImageAnnotation[] =>
+  annotations.filter(annotation => annotation.frameIndex === frameIndex);
+
+/**
+ * Draws boxes and arrows with their region ID onto a canvas that shows the whole original image.
+ * Line width and label size scale with the canvas so they stay legible once the image is downscaled.
+ */
+const drawAnnotations = (context: CanvasRenderingContext2D, annotations: ImageAnnotation[], width: number, height: number) => {
+  const lineWidth = Math.max(2, Math.round(Math.min(width, height) / 250));
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 40));
+  context.save();
+  context.strokeStyle = ANNOTATION_COLOR;
+  context.fillStyle = ANNOTATION_COLOR;
+  context.lineWidth = lineWidth;
+  context.lineJoin = 'round';
+  context.lineCap = 'round';
+  context.font = `bold ${fontSize}px sans-serif`;
+
+  annotations.forEach(annotation => {
+    const x1 = clamp01(annotation.x1) * width;
+    const y1 = clamp01(annotation.y1) * height;
+    const x2 = clamp01(annotation.x2) * width;
+    const y2 = clamp01(annotation.y2) * height;
+    let labelX = x1;
+    let labelY = y1;
+    if (annotation.shape === 'box') {
+      labelX = Math.min(x1, x2);
+      labelY = Math.min(y1, y2);
+      context.strokeRect(labelX, labelY, Math.abs(x2 - x1), Math.abs(y2 - y1));
+    } else {
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const headLength = lineWidth * 5;
+      context.beginPath();
+      context.moveTo(x1, y1);
+      context.lineTo(x2, y2);
+      context.stroke();
+      context.beginPath();
+      context.moveTo(x2, y2);
+      context.lineTo(x2 - headLength * Math.cos(angle - Math.PI / 7), y2 - headLength * Math.sin(angle - Math.PI / 7));
+      context.lineTo(x2 - headLength * Math.cos(angle + Math.PI / 7), y2 - headLength * Math.sin(angle + Math.PI / 7));
+      context.closePath();
+      context.fill();
+    }
+
+    // The label sits above the box or arrow tail, or just inside when there is no room above.
+    const padding = Math.round(fontSize / 4);
+    const labelWidth = context.measureText(annotation.id).width + padding * 2;
+    const labelHeight = fontSize + padding * 2;
+    const left = Math.min(Math.max(0, labelX), width - labelWidth);
+    const top = labelY - labelHeight >= 0 ? labelY - labelHeight : labelY;
+    context.fillStyle = ANNOTATION_COLOR;
+    context.fillRect(left, top, labelWidth, labelHeight);
+    context.fillStyle = '#ffffff';
+    context.textBaseline = 'top';
+    context.fillText(annotation.id, left + padding, top + padding);
+    context.fillStyle = ANNOTATION_COLOR;
+  });
+  context.restore();
+};
+
+/** A full-size copy of the image with the annotations drawn on it. */
+export const createAnnotatedCanvas = (image: HTMLImageElement, annotations: ImageAnnotation[]): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  context.drawImage(image, 0, 0);
+  drawAnnotations(context, annotations, canvas.width, canvas.height);
+  return canvas;
+};
+
+/** Returns the image with the annotations drawn on it, as a JPEG at its original size. */
+const renderAnnotatedImage = async (dataUrl: string, annotations: ImageAnnotation[], quality = 0.85): Promise<string> =>
+  createAnnotatedCanvas(await loadImage(dataUrl), annotations).toDataURL('image/jpeg', quality);
+
+/**
+ * Draws each keyframe's annotations onto it.
+ * @param frames The keyframes without annotations.
+ * @returns New keyframes; frames without annotations are returned unchanged.
+ */
+export const annotateFrames = (frames: string[], annotations: ImageAnnotation[]): Promise<string[]> =>
+  Promise.all(frames.map((frame, i) => {
+    const frameAnnotations = getFrameAnnotations(annotations, i);
+    return frameAnnotations.length > 0 ? renderAnnotatedImage(frame, frameAnnotations) : Promise.resolve(frame);
+  }));
+
+const describePosition = (x: number, y: number): string => {
+  const vertical = y < 1 / 3 ? 'top' : y < 2 / 3 ? 'middle' : 'bottom';
+  const horizontal = x < 1 / 3 ? 'left' : x < 2 / 3 ? 'center' : 'right';
+  return vertical === 'middle' && horizontal === 'center' ? 'center' : `${vertical} ${horizontal}`;
+};
+
+/** Describes where a region is, e.g. `box at the top left (x 10–40%, y 5–20%)`. */
+export const describeAnnotationPosition = (annotation: ImageAnnotation): string => {
+  if (annotation.shape === 'arrow') {
+    return `arrow pointing at the ${describePosition(annotation.x2, annotation.y2)} (x ${percent(annotation.x2)}, y ${percent(annotation.y2)})`;
+  }
+  const [left, right] = [annotation.x1, annotation.x2].sort((a, b) => a - b);
+  const [top, bottom] = [annotation.y1, annotation.y2].sort((a, b) => a - b);
+  return `box at the ${describePosition((left + right) / 2, (top + bottom) / 2)} (x ${percent(left)}–${percent(right)}, y ${percent(top)}–${percent(bottom)})`;
+};
+
+/**
+ * Describes the regions marked on an attachment for the prompt, so the model can match the drawn
+ * labels to their notes and refer to them. Returns an empty string when it has no annotations.
+ */
+export const formatImageAnnotations = (file: FileData): string => {
+  const annotations = file.annotations || [];
+  if (annotations.length === 0) return '';
+  const lines = annotations.map(annotation => {
+    let frame = '';
+    if (annotation.frameIndex !== undefined) {
+      const time = file.frameTimes?.[annotation.frameIndex];
+      frame = time !== undefined ? ` on the keyframe at ${formatTimestamp(time)}` : ` on keyframe ${annotation.frameIndex + 1}`;
+    }
+    const note = annotation.note.trim() ? ` — "${annotation.note.trim()}"` : '';
+    const story = annotation.storyId?.trim() ? ` (story ${annotation.storyId.trim()})` : '';
+    return `- ${annotation.id}: ${describeAnnotationPosition(annotation)}${frame}${note}${story}`;
+  });
+  return [
+    `The user marked ${annotations.length === 1 ? 'a region' : `${annotations.length} regions`} on "${file.name}"; ${annotations.length === 1 ? 'it is' : 'they are'} drawn in red and labeled with ${annotations.length === 1 ? 'its' : 'their'} ID. Focus on these parts of the UI. When a finding or test case is about a region, set its region_id (findings) or regionId (test cases) to the region ID.`,
+    ...lines,
+  ].join('\n');
+};
@@ -0,0 +1,61 @@
+// utils/imageDownscaler.ts
+
+import type { FileData } from '../types';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to decode image.'));
+    image.src = src;
+  });
+};
+
+/**
+ * Re-encodes an image as a JPEG whose longest edge is at most `maxDimension` pixels.
+ * @param dataUrl The image to shrink.
+ * @param maxDimension The longest allowed edge, in pixels.
+ * @param quality JPEG quality between 0 and 1.
+ * @returns The smaller of the original and the re-encoded data URL.
+ */
+export const downscaleDataUrl = async (dataUrl: string, maxDimension: number, quality = 0.8): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  // JPEG has no alpha channel; paint transparent areas white rather than black.
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const resized = canvas.toDataURL('image/jpeg', quality);
+  return resized.length < dataUrl.length ? resized : dataUrl;
+};
+
+/**
+ * Downscales an uploaded image (every part, when it was split), or every extracted frame of a video.
+ * @param file The processed attachment.
+ * @param maxDimension The longest allowed edge, in pixels.
+ * @returns A copy of the attachment with the smaller data and updated type and size.
+ */
+export const downscaleFile = async (file: FileData, maxDimension: number): Promise<FileData> => {
+  if (file.type.startsWith('video/')) {
+    const frames = await Promise.all((file.frames || []).map(frame => downscaleDataUrl(frame, maxDimension)));
+    return { ...file, frames, downscaled: true };
+  }
+  if (file.segments) {
+    const segments = await Promise.all(file.segments.map(segment => downscaleDataUrl(segment, maxDimension)));
+    const size = segments.reduce((sum, segment) => sum + Math.floor((segment.split(',')[1] || '').length * 3 / 4), 0);
+    return { ...file, segments, dataUrl: segments[0], size, downscaled: true };
+  }
+  const dataUrl = await downscaleDataUrl(file.dataUrl, maxDimension);
+  if (dataUrl === file.dataUrl) {
+    return { ...file, downscaled: true };
+  }
+  const size = Math.floor((dataUrl.split(',')[1] || '').length * 3 / 4);
+  return { ...file, dataUrl, type: 'image/jpeg', size, downscaled: true };
+};
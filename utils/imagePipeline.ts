@@ -0,0 +1,120 @@
+// utils/imagePipeline.ts
+
+import type { CropRect, ImageAnnotation, ImageOutputFormat, ImagePreprocessOptions } from '../types';
+import { DEFAULT_IMAGE_PREPROCESS_OPTIONS } from '../constants';
+import { loadImage } from './imageDownscaler';
+import { createAnnotatedCanvas } from './imageAnnotations';
+
+const THUMBNAIL_SIZE = 96;
+// Neighbouring parts of a split screenshot overlap by this fraction so nothing is cut in half unseen.
+const SEGMENT_OVERLAP = 0.05;
+
+export interface ProcessedImage {
+  dataUrl: string; // The whole image, or the first part when it was split
+  type: string;
+  size: number; // Bytes of everything that is sent (all parts when split)
+  segments?: string[];
+  thumbnailUrl: string;
+}
+
+const dataUrlBytes = (dataUrl: string): number => Math.floor((dataUrl.split(',')[1] || '').length * 3 / 4);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Converts a fractional crop to whole pixels inside the image. */
+const toPixelRect = (crop: CropRect | undefined, width: number, height: number) => {
+  if (!crop) return { x: 0, y: 0, width, height };
+  const x = Math.round(clamp(crop.x, 0, 1) * width);
+  const y = Math.round(clamp(crop.y, 0, 1) * height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height))),
+  };
+};
+
+/** Splits a region into horizontal bands no taller than `splitAspectRatio` times its width. */
+const getSegments = (rect: { x: number; y: number; width: number; height: number }, splitAspectRatio: number) => {
+  if (splitAspectRatio <= 0 || rect.height / rect.width <= splitAspectRatio) return [rect];
+  const count = Math.ceil(rect.height / rect.width / splitAspectRatio);
+  const bandHeight = Math.ceil(rect.height / count);
+  const overlap = Math.round(bandHeight * SEGMENT_OVERLAP);
+  return Array.from({ length: count }, (_, i) => {
+    const y = rect.y + i * bandHeight;
+    return { x: rect.x, y, width: rect.width, height: Math.min(bandHeight + (i < count - 1 ? overlap : 0), rect.y + rect.height - y) };
+  });
+};
+
+const drawRegion = (
+  image: HTMLImageElement | HTMLCanvasElement,
+  region: { x: number; y: number; width: number; height: number },
+  maxDimension: number,
+  format: ImageOutputFormat,
+  quality: number
+): string => {
+  const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(region.width, region.height)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * scale));
+  canvas.height = Math.max(1, Math.round(region.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  if (format === 'image/jpeg') {
+    // JPEG has no alpha channel; paint transparent areas white rather than black.
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  const encoded = canvas.toDataURL(format, quality);
+  // Browsers without a WebP encoder silently return PNG; fall back to JPEG instead.
+  return encoded.startsWith(`data:${format}`) ? encoded : drawRegion(image, region, maxDimension, 'image/jpeg', quality);
+};
+
+/**
+ * Prepares an uploaded image for the model: draws its annotations, crops it, splits very tall
+ * screenshots into parts, downscales each part to `maxDimension` and re-encodes it as JPEG or WebP.
+ * @param dataUrl The original image.
+ * @param options Size, format, quality and split settings; see getImagePreprocessOptions().
+ * @param crop Optional area to keep, as fractions of the original.
+ * @param annotations Regions to draw before cropping, positioned on the original.
+ * @returns The processed image. The original is returned unchanged when nothing would make it smaller.
+ */
+export const preprocessImage = async (dataUrl: string, options: ImagePreprocessOptions, crop?: CropRect, annotations: ImageAnnotation[] = []): Promise<ProcessedImage> => {
+  const original = await loadImage(dataUrl);
+  const image = annotations.length > 0 ? createAnnotatedCanvas(original, annotations) : original;
+  const rect = toPixelRect(crop, original.naturalWidth, original.naturalHeight);
+  const regions = getSegments(rect, options.splitAspectRatio);
+  const thumbnailUrl = drawRegion(image, rect, THUMBNAIL_SIZE, 'image/jpeg', 0.7);
+
+  const parts = regions.map(region => drawRegion(image, region, options.maxDimension, options.format, options.quality));
+  const size = parts.reduce((sum, part) => sum + dataUrlBytes(part), 0);
+  const originalSize = dataUrlBytes(dataUrl);
+  if (!crop && annotations.length === 0 && parts.length === 1 && size >= originalSize) {
+    return { dataUrl, type: dataUrl.slice(5, dataUrl.indexOf(';')), size: originalSize, thumbnailUrl };
+  }
+  return {
+    dataUrl: parts[0],
+    type: parts[0].slice(5, parts[0].indexOf(';')),
+    size,
+    ...(parts.length > 1 && { segments: parts }),
+    thumbnailUrl,
+  };
+};
+
+const parseSetting = (value: string | undefined, fallback: number, { allowZero = false, max = Infinity } = {}): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && (parsed > 0 || (allowZero && parsed === 0)) && parsed <= max ? parsed : fallback;
+};
+
+/** Reads the image settings from the environment (see vite.config.ts), falling back to the defaults. */
+export const getImagePreprocessOptions = (): ImagePreprocessOptions => {
+  const format = process.env.IMAGE_FORMAT?.toLowerCase();
+  return {
+    maxDimension: Math.round(parseSetting(process.env.IMAGE_MAX_DIMENSION, DEFAULT_IMAGE_PREPROCESS_OPTIONS.maxDimension, { allowZero: true })),
+    format: format === 'webp' || format === 'image/webp' ? 'image/webp' : format === 'jpeg' || format === 'jpg' || format === 'image/jpeg' ? 'image/jpeg' : DEFAULT_IMAGE_PREPROCESS_OPTIONS.format,
+    quality: parseSetting(process.env.IMAGE_QUALITY, DEFAULT_IMAGE_PREPROCESS_OPTIONS.quality, { max: 1 }),
+    splitAspectRatio: parseSetting(process.env.IMAGE_SPLIT_ASPECT_RATIO, DEFAULT_IMAGE_PREPROCESS_OPTIONS.splitAspectRatio, { allowZero: true }),
+  };
+};
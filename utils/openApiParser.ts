@@ -0,0 +1,404 @@
+// utils/openApiParser.ts
+
+import { parse as parseYaml } from 'yaml';
+import type { ApiOperation, ApiParameter, ApiResponse, ApiSpec } from '../types';
+
+/** File extensions accepted as API specifications. */
+export const API_SPEC_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+type SpecObject = Record<string, unknown>;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const SCHEMA_REF_PATTERN = /^#\/(?:components\/schemas|definitions)\/([^/]+)$/;
+// Nested objects deeper than this are summarized as `object`; the named schemas are listed separately.
+const MAX_SCHEMA_DEPTH = 2;
+const MAX_PROPERTIES = 20;
+const MAX_ENUM_VALUES = 10;
+const MAX_TEXT_LENGTH = 160;
+
+const isObject = (value: unknown): value is SpecObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '');
+
+const cleanText = (value: unknown): string => {
+  const text = asString(value).replace(/\s+/g, ' ').trim();
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+};
+
+const unescapePointer = (segment: string): string => {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Not percent-encoded after all
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+};
+
+/** Follows a local `#/...` reference; external files are not read. */
+const resolveRef = (root: SpecObject, ref: string): unknown => {
+  if (!ref.startsWith('#/')) return undefined;
+  let node: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    if (!isObject(node) && !Array.isArray(node)) return undefined;
+    node = (node as SpecObject)[unescapePointer(segment)];
+  }
+  return node;
+};
+
+// Parameters, request bodies and responses may each be a reference to a shared definition.
+const deref = (root: SpecObject, value: unknown, seen = 0): SpecObject | undefined => {
+  if (!isObject(value)) return undefined;
+  if (typeof value.$ref === 'string' && seen < 10) return deref(root, resolveRef(root, value.$ref), seen + 1);
+  return value;
+};
+
+const getConstraints = (schema: SpecObject): string[] => {
+  const constraints: string[] = [];
+  const add = (label: string, key: string) => {
+    if (schema[key] !== undefined && typeof schema[key] !== 'object') constraints.push(`${label} ${schema[key]}`);
+  };
+  add('minLength', 'minLength');
+  add('maxLength', 'maxLength');
+  add('min', 'minimum');
+  add('max', 'maximum');
+  // OpenAPI 3.0 and Swagger use booleans for exclusive bounds; 3.1 uses numbers.
+  if (schema.exclusiveMinimum === true) constraints.push('exclusive min');
+  else add('exclusiveMin', 'exclusiveMinimum');
+  if (schema.exclusiveMaximum === true) constraints.push('exclusive max');
+  else add('exclusiveMax', 'exclusiveMaximum');
+  add('multipleOf', 'multipleOf');
+  add('minItems', 'minItems');
+  add('maxItems', 'maxItems');
+  if (schema.uniqueItems === true) constraints.push('unique');
+  add('pattern', 'pattern');
+  add('default', 'default');
+  if (schema.nullable === true) constraints.push('nullable');
+  if (schema.readOnly === true) constraints.push('read-only');
+  if (schema.writeOnly === true) constraints.push('write-only');
+  return constraints;
+};
+
+/** Summarizes a JSON schema on one line, with the constraints that matter for boundary tests. */
+const describeSchema = (root: SpecObject, schema: unknown, depth = 0): string => {
+  if (!isObject(schema)) return 'any';
+  if (typeof schema.$ref === 'string') {
+    const name = schema.$ref.match(SCHEMA_REF_PATTERN)?.[1];
+    if (name) return unescapePointer(name);
+    return depth > MAX_SCHEMA_DEPTH ? 'object' : describeSchema(root, resolveRef(root, schema.$ref), depth + 1);
+  }
+  for (const [key, separator] of [['allOf', ' & '], ['oneOf', ' | '], ['anyOf', ' | ']] as const) {
+    const parts = schema[key];
+    if (Array.isArray(parts) && parts.length > 0) {
+      const combined = parts.map(part => describeSchema(root, part, depth + 1)).join(separator);
+      return parts.length > 1 ? `(${combined})` : combined;
+    }
+  }
+
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((t): t is string => typeof t === 'string');
+  const type = types.find(t => t !== 'null') || (schema.properties ? 'object' : schema.items ? 'array' : '');
+  const constraints = getConstraints(schema);
+  if (types.includes('null')) constraints.push('nullable');
+  const suffix = constraints.length > 0 ? ` [${constraints.join(', ')}]` : '';
+
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.slice(0, MAX_ENUM_VALUES).map(value => JSON.stringify(value)).join(' | ');
+    return `enum(${values}${schema.enum.length > MAX_ENUM_VALUES ? ' | …' : ''})${suffix}`;
+  }
+  if (type === 'array') {
+    const items = describeSchema(root, schema.items, depth + 1);
+    return `${/\s/.test(items) ? `(${items})` : items}[]${suffix}`;
+  }
+  if (type === 'object' || isObject(schema.properties)) {
+    const properties = isObject(schema.properties) ? Object.entries(schema.properties) : [];
+    if (properties.length === 0 || depth >= MAX_SCHEMA_DEPTH) {
+      if (isObject(schema.additionalProperties)) return `map<string, ${describeSchema(root, schema.additionalProperties, depth + 1)}>${suffix}`;
+      return `object${suffix}`;
+    }
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    const fields = properties.slice(0, MAX_PROPERTIES).map(([name, property]) =>
+      `${name}: ${describeSchema(root, property, depth + 1)}${required.includes(name) ? ' (required)' : ''}`);
+    if (properties.length > MAX_PROPERTIES) fields.push(`…${properties.length - MAX_PROPERTIES} more`);
+    return `{ ${fields.join(', ')} }${suffix}`;
+  }
+  const format = asString(schema.format);
+  return `${type || 'any'}${format ? ` ${format}` : ''}${suffix}`;
+};
+
+// OpenAPI 3 `content` maps media types to schemas; JSON is preferred when several are offered.
+const describeContent = (root: SpecObject, content: unknown): { contentTypes: string[]; schema?: string } => {
+  if (!isObject(content)) return { contentTypes: [] };
+  const contentTypes = Object.keys(content);
+  const preferred = contentTypes.find(type => /json/i.test(type)) ?? contentTypes[0];
+  const media = preferred ? deref(root, content[preferred]) : undefined;
+  return { contentTypes, ...(media?.schema !== undefined && { schema: describeSchema(root, media.schema) }) };
+};
+
+const describeSecurity = (requirements: unknown): string[] => {
+  if (!Array.isArray(requirements)) return [];
+  const alternatives = requirements.filter(isObject).map(requirement =>
+    Object.entries(requirement)
+      .map(([name, scopes]) => (Array.isArray(scopes) && scopes.length > 0 ? `${name} (${scopes.join(', ')})` : name))
+      .join(' + '));
+  // An empty requirement ({}) makes authentication optional.
+  return alternatives.includes('') && alternatives.length > 1 ? [...alternatives.filter(Boolean), 'none'] : alternatives.filter(Boolean);
+};
+
+const describeSecurityScheme = (scheme: SpecObject): string => {
+  const type = asString(scheme.type);
+  const description = cleanText(scheme.description);
+  let summary: string;
+  if (type === 'http') {
+    summary = `HTTP ${asString(scheme.scheme) || 'auth'}${scheme.bearerFormat ? ` (${asString(scheme.bearerFormat)})` : ''}`;
+  } else if (type === 'basic') {
+    summary = 'HTTP basic';
+  } else if (type === 'apiKey') {
+    summary = `API key in ${asString(scheme.in) || 'header'} "${asString(scheme.name)}"`;
+  } else if (type === 'oauth2') {
+    const flows = isObject(scheme.flows) ? Object.keys(scheme.flows) : [asString(scheme.flow)].filter(Boolean);
+    summary = `OAuth 2${flows.length > 0 ? ` (${flows.join(', ')})` : ''}`;
+  } else if (type === 'openIdConnect') {
+    summary = 'OpenID Connect';
+  } else {
+    summary = type || 'unknown';
+  }
+  return description ? `${summary}: ${description}` : summary;
+};
+
+// e.g. GET /pets/{petId} → getPetsByPetId
+const deriveOperationId = (method: string, path: string): string =>
+  method + path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      const param = segment.match(/^\{(.+)\}$/);
+      const words = (param ? param[1] : segment).split(/[^A-Za-z0-9]+/).filter(Boolean);
+      return (param ? 'By' : '') + words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+    })
+    .join('');
+
+const readOperation = (root: SpecObject, isSwagger: boolean, path: string, method: string, pathItem: SpecObject, operation: SpecObject): ApiOperation => {
+  // Operation parameters override path-level ones with the same name and location.
+  const byKey = new Map<string, SpecObject>();
+  [pathItem.parameters, operation.parameters].forEach(list => {
+    (Array.isArray(list) ? list : []).forEach(value => {
+      const parameter = deref(root, value);
+      if (parameter) byKey.set(`${asString(parameter.in)}:${asString(parameter.name)}`, parameter);
+    });
+  });
+
+  const parameters: ApiParameter[] = [];
+  let requestBody: ApiOperation['requestBody'];
+  const formFields: string[] = [];
+  let formRequired = false;
+  byKey.forEach(parameter => {
+    const location = asString(parameter.in);
+    const required = parameter.required === true || location === 'path';
+    if (location === 'body') {
+      const consumes = operation.consumes ?? root.consumes;
+      requestBody = {
+        contentTypes: Array.isArray(consumes) && consumes.length > 0 ? consumes.map(asString) : ['application/json'],
+        required,
+        schema: describeSchema(root, parameter.schema),
+      };
+      return;
+    }
+    if (location === 'formData') {
+      formFields.push(`${asString(parameter.name)}: ${describeSchema(root, parameter)}${required ? ' (required)' : ''}`);
+      formRequired ||= required;
+      return;
+    }
+    // Swagger 2 puts the type on the parameter itself; OpenAPI 3 uses `schema` or `content`.
+    const schema = isSwagger ? describeSchema(root, parameter) : parameter.schema !== undefined ? describeSchema(root, parameter.schema) : describeContent(root, parameter.content).schema || 'any';
+    const description = cleanText(parameter.description);
+    parameters.push({ name: asString(parameter.name), location, required, schema, ...(description && { description }) });
+  });
+  if (formFields.length > 0) {
+    const consumes = operation.consumes ?? root.consumes;
+    requestBody = {
+      contentTypes: Array.isArray(consumes) && consumes.length > 0 ? consumes.map(asString) : ['application/x-www-form-urlencoded'],
+      required: formRequired,
+      schema: `{ ${formFields.join(', ')} }`,
+    };
+  }
+
+  const body = deref(root, operation.requestBody);
+  if (body) {
+    const { contentTypes, schema } = describeContent(root, body.content);
+    requestBody = { contentTypes, required: body.required === true, schema: schema || 'any' };
+  }
+
+  const responses: ApiResponse[] = Object.entries(isObject(operation.responses) ? operation.responses : {})
+    .map(([status, value]) => {
+      const response = deref(root, value) || {};
+      const schema = isSwagger ? (response.schema !== undefined ? describeSchema(root, response.schema) : undefined) : describeContent(root, response.content).schema;
+      return { status, description: cleanText(response.description), ...(schema && { schema }) };
+    })
+    .sort((a, b) => a.status.localeCompare(b.status));
+
+  const operationId = asString(operation.operationId).trim();
+  return {
+    operationId: operationId || deriveOperationId(method, path),
+    ...(!operationId && { operationIdGenerated: true }),
+    method: method.toUpperCase(),
+    path,
+    summary: cleanText(operation.summary) || cleanText(operation.description),
+    tags: Array.isArray(operation.tags) ? operation.tags.map(asString).filter(Boolean) : [],
+    parameters,
+    ...(requestBody && { requestBody }),
+    responses,
+    security: describeSecurity(operation.security ?? root.security),
+    ...(operation.deprecated === true && { deprecated: true }),
+  };
+};
+
+/**
+ * Parses an OpenAPI 3 or Swagger 2 specification (JSON or YAML) into its endpoints, parameters,
+ * schemas and authentication requirements. Only local `$ref`s are followed.
+ * @param text The file contents.
+ * @param fileName The uploaded file, shown in the prompt.
+ * @returns The parsed specification; throws when the file is not a specification or has no operations.
+ */
+export const parseApiSpec = (text: string, fileName: string): ApiSpec => {
+  let root: unknown;
+  try {
+    root = text.trimStart().startsWith('{') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    // YAML errors continue with a code excerpt; the first line has the position.
+    throw new Error(`"${fileName}" is not valid JSON or YAML. ${error instanceof Error ? error.message.split('\n')[0] : ''}`.trim());
+  }
+  if (!isObject(root) || (typeof root.openapi !== 'string' && asString(root.swagger) !== '2.0')) {
+    throw new Error(`"${fileName}" is not an OpenAPI 3 or Swagger 2 specification (no "openapi" or "swagger: 2.0" field).`);
+  }
+  const isSwagger = typeof root.openapi !== 'string';
+  const info = isObject(root.info) ? root.info : {};
+
+  const operations: ApiOperation[] = [];
+  Object.entries(isObject(root.paths) ? root.paths : {}).forEach(([path, value]) => {
+    const pathItem = deref(root, value);
+    if (!pathItem) return;
+    HTTP_METHODS.forEach(method => {
+      if (isObject(pathItem[method])) operations.push(readOperation(root, isSwagger, path, method, pathItem, pathItem[method]));
+    });
+  });
+  if (operations.length === 0) {
+    throw new Error(`"${fileName}" defines no operations under "paths".`);
+  }
+
+  const components = isObject(root.components) ? root.components : {};
+  const schemaDefinitions = isSwagger ? root.definitions : components.schemas;
+  const schemeDefinitions = isSwagger ? root.securityDefinitions : components.securitySchemes;
+  let servers: string[];
+  if (isSwagger) {
+    const schemes = Array.isArray(root.schemes) && root.schemes.length > 0 ? root.schemes.map(asString) : ['https'];
+    servers = root.host ? schemes.map(scheme => `${scheme}://${asString(root.host)}${asString(root.basePath)}`) : [];
+  } else {
+    servers = (Array.isArray(root.servers) ? root.servers : []).filter(isObject).map(server => asString(server.url)).filter(Boolean);
+  }
+
+  return {
+    fileName,
+    title: cleanText(info.title) || fileName,
+    version: asString(info.version),
+    format: isSwagger ? 'Swagger 2.0' : `OpenAPI ${root.openapi}`,
+    servers,
+    securitySchemes: Object.entries(isObject(schemeDefinitions) ? schemeDefinitions : {}).map(([name, scheme]) => ({
+      name,
+      description: describeSecurityScheme(deref(root, scheme) || {}),
+    })),
+    operations,
+    schemas: Object.entries(isObject(schemaDefinitions) ? schemaDefinitions : {}).map(([name, schema]) => ({
+      name,
+      // Describe the definition itself rather than printing its own name back.
+      schema: describeSchema(root, schema, 0),
+    })),
+  };
+};
+
+// --- Prompt ---
+
+const hasStatus = (operation: ApiOperation, pattern: RegExp) => operation.responses.some(response => pattern.test(response.status));
+
+/**
+ * Checks the specification for gaps that can be found without a model: operations that document
+ * no error responses, secured operations without 401/403, path parameters without a 404, and
+ * missing operation IDs.
+ * @returns One line per operation with gaps.
+ */
+export const findApiSpecGaps = (spec: ApiSpec): string[] => {
+  const anySecured = spec.operations.some(operation => operation.security.length > 0);
+  return spec.operations.flatMap(operation => {
+    const gaps: string[] = [];
+    const takesInput = operation.requestBody !== undefined || operation.parameters.some(p => p.location !== 'header');
+    if (!hasStatus(operation, /^(4|5|default)/i)) gaps.push('documents no error responses');
+    else if (takesInput && !hasStatus(operation, /^(400|422|4XX|default)$/i)) gaps.push('no 400/422 response for invalid input');
+    if (operation.security.length > 0 && !operation.security.includes('none') && !hasStatus(operation, /^(401|403|4XX|default)$/i)) {
+      gaps.push('secured, but no 401/403 response');
+    }
+    if (operation.security.length === 0 && anySecured && operation.method !== 'OPTIONS') gaps.push('no authentication, unlike other operations');
+    if (operation.parameters.some(p => p.location === 'path') && operation.method !== 'POST' && !hasStatus(operation, /^(404|4XX|default)$/i)) {
+      gaps.push('no 404 response although it addresses a resource by path parameter');
+    }
+    if (!hasStatus(operation, /^2/)) gaps.push('documents no success response');
+    if (operation.operationIdGenerated) gaps.push('has no operationId');
+    return gaps.length > 0 ? [`${operation.operationId} (${operation.method} ${operation.path}): ${gaps.join('; ')}`] : [];
+  });
+};
+
+// Keeps the prompt section bounded for large specifications; chunked generation splits by operation.
+const MAX_OPERATIONS = 150;
+const MAX_SCHEMAS = 60;
+
+const formatOperation = (operation: ApiOperation): string => {
+  const flags = [
+    operation.tags.length > 0 && `tags: ${operation.tags.join(', ')}`,
+    `auth: ${operation.security.length > 0 ? operation.security.join(' | ') : 'none'}`,
+    operation.deprecated && 'deprecated',
+  ].filter(Boolean);
+  const lines = [`- ${operation.operationId}: ${operation.method} ${operation.path}${operation.summary ? ` — ${operation.summary}` : ''} [${flags.join('; ')}]`];
+  if (operation.parameters.length > 0) {
+    lines.push(`  Parameters: ${operation.parameters.map(p => `${p.name} (${p.location}${p.required ? ', required' : ''}): ${p.schema}`).join('; ')}`);
+  }
+  if (operation.requestBody) {
+    const { contentTypes, required, schema } = operation.requestBody;
+    lines.push(`  Request body (${contentTypes.join(', ') || 'any'}${required ? ', required' : ''}): ${schema}`);
+  }
+  if (operation.responses.length > 0) {
+    lines.push(`  Responses: ${operation.responses.map(r => `${r.status}${r.schema ? ` ${r.schema}` : ''}${r.description ? ` — ${r.description}` : ''}`).join('; ')}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Summarizes a parsed specification for the prompt: authentication schemes, every operation with
+ * its parameters, body and responses, the named schemas, and the gaps from findApiSpecGaps().
+ */
+export const formatApiSpec = (spec: ApiSpec): string => {
+  const sections = [
+    `API "${spec.title}"${spec.version ? ` version ${spec.version}` : ''} (${spec.format}, from ${spec.fileName}), with ${spec.operations.length} operation${spec.operations.length === 1 ? '' : 's'}.`,
+    'Each operation is listed as "operationId: METHOD path". Use the operationId as the story ID for findings and test cases about that operation.',
+  ];
+  if (spec.servers.length > 0) sections.push(`Servers: ${spec.servers.join(', ')}`);
+  if (spec.securitySchemes.length > 0) {
+    sections.push(`Authentication schemes:\n${spec.securitySchemes.map(s => `- ${s.name}: ${s.description}`).join('\n')}`);
+  }
+  const operations = spec.operations.slice(0, MAX_OPERATIONS).map(formatOperation);
+  if (spec.operations.length > MAX_OPERATIONS) operations.push(`…and ${spec.operations.length - MAX_OPERATIONS} more operations.`);
+  sections.push(`Operations:\n${operations.join('\n')}`);
+  if (spec.schemas.length > 0) {
+    const schemas = spec.schemas.slice(0, MAX_SCHEMAS).map(s => `- ${s.name}: ${s.schema}`);
+    if (spec.schemas.length > MAX_SCHEMAS) schemas.push(`…and ${spec.schemas.length - MAX_SCHEMAS} more schemas.`);
+    sections.push(`Schemas:\n${schemas.join('\n')}`);
+  }
+  const gaps = findApiSpecGaps(spec);
+  if (gaps.length > 0) {
+    sections.push(`Gaps found while parsing the specification (report them as findings where relevant):\n${gaps.map(gap => `- ${gap}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+/** Keeps only the given operations, e.g. for one chunk of a per-operation plan. */
+export const filterApiSpec = (spec: ApiSpec, operationIds: string[]): ApiSpec => ({
+  ...spec,
+  operations: spec.operations.filter(operation => operationIds.includes(operation.operationId)),
+});
@@ -0,0 +1,115 @@
+// utils/payloadEstimator.ts
+
+import type { InputData, PayloadThresholds } from '../types';
+import { DEFAULT_PAYLOAD_THRESHOLDS } from '../constants';
+import { formatFigmaDesign } from './figmaParser';
+import { formatApiSpec } from './openApiParser';
+
+// Rough averages: about 4 characters per text token, and Gemini counts each image
+// (or video frame) as 258 tokens regardless of its file size.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+
+export interface PayloadItemEstimate {
+  id: string; // 'prd', 'figma', 'figmaDesign', 'apiSpec' or the file's tempId
+  label: string;
+  kind: 'text' | 'image' | 'video';
+  bytes: number;
+  tokens: number;
+}
+
+export interface PayloadEstimate {
+  items: PayloadItemEstimate[];
+  totalBytes: number;
+  totalTokens: number;
+}
+
+// Inline data travels as base64 text, so the request carries the encoded length, not the file size.
+const encodedBytes = (dataUrl: string): number => (dataUrl.split(',')[1] || '').length;
+
+const textEstimate = (text: string) => ({
+  bytes: new TextEncoder().encode(text).length,
+  tokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+});
+
+/**
+ * Estimates what the inputs add to a request, mirroring what buildMultimodalPrompt sends.
+ * @param inputs The PRD text, attachments, Figma link and parsed Figma design.
+ * @returns One estimate per non-empty input plus the totals.
+ */
+export const estimateInputPayload = (inputs: InputData): PayloadEstimate => {
+  const items: PayloadItemEstimate[] = [];
+
+  if (inputs.prdText.trim()) {
+    items.push({ id: 'prd', label: 'PRD text', kind: 'text', ...textEstimate(inputs.prdText) });
+  }
+  if (inputs.figmaUrl.trim()) {
+    items.push({ id: 'figma', label: 'Figma link', kind: 'text', ...textEstimate(inputs.figmaUrl) });
+  }
+  if (inputs.figmaDesign) {
+    items.push({ id: 'figmaDesign', label: `Figma design (${inputs.figmaDesign.fileName})`, kind: 'text', ...textEstimate(formatFigmaDesign(inputs.figmaDesign)) });
+  }
+  if (inputs.apiSpec) {
+    items.push({ id: 'apiSpec', label: `API specification (${inputs.apiSpec.fileName})`, kind: 'text', ...textEstimate(formatApiSpec(inputs.apiSpec)) });
+  }
+  inputs.files.forEach(file => {
+    if (file.type.startsWith('image/') && file.segments) {
+      items.push({
+        id: file.tempId,
+        label: `${file.name} (${file.segments.length} parts)`,
+        kind: 'image',
+        bytes: file.segments.reduce((sum, segment) => sum + encodedBytes(segment), 0),
+        tokens: file.segments.length * TOKENS_PER_IMAGE,
+      });
+    } else if (file.type.startsWith('image/')) {
+      items.push({ id: file.tempId, label: file.name, kind: 'image', bytes: encodedBytes(file.dataUrl), tokens: file.dataUrl ? TOKENS_PER_IMAGE : 0 });
+    } else if (file.type.startsWith('video/')) {
+      const frames = file.frames || [];
+      items.push({
+        id: file.tempId,
+        label: `${file.name} (${frames.length} frame${frames.length === 1 ? '' : 's'})`,
+        kind: 'video',
+        bytes: frames.reduce((sum, frame) => sum + encodedBytes(frame), 0),
+        tokens: frames.length * TOKENS_PER_IMAGE,
+      });
+    }
+  });
+
+  return {
+    items,
+    totalBytes: items.reduce((sum, item) => sum + item.bytes, 0),
+    totalTokens: items.reduce((sum, item) => sum + item.tokens, 0),
+  };
+};
+
+const parseLimit = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Reads the warning thresholds from the environment (see vite.config.ts), falling back to the defaults. */
+export const getPayloadThresholds = (): PayloadThresholds => ({
+  maxTokens: parseLimit(process.env.PAYLOAD_MAX_TOKENS, DEFAULT_PAYLOAD_THRESHOLDS.maxTokens),
+  maxBytes: parseLimit(process.env.PAYLOAD_MAX_BYTES, DEFAULT_PAYLOAD_THRESHOLDS.maxBytes),
+});
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Compares an estimate against the thresholds.
+ * @returns One message per exceeded threshold; empty when the payload is within budget.
+ */
+export const getPayloadWarnings = (estimate: PayloadEstimate, thresholds: PayloadThresholds): string[] => {
+  const warnings: string[] = [];
+  if (estimate.totalBytes > thresholds.maxBytes) {
+    warnings.push(`The inputs add about ${formatBytes(estimate.totalBytes)} to each request, above the ${formatBytes(thresholds.maxBytes)} limit.`);
+  }
+  if (estimate.totalTokens > thresholds.maxTokens) {
+    warnings.push(`The inputs use about ${estimate.totalTokens.toLocaleString()} tokens, above the ${thresholds.maxTokens.toLocaleString()} token budget.`);
+  }
+  return warnings;
+};
@@ -0,0 +1,119 @@
+// utils/planExport.ts
+
+import type { AnalysisFinding, FeatureScope, TestCase, TraceabilityEntry, TraceabilityMatrix } from '../types';
+import { getFindingStatus } from './findingTriage';
+import { getTestCaseFeatureNames, groupTraceabilityByFeature } from './projectModel';
+
+/**
+ * Serializes test cases as CSV, one quoted column per field.
+ * @param testCases The test cases, in the order they should appear.
+ * @param features The features of multi-feature inputs; adds a leading `feature` column.
+ * @returns The CSV text, or an empty string when there are no test cases.
+ */
+export const convertToCSV = (testCases: TestCase[], features: FeatureScope[] = []): string => {
+  if (testCases.length === 0) return '';
+  const headers: (keyof TestCase)[] = ['id', 'priority', 'priority_reasoning', 'summary', 'type', 'risk', 'storyId', 'preconditions', 'steps', 'expectedResult'];
+  if (testCases.some(tc => tc.regionId)) headers.push('regionId'); // Only plans for annotated images have regions
+  const featureNames = getTestCaseFeatureNames(testCases, features);
+  const headerRow = [...(features.length > 0 ? ['feature'] : []), ...headers].join(',');
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  const rows = testCases.map(tc => {
+    const cells = headers.map(header => escape(String(tc[header] || '')));
+    return (features.length > 0 ? [escape(featureNames.get(tc.id) || ''), ...cells] : cells).join(',');
+  });
+  return [headerRow, ...rows].join('\n');
+};
+
+/**
+ * Serializes the triage decisions on analysis findings as CSV, one row per finding.
+ * Confidence is a fraction between 0 and 1; `original_description` is only set for edited findings.
+ */
+export const findingsToCSV = (findings: AnalysisFinding[]): string => {
+  if (findings.length === 0) return '';
+  const headers = ['id', 'status', 'severity', 'confidence', 'category', 'story_id', 'region_id', 'description', 'original_description', 'dismiss_reason', 'source'];
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows = findings.map(f => [
+    f.id || '',
+    getFindingStatus(f),
+    f.severity || '',
+    f.confidence !== undefined ? String(f.confidence) : '',
+    f.category,
+    f.source_story_id || '',
+    f.region_id || '',
+    f.description,
+    f.originalDescription || '',
+    f.dismissReason || '',
+    f.ruleId ? `rule:${f.ruleId}` : f.source || 'analysis',
+  ].map(escape).join(','));
+  return [headers.join(','), ...rows].join('\n');
+};
+
+const toFileSlug = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'feature';
+
+/**
+ * Splits generated Gherkin into one `.feature` file per `Feature:` block. Comments and tags
+ * directly above a feature (e.g. the `# Stories:` line of a chunked plan) stay with it.
+ * @param gherkin The Gherkin text of the whole plan.
+ * @returns File names (unique, derived from the feature titles) and their contents.
+ */
+export const splitGherkinFeatures = (gherkin: string): Array<{ fileName: string; content: string }> => {
+  const lines = gherkin.split('\n');
+  const starts: number[] = [];
+  lines.forEach((line, index) => {
+    if (!/^\s*Feature:/.test(line)) return;
+    let start = index;
+    while (start > 0 && /^\s*[#@]/.test(lines[start - 1])) start--;
+    starts.push(start);
+  });
+  if (starts.length === 0) {
+    return gherkin.trim() ? [{ fileName: 'test-plan.feature', content: `${gherkin.trim()}\n` }] : [];
+  }
+
+  const usedNames = new Set<string>();
+  return starts.map((start, i) => {
+    const block = lines.slice(i === 0 ? 0 : start, starts[i + 1] ?? lines.length);
+    const title = block.find(line => /^\s*Feature:/.test(line))!.replace(/^\s*Feature:/, '').trim();
+    const slug = toFileSlug(title);
+    let fileName = `${slug}.feature`;
+    for (let n = 2; usedNames.has(fileName); n++) fileName = `${slug}-${n}.feature`;
+    usedNames.add(fileName);
+    return { fileName, content: `${block.join('\n').trim()}\n` };
+  });
+};
+
+const traceabilityTable = (entries: TraceabilityEntry[]): string[] => [
+  '| Requirement / User Story ID | Covering Test Case IDs |',
+  '| --- | --- |',
+  ...entries.map(entry => `| ${entry.story_id} | ${entry.test_case_ids.length ? entry.test_case_ids.join(', ') : '**No covering tests**'} |`),
+];
+
+/**
+ * Renders the traceability matrix as Markdown: a coverage summary, the story-to-test table,
+ * and any test cases that reference unknown stories.
+ * @param features The features of multi-feature inputs; the table is then split into one section per feature.
+ */
+export const traceabilityToMarkdown = (matrix: TraceabilityMatrix, features: FeatureScope[] = []): string => {
+  const uncovered = matrix.uncovered_story_ids || [];
+  const unknownReferences = matrix.unknown_story_references || [];
+  const lines = [
+    '# Traceability Matrix',
+    '',
+    `${matrix.matrix.length - uncovered.length} of ${matrix.matrix.length} known stories covered by at least one test case.`,
+  ];
+  if (features.length > 0) {
+    groupTraceabilityByFeature(matrix.matrix, features).forEach(({ feature, items }) => {
+      const covered = items.filter(entry => entry.test_case_ids.length > 0).length;
+      lines.push('', `## ${feature ? `Feature: ${feature.name}` : 'Other Stories'}`, '', `${covered} of ${items.length} stories covered.`);
+      if (items.length > 0) lines.push('', ...traceabilityTable(items));
+    });
+  } else {
+    lines.push('', ...traceabilityTable(matrix.matrix));
+  }
+  if (unknownReferences.length > 0) {
+    lines.push('', '## References to Unknown Stories', '', '| Test Case ID | Referenced Story |', '| --- | --- |');
+    unknownReferences.forEach(ref => lines.push(`| ${ref.test_case_id} | ${ref.story_id.replace(/\|/g, '\\|')} |`));
+  }
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,136 @@
+// utils/prdChunker.ts
+
+import type { AnalysisFinding, ApiSpec, FileData, RequirementModel } from '../types';
+import { extractReferencedIds, extractStoryIds } from './traceability';
+import { filterRequirementModel, getStoryIds } from './requirementParser';
+import { filterApiSpec } from './openApiParser';
+
+export interface PrdChunk {
+  index: number;
+  storyIds: string[];
+  // Shared PRD context (title, overview, NFRs...) followed by the lines about these stories, in PRD order.
+  prdText: string;
+  requirements: RequirementModel; // The chunk's stories and criteria plus unlinked criteria; line ranges refer to the full PRD
+  findings: AnalysisFinding[];
+  files: FileData[];
+  apiSpec?: ApiSpec; // Only in API chunks: the specification narrowed to the chunk's operations
+}
+
+/**
+ * Assigns each PRD line to the story it belongs to, using the line ranges of the detected
+ * stories and of the acceptance criteria linked to them. Everything else is shared context.
+ * @returns Per line, the stories it belongs to.
+ */
+const assignLinesToStories = (lineCount: number, requirements: RequirementModel): string[][] => {
+  const lineStories: string[][] = Array.from({ length: lineCount }, () => []);
+  requirements.requirements.forEach(r => {
+    const storyId = r.kind === 'story' ? r.id : r.parentId;
+    if (!storyId) return;
+    for (let line = r.startLine; line <= r.endLine && line <= lineCount; line++) {
+      if (!lineStories[line - 1].includes(storyId)) lineStories[line - 1].push(storyId);
+    }
+  });
+  return lineStories;
+};
+
+// Attachments are matched by story ID in the file name or by the chunk's text mentioning the file.
+const isRelevantFile = (file: FileData, storyIds: string[], chunkLines: string[]): boolean => {
+  const name = file.name.toUpperCase();
+  return storyIds.some(id => name.includes(id)) || chunkLines.some(line => line.includes(file.name));
+};
+
+/**
+ * Splits a PRD into chunks of `storiesPerChunk` user stories, each carrying the shared PRD context
+ * plus the findings and attachments relevant to its stories. Findings without a story, and
+ * attachments that match no story, are attached to every chunk.
+ * @param prdText The full PRD.
+ * @param requirements The stories and criteria detected in the PRD.
+ * @param findings The analysis findings.
+ * @param files The processed attachments.
+ * @param storiesPerChunk How many stories each chunk covers.
+ * @returns The chunks in PRD order; empty when no stories were detected.
+ */
+export const splitPrdIntoStoryChunks = (
+  prdText: string,
+  requirements: RequirementModel,
+  findings: AnalysisFinding[],
+  files: FileData[],
+  storiesPerChunk: number
+): PrdChunk[] => {
+  const lines = prdText.split('\n');
+  const storyIds = getStoryIds(requirements);
+  if (storyIds.length === 0) return [];
+  const lineStories = assignLinesToStories(lines.length, requirements);
+
+  const size = Math.max(1, Math.floor(storiesPerChunk));
+  const groups: string[][] = [];
+  for (let i = 0; i < storyIds.length; i += size) {
+    groups.push(storyIds.slice(i, i + size));
+  }
+
+  const storyLinesByGroup = groups.map(group =>
+    lines.filter((_, i) => lineStories[i].some(id => group.includes(id)))
+  );
+  const filesMatchingAnyStory = new Set(
+    files.filter(file => groups.some((group, g) => isRelevantFile(file, group, storyLinesByGroup[g]))).map(file => file.tempId)
+  );
+
+  return groups.map((group, index) => {
+    const chunkText = lines
+      .filter((_, i) => lineStories[i].length === 0 || lineStories[i].some(id => group.includes(id)))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    return {
+      index,
+      storyIds: group,
+      prdText: chunkText,
+      requirements: filterRequirementModel(requirements, group),
+      findings: findings.filter(finding => {
+        const referenced = extractStoryIds(finding.source_story_id || '');
+        return referenced.length === 0 || referenced.some(id => group.includes(id));
+      }),
+      files: files.filter(file => !filesMatchingAnyStory.has(file.tempId) || isRelevantFile(file, group, storyLinesByGroup[index])),
+    };
+  });
+};
+
+/**
+ * Splits the operations of an API specification into chunks of `operationsPerChunk`, numbered on
+ * from the PRD chunks. Each carries the PRD's shared context (the lines that belong to no story)
+ * and the findings about its operations or about no story, but no attachments.
+ * @param firstIndex The index of the first API chunk, i.e. the number of PRD chunks.
+ * @returns The chunks in specification order.
+ */
+export const splitApiSpecIntoChunks = (
+  spec: ApiSpec,
+  prdText: string,
+  requirements: RequirementModel,
+  findings: AnalysisFinding[],
+  operationsPerChunk: number,
+  firstIndex: number
+): PrdChunk[] => {
+  const lines = prdText.split('\n');
+  const lineStories = assignLinesToStories(lines.length, requirements);
+  const sharedText = lines.filter((_, i) => lineStories[i].length === 0).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  const operationIds = spec.operations.map(operation => operation.operationId);
+
+  const size = Math.max(1, Math.floor(operationsPerChunk));
+  const chunks: PrdChunk[] = [];
+  for (let i = 0; i < operationIds.length; i += size) {
+    const group = operationIds.slice(i, i + size);
+    chunks.push({
+      index: firstIndex + chunks.length,
+      storyIds: group,
+      prdText: sharedText,
+      requirements: filterRequirementModel(requirements, []),
+      findings: findings.filter(finding => {
+        const referenced = extractReferencedIds(finding.source_story_id || '', operationIds);
+        return referenced.length === 0 || referenced.some(id => group.includes(id));
+      }),
+      files: [],
+      apiSpec: filterApiSpec(spec, group),
+    });
+  }
+  return chunks;
+};
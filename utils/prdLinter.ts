@@ -0,0 +1,185 @@
+// utils/prdLinter.ts
+
+import type { AnalysisFinding, FindingSeverity, PrdLintOptions, PrdLintRuleId, Requirement, RequirementModel } from '../types';
+import { DEFAULT_PRD_LINT_OPTIONS } from '../constants';
+import { findIdDefinitions } from './requirementParser';
+import { extractStoryIds } from './traceability';
+
+interface PrdLintRule {
+  id: PrdLintRuleId;
+  name: string; // Also the category of its findings
+  description: string;
+  severity: FindingSeverity;
+}
+
+export const PRD_LINT_RULES: PrdLintRule[] = [
+  { id: 'missing-acceptance-criteria', name: 'Missing Acceptance Criteria', description: 'Stories without any acceptance criteria.', severity: 'high' },
+  { id: 'unknown-story-reference', name: 'Unknown Story Reference', description: 'Acceptance criteria that refer to a story ID the PRD does not define.', severity: 'high' },
+  { id: 'vague-term', name: 'Vague Wording', description: 'Words like "fast", "user-friendly" or "etc." that cannot be tested.', severity: 'low' },
+  { id: 'unquantified-nfr', name: 'Unquantified Non-Functional Requirement', description: 'Performance, availability or scalability requirements without a target such as "200 ms" or "99.9%".', severity: 'medium' },
+  { id: 'missing-error-state', name: 'Missing Error State', description: 'Stories whose criteria never say what happens when something goes wrong.', severity: 'medium' },
+  { id: 'duplicate-id', name: 'Duplicate ID', description: 'Story IDs defined twice, or criterion IDs repeated within a story.', severity: 'high' },
+];
+
+// Mentions of qualities that only become testable with a target.
+const NFR_PATTERN = /\b(performance|performant|response times?|latency|load(?:ing)? times?|page loads?|throughput|uptime|availability|highly available|scalab(?:le|ility)|concurrent(?:ly)?|capacity|reliab(?:le|ility))\b/i;
+// A target is a number with a unit: "200 ms", "99.9%", "500 req/s", "10,000 concurrent users".
+const QUANTITY_PATTERN = /(?:\d+(?:[.,]\d+)*|\b(?:one|two|three|four|five|six|seven|eight|nine|ten|twenty|thirty|hundred|thousand|million))\s*(?:%|percent\b|ms\b|milliseconds?\b|s\b|secs?\b|seconds?\b|min(?:ute)?s?\b|h\b|hours?\b|days?\b|req(?:uest)?s?\s*\/\s*(?:s|sec|second|min|minute)\b|requests? per (?:second|minute)\b|rps\b|tps\b|transactions? per second\b|(?:concurrent |simultaneous |active )?users\b|[KMGT]B\b)/i;
+const AC_REFERENCE_PATTERN = /\bAC[-\s]?\d+(?:\.\d+)?\b/gi;
+const ERROR_STATE_PATTERN = /\b(errors?|fail(?:s|ed|ure|ures)?|invalid|reject(?:s|ed)?|den(?:y|ied)|unavailable|time(?:s|d)? ?out|exceptions?|cannot|can't|unable|incorrect|wrong|not found|expired|empty|offline|retry)\b/i;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Story and criterion IDs contain digits that are not targets, e.g. "AC-1 (for US-101): ...".
+const stripRequirementIds = (text: string): string =>
+  extractStoryIds(text)
+    .reduce((stripped, id) => stripped.replace(new RegExp(`\\b${escapeRegExp(id)}\\b`, 'gi'), ' '), text)
+    .replace(AC_REFERENCE_PATTERN, ' ');
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+/** Reads the lint settings from the environment (see vite.config.ts), falling back to the defaults. */
+export const getPrdLintOptions = (): PrdLintOptions => {
+  const rules = parseList(process.env.PRD_LINT_RULES).map(rule => rule.toLowerCase());
+  const vagueTerms = parseList(process.env.PRD_LINT_VAGUE_TERMS);
+  return {
+    rules: rules.length === 0
+      ? DEFAULT_PRD_LINT_OPTIONS.rules
+      : PRD_LINT_RULES.map(rule => rule.id).filter(id => rules.includes(id)), // "none" matches no rule
+    vagueTerms: vagueTerms.length > 0 ? vagueTerms : DEFAULT_PRD_LINT_OPTIONS.vagueTerms,
+  };
+};
+
+const joinLines = (lines: number[]): string =>
+  lines.length === 1 ? `line ${lines[0]}` : `lines ${lines.slice(0, -1).join(', ')} and ${lines[lines.length - 1]}`;
+
+/** The story a PRD line belongs to: the criterion's story, or the story whose lines include it. */
+const findStoryAtLine = (requirements: Requirement[], line: number, storyIds: string[]): string | undefined => {
+  const containing = requirements.filter(r => r.startLine <= line && r.endLine >= line);
+  const criterion = containing.find(r => r.kind === 'acceptanceCriterion' && r.parentId && storyIds.includes(r.parentId));
+  return criterion?.parentId ?? containing.find(r => r.kind === 'story')?.id;
+};
+
+type LintResult = Pick<AnalysisFinding, 'description' | 'source_story_id'>;
+
+const lintMissingCriteria = (model: RequirementModel): LintResult[] =>
+  model.requirements
+    .filter(story => story.kind === 'story' && !model.requirements.some(r => r.kind === 'acceptanceCriterion' && r.parentId === story.id))
+    .map(story => ({
+      description: `${story.id} (line ${story.startLine}) has no acceptance criteria, so there is nothing to verify it against.`,
+      source_story_id: story.id,
+    }));
+
+const getIdPrefix = (id: string): string => id.slice(0, id.lastIndexOf('-'));
+
+const lintUnknownReferences = (model: RequirementModel, storyIds: string[]): LintResult[] => {
+  if (storyIds.length === 0) return []; // Without stories every reference would be unknown
+  // Only IDs with the prefix of this PRD's stories are references; "iOS-17" or "Windows-11" are not.
+  const storyPrefixes = new Set(storyIds.map(getIdPrefix));
+  return model.requirements.flatMap(criterion => {
+    if (criterion.kind !== 'acceptanceCriterion') return [];
+    const referenced = [...(criterion.parentId ? [criterion.parentId] : []), ...extractStoryIds(criterion.text)];
+    const unknown = Array.from(new Set(referenced))
+      .filter(id => id !== criterion.id && !storyIds.includes(id) && storyPrefixes.has(getIdPrefix(id)));
+    if (unknown.length === 0) return [];
+    const label = criterion.inferredId ? 'The acceptance criterion' : criterion.id;
+    return [{
+      description: `${label} on line ${criterion.startLine} refers to ${unknown.join(', ')}, which ${unknown.length === 1 ? 'is not a story' : 'are not stories'} in this PRD.`,
+      ...(criterion.parentId && storyIds.includes(criterion.parentId) && { source_story_id: criterion.parentId }),
+    }];
+  });
+};
+
+const lintVagueTerms = (prdText: string, model: RequirementModel, storyIds: string[], vagueTerms: string[]): LintResult[] => {
+  const patterns = vagueTerms.map(term => ({ term, pattern: new RegExp(`(?<![\\w-])${escapeRegExp(term)}(?![\\w-])`, 'i') }));
+  return prdText.split('\n').flatMap((text, index) => {
+    const found = patterns.filter(({ pattern }) => pattern.test(text)).map(({ term }) => `"${term}"`);
+    if (found.length === 0) return [];
+    const storyId = findStoryAtLine(model.requirements, index + 1, storyIds);
+    return [{
+      description: `Line ${index + 1} uses vague wording (${found.join(', ')}) that cannot be tested. State the measurable behavior instead.`,
+      ...(storyId && { source_story_id: storyId }),
+    }];
+  });
+};
+
+const lintUnquantifiedNfrs = (prdText: string, model: RequirementModel, storyIds: string[]): LintResult[] =>
+  prdText.split('\n').flatMap((text, index) => {
+    const match = text.match(NFR_PATTERN);
+    if (!match || QUANTITY_PATTERN.test(stripRequirementIds(text))) return [];
+    const storyId = findStoryAtLine(model.requirements, index + 1, storyIds);
+    return [{
+      description: `Line ${index + 1} mentions ${match[1].toLowerCase()} without a measurable target, such as a time limit, percentile, percentage or load.`,
+      ...(storyId && { source_story_id: storyId }),
+    }];
+  });
+
+// Stories without criteria are left to the missing-acceptance-criteria rule.
+const lintMissingErrorStates = (model: RequirementModel): LintResult[] =>
+  model.requirements.flatMap(story => {
+    if (story.kind !== 'story') return [];
+    const criteria = model.requirements.filter(r => r.kind === 'acceptanceCriterion' && r.parentId === story.id);
+    if (criteria.length === 0 || [story, ...criteria].some(r => ERROR_STATE_PATTERN.test(r.text))) return [];
+    return [{
+      description: `Neither ${story.id} nor its acceptance criteria say what happens when something goes wrong, e.g. invalid input, a failed request, a timeout or an empty result.`,
+      source_story_id: story.id,
+    }];
+  });
+
+const lintDuplicateIds = (prdText: string, model: RequirementModel): LintResult[] => {
+  const storyLines = new Map<string, number[]>();
+  findIdDefinitions(prdText).filter(d => d.kind === 'story').forEach(d => storyLines.set(d.id, [...(storyLines.get(d.id) || []), d.line]));
+  const stories = Array.from(storyLines).filter(([, lines]) => lines.length > 1).map(([id, lines]) => ({
+    description: `${id} is defined on ${joinLines(lines)}. Test cases and the traceability matrix only use the first definition.`,
+    source_story_id: id,
+  }));
+
+  // Criterion IDs only need to be unique within their story (AC-1 of US-101 and AC-1 of US-102 are fine).
+  const criterionLines = new Map<string, { id: string; parentId?: string; lines: number[] }>();
+  model.requirements.forEach(r => {
+    if (r.kind !== 'acceptanceCriterion' || r.inferredId) return;
+    const key = `${r.parentId || ''}/${r.id}`;
+    const entry = criterionLines.get(key) || { id: r.id, parentId: r.parentId, lines: [] };
+    entry.lines.push(r.startLine);
+    criterionLines.set(key, entry);
+  });
+  const criteria = Array.from(criterionLines.values()).filter(entry => entry.lines.length > 1).map(({ id, parentId, lines }) => ({
+    description: `${id} is used for more than one acceptance criterion${parentId ? ` of ${parentId}` : ''} (${joinLines(lines)}).`,
+    ...(parentId && { source_story_id: parentId }),
+  }));
+  return [...stories, ...criteria];
+};
+
+/**
+ * Checks a PRD against deterministic rules, e.g. stories without acceptance criteria or vague wording.
+ * Runs instantly and gives the same result for the same text, unlike the AI analysis.
+ * @param prdText The PRD text; line numbers in the findings refer to it.
+ * @param model The requirements parsed from it.
+ * @param options The enabled rules and the vague terms; see getPrdLintOptions().
+ * @returns Pending findings with `source: 'rule'`, in rule order and without IDs.
+ */
+export const lintPrd = (prdText: string, model: RequirementModel, options: PrdLintOptions = getPrdLintOptions()): AnalysisFinding[] => {
+  if (!prdText.trim()) return [];
+  const storyIds = model.requirements.filter(r => r.kind === 'story').map(r => r.id);
+  const run = (id: PrdLintRuleId): LintResult[] => {
+    switch (id) {
+      case 'missing-acceptance-criteria': return lintMissingCriteria(model);
+      case 'unknown-story-reference': return lintUnknownReferences(model, storyIds);
+      case 'vague-term': return lintVagueTerms(prdText, model, storyIds, options.vagueTerms);
+      case 'unquantified-nfr': return lintUnquantifiedNfrs(prdText, model, storyIds);
+      case 'missing-error-state': return lintMissingErrorStates(model);
+      case 'duplicate-id': return lintDuplicateIds(prdText, model);
+    }
+  };
+  return PRD_LINT_RULES.filter(rule => options.rules.includes(rule.id)).flatMap(rule =>
+    run(rule.id).map(result => ({
+      category: rule.name,
+      ...result,
+      severity: rule.severity,
+      status: 'pending' as const,
+      source: 'rule' as const,
+      ruleId: rule.id,
+    }))
+  );
+};
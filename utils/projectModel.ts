@@ -0,0 +1,166 @@
+// utils/projectModel.ts
+
+import type { ApiSpec, FeatureScope, FigmaDesign, InputData, ProjectFeature, TestCase, TraceabilityEntry } from '../types';
+import { parseRequirements } from './requirementParser';
+import { extractReferencedIds } from './traceability';
+
+/** Creates an empty feature; `number` is its 1-based position, used for the default name. */
+export const createFeature = (number: number): ProjectFeature => ({
+  id: `feature-${Date.now()}-${number}`,
+  name: `Feature ${number}`,
+  prdText: '',
+  files: [],
+  figmaUrl: '',
+  figmaDesign: null,
+  apiSpec: null,
+});
+
+export const hasFeatureInputs = (feature: ProjectFeature): boolean =>
+  Boolean(feature.prdText.trim() || feature.files.length > 0 || feature.figmaUrl.trim() || feature.figmaDesign || feature.apiSpec);
+
+// Several specs become one; an operationId used by two different endpoints gets a number so each stays addressable.
+const mergeApiSpecs = (specs: Array<{ feature: ProjectFeature; spec: ApiSpec }>): { spec: ApiSpec; operationIds: Map<string, string[]> } => {
+  const operations: ApiSpec['operations'] = [];
+  const operationIds = new Map<string, string[]>();
+  specs.forEach(({ feature, spec }) => {
+    const ids: string[] = [];
+    spec.operations.forEach(operation => {
+      const existing = operations.find(o => o.operationId === operation.operationId);
+      if (existing && existing.method === operation.method && existing.path === operation.path) return; // Shared endpoint
+      let operationId = operation.operationId;
+      for (let n = 2; operations.some(o => o.operationId === operationId); n++) operationId = `${operation.operationId}${n}`;
+      operations.push({ ...operation, operationId, tags: [feature.name, ...operation.tags] });
+      ids.push(operationId);
+    });
+    operationIds.set(feature.id, ids);
+  });
+  const unique = (values: string[]) => Array.from(new Set(values));
+  return {
+    spec: {
+      fileName: specs.map(({ spec }) => spec.fileName).join(', '),
+      title: specs.map(({ spec }) => spec.title).join(' + '),
+      version: unique(specs.map(({ spec }) => spec.version).filter(Boolean)).join(', '),
+      format: unique(specs.map(({ spec }) => spec.format)).join(', '),
+      servers: unique(specs.flatMap(({ spec }) => spec.servers)),
+      securitySchemes: specs.flatMap(({ spec }) => spec.securitySchemes)
+        .filter((scheme, i, all) => all.findIndex(s => s.name === scheme.name) === i),
+      operations,
+      schemas: specs.flatMap(({ spec }) => spec.schemas)
+        .filter((schema, i, all) => all.findIndex(s => s.name === schema.name) === i),
+    },
+    operationIds,
+  };
+};
+
+const mergeFigmaDesigns = (designs: Array<{ feature: ProjectFeature; design: FigmaDesign }>): FigmaDesign => ({
+  fileName: designs.map(({ design }) => design.fileName).join(', '),
+  documentName: designs.map(({ design }) => design.documentName).join(' + '),
+  frames: designs.flatMap(({ feature, design }) => design.frames.map(frame => ({ ...frame, page: `${feature.name} / ${frame.page}` }))),
+});
+
+/**
+ * Combines features into the inputs of one run. A single feature is passed through unchanged.
+ * Several are merged: each PRD goes under a `# Feature: <name>` heading, attachments and frames are
+ * prefixed with the feature name, and API specifications are merged into one. `features` then records
+ * which story IDs came from which feature, so results can be grouped by feature.
+ * @param projectFeatures The features to include, in project order. Blank names get a default.
+ */
+export const buildProjectInput = (projectFeatures: ProjectFeature[]): InputData => {
+  const features = projectFeatures.map((feature, i) => ({ ...feature, name: feature.name.trim() || `Feature ${i + 1}` }));
+  if (features.length === 1) {
+    const [feature] = features;
+    return {
+      prdText: feature.prdText,
+      files: feature.files,
+      figmaUrl: feature.figmaUrl,
+      figmaDesign: feature.figmaDesign ?? null,
+      apiSpec: feature.apiSpec ?? null,
+      requirements: parseRequirements(feature.prdText),
+    };
+  }
+
+  // Line ranges (1-based, inclusive) of each feature's section in the combined PRD
+  const sections: Array<{ feature: ProjectFeature; startLine: number; endLine: number }> = [];
+  const blocks: string[] = [];
+  let nextLine = 1;
+  features.forEach(feature => {
+    const block = `# Feature: ${feature.name}${feature.prdText.trim() ? `\n\n${feature.prdText.trim()}` : ''}`;
+    const lineCount = block.split('\n').length;
+    sections.push({ feature, startLine: nextLine, endLine: nextLine + lineCount - 1 });
+    blocks.push(block);
+    nextLine += lineCount + 1; // The blank line between sections
+  });
+  const prdText = blocks.join('\n\n');
+  const requirements = parseRequirements(prdText);
+
+  const designs = features.flatMap(feature => (feature.figmaDesign ? [{ feature, design: feature.figmaDesign }] : []));
+  const specs = features.flatMap(feature => (feature.apiSpec ? [{ feature, spec: feature.apiSpec }] : []));
+  const mergedApi = specs.length > 0 ? mergeApiSpecs(specs) : null;
+
+  return {
+    prdText,
+    files: features.flatMap(feature => feature.files.map(file => ({ ...file, name: `${feature.name}: ${file.name}` }))),
+    figmaUrl: features.filter(f => f.figmaUrl.trim()).map(f => `${f.name}: ${f.figmaUrl.trim()}`).join('; '),
+    figmaDesign: designs.length === 0 ? null : designs.length === 1 ? designs[0].design : mergeFigmaDesigns(designs),
+    apiSpec: mergedApi?.spec ?? null,
+    requirements,
+    features: sections.map(({ feature, startLine, endLine }) => ({
+      id: feature.id,
+      name: feature.name,
+      storyIds: [
+        ...requirements.requirements.filter(r => r.kind === 'story' && r.startLine >= startLine && r.startLine <= endLine).map(r => r.id),
+        ...(mergedApi?.operationIds.get(feature.id) || []),
+      ],
+    })),
+  };
+};
+
+/**
+ * Lists story IDs that appear in more than one feature's PRD. Their test cases can only be
+ * attributed to the first of those features.
+ */
+export const findSharedStoryIds = (features: ProjectFeature[]): string[] => {
+  const owners = new Map<string, number>();
+  features.forEach(feature => {
+    new Set(parseRequirements(feature.prdText).requirements.filter(r => r.kind === 'story').map(r => r.id))
+      .forEach(id => owners.set(id, (owners.get(id) || 0) + 1));
+  });
+  return Array.from(owners).filter(([, count]) => count > 1).map(([id]) => id);
+};
+
+export interface FeatureGroup<T> {
+  feature: FeatureScope | null; // null collects the items no feature claims
+  items: T[];
+}
+
+/**
+ * Groups items by the first feature owning one of the story IDs they reference, in feature order.
+ * Items referencing no feature's stories are collected in a trailing group without a feature.
+ * @param getStoryText The text holding an item's story references, e.g. a test case's Story ID cell.
+ */
+const groupByFeature = <T>(items: T[], features: FeatureScope[], getStoryText: (item: T) => string): FeatureGroup<T>[] => {
+  const knownIds = features.flatMap(feature => feature.storyIds);
+  const groups: FeatureGroup<T>[] = [...features.map(feature => ({ feature, items: [] as T[] })), { feature: null, items: [] }];
+  items.forEach(item => {
+    const referenced = extractReferencedIds(getStoryText(item), knownIds);
+    const group = groups.find(g => g.feature && referenced.some(id => g.feature!.storyIds.includes(id))) || groups[groups.length - 1];
+    group.items.push(item);
+  });
+  return groups.filter(group => group.feature || group.items.length > 0);
+};
+
+export const groupTestCasesByFeature = (testCases: TestCase[], features: FeatureScope[]): FeatureGroup<TestCase>[] =>
+  groupByFeature(testCases, features, tc => tc.storyId);
+
+export const groupTraceabilityByFeature = (entries: TraceabilityEntry[], features: FeatureScope[]): FeatureGroup<TraceabilityEntry>[] =>
+  groupByFeature(entries, features, entry => entry.story_id);
+
+/** The feature names of each test case, for exports; empty when the inputs had no features. */
+export const getTestCaseFeatureNames = (testCases: TestCase[], features: FeatureScope[] = []): Map<string, string> => {
+  const names = new Map<string, string>();
+  if (features.length === 0) return names;
+  groupTestCasesByFeature(testCases, features).forEach(group => {
+    if (group.feature) group.items.forEach(tc => names.set(tc.id, group.feature!.name));
+  });
+  return names;
+};
@@ -0,0 +1,303 @@
+// utils/requirementParser.ts
+
+import type { Requirement, RequirementModel, RequirementSourceFormat } from '../types';
+import { extractStoryIds } from './traceability';
+
+interface LineItem {
+  kind: 'heading' | 'bullet' | 'plain';
+  level: number; // Heading depth (1-6), or indentation for bullets and plain lines
+  content: string;
+}
+
+type Section = 'stories' | 'criteria' | 'other' | null;
+
+// `US-101: ...`, `**US-101** - ...`, `[AC-2] (for US-101): ...`. Story IDs must be uppercase like
+// issue keys, so bullets such as `Phase-1: internal beta` are not stories; `ac-2` is still a criterion.
+const LEADING_ID_PATTERN = /^\[?([Aa][Cc][-\s]?\d+(?:\.\d+)?|[A-Z][A-Z0-9]{1,9}-\d+(?:\.\d+)?)\]?\s*(?:\(([^)]*)\))?\s*[:.\-–—]?\s*(.*)$/;
+const AC_ID_PATTERN = /^AC[-\s]?\d+(?:\.\d+)?$/i;
+const FOR_STORY_PATTERN = /\(\s*for\s+([^)]+)\)/i;
+const GHERKIN_STEP_PATTERN = /^(given|when|then)\b/i;
+const CRITERIA_LABEL_PATTERN = /^(acceptance criteria|criteria|acs?)$/i;
+const STORIES_LABEL_PATTERN = /^(user stories|stories|requirements)$/i;
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?$/;
+
+const parseLine = (line: string): LineItem => {
+  const heading = line.match(/^(#{1,6})\s+(.*)$/);
+  if (heading) return { kind: 'heading', level: heading[1].length, content: heading[2].trim() };
+  const bullet = line.match(/^(\s*)(?:[-*+•]|\d+[.)])\s+(.*)$/);
+  if (bullet) return { kind: 'bullet', level: bullet[1].length, content: bullet[2].trim() };
+  return { kind: 'plain', level: line.length - line.trimStart().length, content: line.trim() };
+};
+
+// Bold / italic wrappers around the ID (`**US-101**: ...`) would hide it from the ID pattern.
+const stripEmphasis = (content: string): string =>
+  content.replace(/^(\*\*|__|\*|_)(.+?)\1/, '$2').replace(/^(\*\*|__)\s*/, '').trim();
+
+/** Splits `US-101: Title` into its ID and title when the line starts with a story or AC ID. */
+const parseLeadingId = (content: string): { id: string; kind: Requirement['kind']; parenthetical?: string; title: string } | null => {
+  const match = stripEmphasis(content).match(LEADING_ID_PATTERN);
+  if (!match) return null;
+  const id = match[1].toUpperCase().replace(/\s/, '-');
+  const rest = match[3].replace(/^(\*\*|__)\s*/, '').trim();
+  if (AC_ID_PATTERN.test(id)) {
+    return { id: id.replace(/^AC(?=\d)/, 'AC-'), kind: 'acceptanceCriterion', parenthetical: match[2], title: rest };
+  }
+  if (extractStoryIds(id)[0] !== id) return null;
+  // A parenthetical after a story ID (e.g. a priority) is part of its title.
+  return { id, kind: 'story', title: match[2] ? `(${match[2]}) ${rest}`.trim() : rest };
+};
+
+// Section labels: "Acceptance Criteria:", "**User Stories**", "## Acceptance criteria".
+const detectSection = (content: string): Section | undefined => {
+  const label = stripEmphasis(content).replace(/[*_:]+$/g, '').trim();
+  if (CRITERIA_LABEL_PATTERN.test(label)) return 'criteria';
+  if (STORIES_LABEL_PATTERN.test(label)) return 'stories';
+  return /:$/.test(content) && content.length <= 60 ? 'other' : undefined;
+};
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim());
+
+// Table cells hold several criteria separated by <br> tags or semicolons before an AC ID.
+const splitCriteriaCell = (cell: string): string[] =>
+  cell.split(/<br\s*\/?>|;\s*(?=AC[-\s]?\d)|\s•\s/i).map(part => part.replace(/^[-*•]\s*/, '').trim()).filter(Boolean);
+
+/**
+ * Detects user stories and acceptance criteria in a PRD, with their parent links and line ranges.
+ * Supports bulleted or plain `US-101: ...` lines, `## US-101 ...` headings (criteria below them
+ * belong to that story) and Markdown tables with ID / story / acceptance criteria columns.
+ * Criteria are linked through `(for US-101)`-style references, nesting under a story, or the
+ * story heading they appear under; criteria without an ID get one derived from their story.
+ * @param prdText The PRD text.
+ * @returns The requirements in PRD order and the layouts they were found in.
+ */
+export const parseRequirements = (prdText: string): RequirementModel => {
+  const lines = prdText.split('\n');
+  const requirements: Requirement[] = [];
+  const formats = new Set<RequirementSourceFormat>();
+  const inferredCounts = new Map<string, number>();
+
+  let section: Section = null;
+  let headingStory: { requirement: Requirement; level: number } | null = null;
+  let listStory: { requirement: Requirement; indent: number } | null = null;
+  let current: { requirement: Requirement; indent: number } | null = null;
+
+  const hasStory = (id: string) => requirements.some(r => r.kind === 'story' && r.id === id);
+
+  // A criterion belongs to the story named in a `(for US-101)` reference, else the story it is nested
+  // or written under. Only then to a story its text mentions, since that may be a product (iOS-17).
+  const findParentStory = (text: string, contextStory: string | undefined, parenthetical?: string): string | undefined =>
+    extractStoryIds(parenthetical || '')[0]
+      ?? extractStoryIds(text.match(FOR_STORY_PATTERN)?.[1] || '')[0]
+      ?? contextStory
+      ?? extractStoryIds(text).find(hasStory);
+
+  const add = (requirement: Requirement): Requirement => {
+    requirements.push(requirement);
+    return requirement;
+  };
+
+  const addCriterion = (lineNo: number, title: string, parentId: string | undefined, id?: string): Requirement => {
+    let inferredId = false;
+    if (!id) {
+      inferredId = true;
+      if (parentId) {
+        const n = (inferredCounts.get(parentId) || 0) + 1;
+        inferredCounts.set(parentId, n);
+        id = `${parentId}-AC${n}`;
+      } else {
+        id = `AC-L${lineNo}`;
+      }
+    }
+    return add({
+      id,
+      kind: 'acceptanceCriterion',
+      title,
+      text: title,
+      ...(parentId && { parentId }),
+      startLine: lineNo,
+      endLine: lineNo,
+      ...(inferredId && { inferredId }),
+    });
+  };
+
+  // A heading story spans every line up to the next heading at its level or above.
+  const closeHeadingStory = (beforeIndex: number) => {
+    if (!headingStory) return;
+    let end = beforeIndex;
+    while (end > headingStory.requirement.startLine && !lines[end - 1].trim()) end--;
+    headingStory.requirement.endLine = end;
+    headingStory.requirement.text = lines.slice(headingStory.requirement.startLine - 1, end).join('\n').trim();
+    headingStory = null;
+  };
+
+  const parseTable = (start: number): number => {
+    const header = splitTableRow(lines[start]).map(cell => cell.toLowerCase());
+    const criteriaColumn = header.findIndex(cell => /acceptance|criteria|^acs?$/.test(cell));
+    const titleColumn = header.findIndex((cell, i) => i !== criteriaColumn && /title|summary|story|description|requirement|name/.test(cell) && !/\bid\b|key/.test(cell));
+    let end = start + 2;
+    for (; end < lines.length && lines[end].trim().startsWith('|'); end++) {
+      const cells = splitTableRow(lines[end]);
+      const idColumn = cells.findIndex(cell => parseLeadingId(cell) !== null);
+      if (idColumn === -1) continue;
+      const lead = parseLeadingId(cells[idColumn])!;
+      const lineNo = end + 1;
+      formats.add('table');
+
+      if (lead.kind === 'story') {
+        if (hasStory(lead.id)) continue;
+        const titleCell = titleColumn !== -1 && titleColumn !== idColumn ? cells[titleColumn] : cells.find((_, i) => i !== idColumn && i !== criteriaColumn);
+        const title = (lead.title || titleCell || '').trim();
+        add({ id: lead.id, kind: 'story', title, text: cells.filter(Boolean).join(' | '), startLine: lineNo, endLine: lineNo });
+        if (criteriaColumn !== -1 && criteriaColumn !== idColumn) {
+          splitCriteriaCell(cells[criteriaColumn] || '').forEach(part => {
+            const criterion = parseLeadingId(part);
+            if (criterion?.kind === 'acceptanceCriterion') addCriterion(lineNo, criterion.title, lead.id, criterion.id);
+            else addCriterion(lineNo, part, lead.id);
+          });
+        }
+      } else {
+        const parentId = cells.flatMap((cell, i) => (i === idColumn ? [] : extractStoryIds(cell)))[0]
+          ?? extractStoryIds(lead.parenthetical || '')[0];
+        const title = lead.title || cells.find((_, i) => i !== idColumn && !extractStoryIds(cells[i]).length) || '';
+        addCriterion(lineNo, title, parentId, lead.id);
+      }
+    }
+    return end;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const raw = lines[index];
+    const lineNo = index + 1;
+
+    if (raw.trim().startsWith('|') && TABLE_SEPARATOR_PATTERN.test((lines[index + 1] || '').trim())) {
+      current = null;
+      index = parseTable(index) - 1;
+      continue;
+    }
+    if (!raw.trim()) {
+      current = null;
+      continue;
+    }
+
+    const item = parseLine(raw);
+    const lead = parseLeadingId(item.content);
+
+    if (item.kind === 'heading') {
+      current = null;
+      listStory = null;
+      if (headingStory && item.level <= headingStory.level) closeHeadingStory(index);
+      if (lead?.kind === 'story' && !hasStory(lead.id)) {
+        formats.add('heading');
+        const requirement = add({ id: lead.id, kind: 'story', title: lead.title, text: item.content, startLine: lineNo, endLine: lineNo });
+        headingStory = { requirement, level: item.level };
+        section = null;
+        continue;
+      }
+      if (lead?.kind === 'acceptanceCriterion') {
+        const parentId = findParentStory(lead.title, headingStory?.requirement.id, lead.parenthetical);
+        current = { requirement: addCriterion(lineNo, lead.title, parentId, lead.id), indent: -1 };
+        continue;
+      }
+      section = detectSection(`${item.content}:`) ?? 'other';
+      continue;
+    }
+
+    if (lead?.kind === 'story' && !hasStory(lead.id)) {
+      formats.add('list');
+      const requirement = add({ id: lead.id, kind: 'story', title: lead.title, text: item.content, startLine: lineNo, endLine: lineNo });
+      listStory = { requirement, indent: item.level };
+      current = { requirement, indent: item.level };
+      continue;
+    }
+
+    const nestedStory = listStory && item.kind === 'bullet' && item.level > listStory.indent ? listStory.requirement.id : undefined;
+    const contextStory = nestedStory ?? headingStory?.requirement.id;
+
+    if (lead?.kind === 'acceptanceCriterion') {
+      const parentId = findParentStory(lead.title, contextStory, lead.parenthetical);
+      current = { requirement: addCriterion(lineNo, lead.title, parentId, lead.id), indent: item.level };
+      continue;
+    }
+
+    const label = detectSection(item.content);
+    // Other bullets ending in a colon are content, but `- Acceptance Criteria:` is a label even as a bullet.
+    if (label && (item.kind !== 'bullet' || label === 'criteria')) {
+      section = label;
+      current = null;
+      if (label !== 'criteria') listStory = null;
+      continue;
+    }
+
+    // Criteria without an ID: bullets in a criteria section or nested under a story, or Gherkin-style lines.
+    const looksLikeCriterion = GHERKIN_STEP_PATTERN.test(item.content)
+      || (item.kind === 'bullet' && (section === 'criteria' || nestedStory !== undefined));
+    const continues = current && (item.level > current.indent || (item.kind === 'plain' && !GHERKIN_STEP_PATTERN.test(item.content)));
+    if (looksLikeCriterion && !(continues && (item.kind === 'plain' || current?.requirement.kind === 'acceptanceCriterion')) && (section === 'criteria' || contextStory)) {
+      const parentId = findParentStory(item.content, contextStory);
+      current = { requirement: addCriterion(lineNo, item.content, parentId), indent: item.level };
+      continue;
+    }
+
+    if (current && continues) {
+      current.requirement.endLine = lineNo;
+      current.requirement.text += `\n${item.content}`;
+      if (!current.requirement.title) current.requirement.title = item.content;
+    } else {
+      current = null;
+    }
+  }
+  closeHeadingStory(lines.length);
+
+  return { requirements, formats: Array.from(formats) };
+};
+
+/** The IDs of the detected user stories, in PRD order. */
+export const getStoryIds = (model: RequirementModel): string[] =>
+  model.requirements.filter(r => r.kind === 'story').map(r => r.id);
+
+/**
+ * Every line that introduces a story or criterion by its ID, in a list, heading or table row.
+ * Unlike parseRequirements this keeps repeated story IDs, so duplicates can be reported.
+ */
+export const findIdDefinitions = (prdText: string): Array<{ id: string; kind: Requirement['kind']; line: number }> =>
+  prdText.split('\n').flatMap((raw, index) => {
+    const content = raw.trim().startsWith('|')
+      ? splitTableRow(raw).find(cell => parseLeadingId(cell) !== null)
+      : parseLine(raw).content;
+    const lead = content ? parseLeadingId(content) : null;
+    return lead ? [{ id: lead.id, kind: lead.kind, line: index + 1 }] : [];
+  });
+
+/** Acceptance criteria the parser could not link to a story. */
+export const getUnlinkedCriteria = (model: RequirementModel): Requirement[] =>
+  model.requirements.filter(r => r.kind === 'acceptanceCriterion' && !r.parentId);
+
+/**
+ * Keeps only the given stories, their criteria and the criteria linked to no story,
+ * e.g. for one chunk of a per-story plan.
+ */
+export const filterRequirementModel = (model: RequirementModel, storyIds: string[]): RequirementModel => ({
+  ...model,
+  requirements: model.requirements.filter(r => storyIds.includes(r.kind === 'story' ? r.id : r.parentId || '') || (r.kind === 'acceptanceCriterion' && !r.parentId)),
+});
+
+/**
+ * Renders the model as a compact outline for prompts, so the model sees the same story and
+ * criterion IDs the traceability matrix is checked against.
+ * @returns The outline, or an empty string when nothing was detected.
+ */
+export const formatRequirementOutline = (model: RequirementModel): string => {
+  const stories = model.requirements.filter(r => r.kind === 'story');
+  if (stories.length === 0) return '';
+  const criteriaOf = (storyId: string) => model.requirements.filter(r => r.kind === 'acceptanceCriterion' && r.parentId === storyId);
+  const lines = stories.flatMap(story => [
+    `- ${story.id}: ${story.title}`,
+    ...criteriaOf(story.id).map(ac => `  - ${ac.inferredId ? 'Criterion' : ac.id}: ${ac.title}`),
+  ]);
+  const unlinked = getUnlinkedCriteria(model);
+  if (unlinked.length > 0) {
+    lines.push('- Acceptance criteria not linked to a story:', ...unlinked.map(ac => `  - ${ac.inferredId ? 'Criterion' : ac.id}: ${ac.title}`));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,70 @@
+// utils/retry.ts
+
+import { ProviderError, StreamInterruptedError, OperationCancelledError, throwIfCancelled } from '../services/providers/types';
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before each retry so callers can surface "retrying in Ns" progress. */
+  onRetry?: (info: { attempt: number; maxRetries: number; delayMs: number; error: unknown }) => void;
+  /** Stops retrying (including mid-backoff) and rejects with an OperationCancelledError once aborted. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRY_OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying; anything else
+ * (bad request, auth, invalid JSON) will fail the same way again.
+ */
+export const isTransientError = (error: unknown): boolean => {
+  // Restarting an interrupted stream would throw away what the user has already seen.
+  if (error instanceof StreamInterruptedError || error instanceof OperationCancelledError) return false;
+  if (error instanceof ProviderError && error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i.test(message);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new OperationCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `fn`, retrying transient failures with exponential backoff and jitter.
+ * @param fn The operation to run.
+ * @param options Retry limits, an optional progress callback and an abort signal.
+ * @returns The result of the first successful attempt.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxRetries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const { signal } = options;
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await fn();
+    } catch (error) {
+      // Providers report aborts in their own ways; normalise them so callers only check one type.
+      throwIfCancelled(signal);
+      if (attempt >= maxRetries || !isTransientError(error)) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+      options.onRetry?.({ attempt: attempt + 1, maxRetries, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,104 @@
+// utils/sceneDetection.ts
+
+import type { VideoFrameOptions } from '../types';
+import { DEFAULT_VIDEO_FRAME_OPTIONS } from '../constants';
+
+// Sampled frames are compared as small grayscale thumbnails of this many pixels per edge.
+export const SIGNATURE_SIZE = 32;
+// Upper bound on the frames decoded for comparison, so long recordings stay fast.
+const MAX_SAMPLES = 120;
+const MIN_SAMPLE_INTERVAL_SECONDS = 0.25;
+
+export interface FrameSample {
+  time: number; // Seconds into the video
+  signature: ArrayLike<number>; // Grayscale values (0-255), SIGNATURE_SIZE × SIGNATURE_SIZE
+}
+
+/** Seconds between the frames sampled for scene detection in a video of `duration` seconds. */
+export const getSampleInterval = (duration: number): number => Math.max(MIN_SAMPLE_INTERVAL_SECONDS, duration / MAX_SAMPLES);
+
+/** Returns the times (in seconds) at which to sample a video of `duration` seconds for scene detection. */
+export const getSampleTimes = (duration: number): number[] => {
+  const interval = getSampleInterval(duration);
+  const times: number[] = [];
+  // Start just after 0, which is often a black frame.
+  for (let time = Math.min(0.1, duration / 2); time < duration; time += interval) {
+    times.push(Math.round(time * 1000) / 1000);
+  }
+  return times;
+};
+
+/** Mean absolute difference between two signatures, from 0 (identical) to 1. */
+export const frameDifference = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / (length * 255);
+};
+
+/**
+ * Chooses keyframes from sampled frames. A sample is kept when it differs from the last kept frame
+ * by more than the scene threshold, which also drops near-duplicates. Above `maxFrames` the biggest
+ * changes win; below `minFrames` the samples least like any kept frame are added.
+ * @returns Indexes into `samples`, in chronological order.
+ */
+export const selectKeyframes = (samples: FrameSample[], options: VideoFrameOptions): number[] => {
+  if (samples.length === 0) return [];
+  const scores = new Map<number, number>([[0, Infinity]]); // The first frame is always kept
+  let last = samples[0];
+  samples.forEach((sample, i) => {
+    if (i === 0) return;
+    const change = frameDifference(sample.signature, last.signature);
+    if (change > options.sceneThreshold) {
+      scores.set(i, change);
+      last = sample;
+    }
+  });
+
+  let selected = Array.from(scores.keys());
+  const maxFrames = Math.max(1, options.maxFrames);
+  if (selected.length > maxFrames) {
+    selected = selected.sort((a, b) => scores.get(b)! - scores.get(a)!).slice(0, maxFrames);
+  }
+
+  const minFrames = Math.min(Math.max(1, options.minFrames), maxFrames, samples.length);
+  while (selected.length < minFrames) {
+    let best = -1;
+    let bestDistance = -1;
+    samples.forEach((sample, i) => {
+      if (selected.includes(i)) return;
+      const distance = Math.min(...selected.map(j => frameDifference(sample.signature, samples[j].signature)));
+      // Ties (e.g. a static video) go to the sample furthest in time from the kept ones.
+      const spread = Math.min(...selected.map(j => Math.abs(sample.time - samples[j].time))) / 1e6;
+      if (distance + spread > bestDistance) {
+        best = i;
+        bestDistance = distance + spread;
+      }
+    });
+    selected.push(best);
+  }
+  return selected.sort((a, b) => a - b);
+};
+
+const parseOption = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Reads the keyframe options from the environment (see vite.config.ts), falling back to the defaults. */
+export const getVideoFrameOptions = (): VideoFrameOptions => ({
+  minFrames: Math.round(parseOption(process.env.VIDEO_MIN_FRAMES, DEFAULT_VIDEO_FRAME_OPTIONS.minFrames)),
+  maxFrames: Math.round(parseOption(process.env.VIDEO_MAX_FRAMES, DEFAULT_VIDEO_FRAME_OPTIONS.maxFrames)),
+  maxDimension: Math.round(parseOption(process.env.VIDEO_FRAME_MAX_DIMENSION, DEFAULT_VIDEO_FRAME_OPTIONS.maxDimension)),
+  sceneThreshold: parseOption(process.env.VIDEO_SCENE_THRESHOLD, DEFAULT_VIDEO_FRAME_OPTIONS.sceneThreshold),
+});
+
+/** Formats a video time as m:ss (or h:mm:ss), e.g. 42.3 → "0:42". */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
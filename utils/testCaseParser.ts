@@ -0,0 +1,205 @@
+// utils/testCaseParser.ts
+
+import type { GeneratedTestCase, TestCaseParseIssue } from '../types';
+
+export interface TestCaseParseResult {
+  testCases: GeneratedTestCase[];
+  issues: TestCaseParseIssue[];
+}
+
+// regionId is optional and only read from structured responses.
+type Field = Exclude<keyof GeneratedTestCase, 'regionId'>;
+
+const FIELD_DEFAULTS: Record<Field, string> = {
+  id: 'N/A',
+  type: 'N/A',
+  summary: 'No summary',
+  preconditions: 'None',
+  steps: 'N/A',
+  expectedResult: 'N/A',
+  storyId: 'N/A',
+  risk: 'N/A',
+};
+
+// Fields a test case is useless without. Rows or items missing them are dropped and reported.
+const REQUIRED_FIELDS: Field[] = ['summary', 'steps'];
+
+const asText = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map(asText).filter(Boolean).join(' → ');
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+};
+
+const fallbackId = (index: number) => `TC-${String(index + 1).padStart(3, '0')}`;
+
+/**
+ * Validates the `test_cases` array returned for TEST_PLAN_RESPONSE_SCHEMA.
+ * Items missing a summary or steps are dropped and reported; other missing fields get defaults,
+ * except the optional `regionId`, which is only kept when present.
+ * @param items The raw `test_cases` value from the model response.
+ */
+export const parseStructuredTestCases = (items: unknown[]): TestCaseParseResult => {
+  const testCases: GeneratedTestCase[] = [];
+  const issues: TestCaseParseIssue[] = [];
+
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object') {
+      issues.push({ row: index + 1, reason: 'Item is not an object.', content: JSON.stringify(item) ?? '' });
+      return;
+    }
+    const raw = item as Record<string, unknown>;
+    const missing = REQUIRED_FIELDS.filter(field => !asText(raw[field]));
+    if (missing.length > 0) {
+      issues.push({ row: index + 1, reason: `Missing required field(s): ${missing.join(', ')}.`, content: JSON.stringify(raw) });
+      return;
+    }
+    const testCase = { ...FIELD_DEFAULTS };
+    (Object.keys(FIELD_DEFAULTS) as Field[]).forEach(field => {
+      testCase[field] = asText(raw[field]) || FIELD_DEFAULTS[field];
+    });
+    if (testCase.id === FIELD_DEFAULTS.id) testCase.id = fallbackId(index);
+    const regionId = asText(raw.regionId);
+    testCases.push(regionId ? { ...testCase, regionId } : testCase);
+  });
+
+  return { testCases, issues };
+};
+
+// Accepted header spellings per field, compared after normalizeHeader().
+const HEADER_ALIASES: Record<Field, string[]> = {
+  id: ['testcaseid', 'tcid', 'testid', 'id'],
+  type: ['testtype', 'type'],
+  summary: ['summary', 'title', 'description', 'testdescription'],
+  preconditions: ['preconditions', 'precondition', 'prerequisites'],
+  steps: ['teststeps', 'steps'],
+  expectedResult: ['expectedresult', 'expectedresults', 'expected', 'expectedoutcome'],
+  storyId: ['storyid', 'userstoryid', 'userstory', 'story', 'requirementid', 'requirement'],
+  risk: ['risktype', 'risk', 'risklevel'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const SEPARATOR_ROW = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+/**
+ * Splits a table row on unescaped pipes that are not inside `code spans`,
+ * keeping empty cells in place so columns never shift.
+ */
+const splitRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\' && line[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      current += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  // Drop the empty cells produced by the leading and trailing pipe.
+  if (line.trim().startsWith('|')) cells.shift();
+  if (line.trim().endsWith('|') && !line.trim().endsWith('\\|')) cells.pop();
+  return cells;
+};
+
+/**
+ * Fallback parser for responses that only contain a Markdown table.
+ * Header names are matched loosely; every row that can't be mapped is reported in `issues`
+ * instead of being silently discarded.
+ * @param markdown The Markdown document containing the test case table.
+ */
+export const parseMarkdownTable = (markdown: string): TestCaseParseResult => {
+  const issues: TestCaseParseIssue[] = [];
+  const lines = markdown.trim().split('\n').map(line => line.trim()).filter(line => line.startsWith('|'));
+  if (lines.length < 2) {
+    return { testCases: [], issues: [{ row: 0, reason: 'No Markdown table found in the response.', content: markdown.slice(0, 200) }] };
+  }
+
+  const headers = splitRow(lines[0]).map(normalizeHeader);
+  const columnFor = {} as Record<Field, number>;
+  (Object.keys(HEADER_ALIASES) as Field[]).forEach(field => {
+    columnFor[field] = headers.findIndex(header => HEADER_ALIASES[field].includes(header));
+  });
+
+  const missingRequired = REQUIRED_FIELDS.filter(field => columnFor[field] === -1);
+  if (missingRequired.length > 0) {
+    return {
+      testCases: [],
+      issues: [{ row: 0, reason: `Table header is missing required column(s): ${missingRequired.join(', ')}.`, content: lines[0] }],
+    };
+  }
+
+  const testCases: GeneratedTestCase[] = [];
+  let row = 0;
+  lines.slice(1).forEach(line => {
+    if (SEPARATOR_ROW.test(line)) return;
+    row++;
+    const cells = splitRow(line);
+    if (cells.length !== headers.length) {
+      issues.push({ row, reason: `Row has ${cells.length} cells but the header has ${headers.length}.`, content: line });
+      return;
+    }
+    const missing = REQUIRED_FIELDS.filter(field => !cells[columnFor[field]]);
+    if (missing.length > 0) {
+      issues.push({ row, reason: `Missing required field(s): ${missing.join(', ')}.`, content: line });
+      return;
+    }
+    const testCase = { ...FIELD_DEFAULTS };
+    (Object.keys(FIELD_DEFAULTS) as Field[]).forEach(field => {
+      const column = columnFor[field];
+      testCase[field] = (column !== -1 && cells[column]) || FIELD_DEFAULTS[field];
+    });
+    if (testCase.id === FIELD_DEFAULTS.id) testCase.id = fallbackId(testCases.length);
+    testCases.push(testCase);
+  });
+
+  return { testCases, issues };
+};
+
+/**
+ * Extracts the complete objects from a `test_cases` array in a JSON response that is still
+ * streaming (or was cut off). Objects that haven't finished arriving are ignored.
+ * @param partialJson The response text received so far.
+ */
+export const parsePartialTestCases = (partialJson: string): GeneratedTestCase[] => {
+  const arrayStart = partialJson.search(/"test_cases"\s*:\s*\[/);
+  if (arrayStart === -1) return [];
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  for (let i = partialJson.indexOf('[', arrayStart) + 1; i < partialJson.length; i++) {
+    const char = partialJson[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        try {
+          items.push(JSON.parse(partialJson.slice(objectStart, i + 1)));
+        } catch {
+          // Malformed item; the final validation pass reports it.
+        }
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+  return parseStructuredTestCases(items).testCases;
+};
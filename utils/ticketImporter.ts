@@ -0,0 +1,355 @@
+// utils/ticketImporter.ts
+
+import type { TicketMapping, TicketSource, TicketTable } from '../types';
+import { decodeXml } from './documentImporter';
+import { extractStoryIds } from './traceability';
+
+/** File extensions of the issue tracker exports that can be imported as stories. */
+export const TICKET_EXTENSIONS = ['.csv', '.xml'];
+
+export const TICKET_SOURCE_LABELS: Record<TicketSource, string> = {
+  jira: 'Jira',
+  linear: 'Linear',
+  azureDevOps: 'Azure DevOps',
+  generic: 'CSV',
+};
+
+export const isTicketExport = (fileName: string): boolean =>
+  TICKET_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+export interface Ticket {
+  key: string; // The story ID, e.g. PROJ-123 or ADO-4567
+  title: string;
+  description: string; // Markdown
+  acceptanceCriteria: string[];
+  type?: string;
+  parent?: string;
+  fields: Array<{ name: string; value: string }>; // The mapped extra columns
+}
+
+export interface TicketImportResult {
+  tickets: Ticket[];
+  skippedRows: number[]; // 1-based rows of the export (the header is row 1) without a usable story ID
+}
+
+// --- Reading ---
+
+/** Parses CSV as written by Jira, Linear and Azure DevOps: quoted fields may hold commas, "" and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const getElement = (xml: string, tag: string): string | undefined =>
+  xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`))?.[1];
+
+// Jira escapes the HTML of rich text fields; some exports wrap it in CDATA instead.
+const readXmlText = (content: string | undefined): string => {
+  if (!content) return '';
+  const cdata = content.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  return (cdata ? cdata[1] : decodeXml(content)).trim();
+};
+
+/** Reads a Jira "XML" (RSS) export into the same columns as its CSV export. */
+const readJiraXml = (xml: string, fileName: string): TicketTable => {
+  const headers = ['Issue key', 'Summary', 'Description', 'Issue Type', 'Parent', 'Priority', 'Status', 'Labels'];
+  const items = Array.from(xml.matchAll(/<item\b[^>]*>([\s\S]*?)<\/item>/g), match => match[1]);
+  const records = items.map(item => {
+    const values = new Map<string, string>([
+      ['Issue key', readXmlText(getElement(item, 'key'))],
+      ['Summary', readXmlText(getElement(item, 'summary'))],
+      ['Description', readXmlText(getElement(item, 'description'))],
+      ['Issue Type', readXmlText(getElement(item, 'type'))],
+      ['Parent', readXmlText(getElement(item, 'parent'))],
+      ['Priority', readXmlText(getElement(item, 'priority'))],
+      ['Status', readXmlText(getElement(item, 'status'))],
+      ['Labels', Array.from((getElement(item, 'labels') || '').matchAll(/<label>([\s\S]*?)<\/label>/g), m => readXmlText(m[1])).join(', ')],
+    ]);
+    for (const field of item.matchAll(/<customfield\b[^>]*>([\s\S]*?)<\/customfield>/g)) {
+      const name = readXmlText(getElement(field[1], 'customfieldname'));
+      if (!name) continue;
+      if (!headers.includes(name)) headers.push(name);
+      values.set(name, Array.from(field[1].matchAll(/<customfieldvalue\b[^>]*>([\s\S]*?)<\/customfieldvalue>/g), m => readXmlText(m[1])).join('\n'));
+    }
+    return values;
+  });
+  if (records.length === 0) {
+    throw new Error(`No issues were found in "${fileName}". Export the issues from Jira as XML or CSV.`);
+  }
+  return { fileName, source: 'jira', headers, rows: records.map(values => headers.map(header => values.get(header) || '')) };
+};
+
+const detectSource = (headers: string[]): TicketSource => {
+  const has = (name: string) => headers.some(header => header.toLowerCase() === name);
+  if (has('issue key')) return 'jira';
+  if (has('work item type')) return 'azureDevOps';
+  if (has('parent issue') || (has('id') && has('title') && has('team'))) return 'linear';
+  return 'generic';
+};
+
+/**
+ * Reads an issue tracker export: Jira CSV or XML, Linear CSV, Azure DevOps CSV, or any CSV with
+ * one ticket per row.
+ * @param fileName Used for the format and in error messages.
+ * @param text The file contents.
+ * @returns The export as a table; throws when it holds no tickets.
+ */
+export const readTicketExport = (fileName: string, text: string): TicketTable => {
+  const content = text.replace(/^﻿/, '');
+  if (fileName.toLowerCase().endsWith('.xml') || content.trimStart().startsWith('<')) {
+    return readJiraXml(content, fileName);
+  }
+  const [headerRow, ...rows] = parseCsv(content);
+  if (!headerRow || rows.length === 0) {
+    throw new Error(`"${fileName}" has no tickets. Export the issues as CSV with a header row.`);
+  }
+  const headers = headerRow.map(header => header.trim());
+  return {
+    fileName,
+    source: detectSource(headers),
+    headers,
+    rows: rows.map(row => headers.map((_, i) => row[i] ?? '')),
+  };
+};
+
+// --- Mapping ---
+
+// Header names per field, most specific first. Custom fields appear in Jira CSVs as "Custom field (Name)".
+const FIELD_PATTERNS: Record<'key' | 'title' | 'description' | 'acceptanceCriteria' | 'type' | 'parent', RegExp[]> = {
+  key: [/^issue key$/, /^key$/, /^id$/, /^identifier$/, /^issue id$/],
+  title: [/^summary$/, /^title$/, /^title \d+$/, /^name$/],
+  description: [/^description$/],
+  acceptanceCriteria: [/acceptance criteria/, /^acs?$/],
+  type: [/^issue type$/, /^work item type$/, /^type$/],
+  parent: [/^parent key$/, /^parent issue$/, /^parent$/, /epic link/, /^parent id$/],
+};
+
+const findColumn = (headers: string[], patterns: RegExp[]): number => {
+  for (const pattern of patterns) {
+    const index = headers.findIndex(header => pattern.test(header.toLowerCase()));
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+/** Guesses which columns hold each story field from the export's header names. */
+export const suggestTicketMapping = (table: TicketTable): TicketMapping => ({
+  key: findColumn(table.headers, FIELD_PATTERNS.key),
+  title: findColumn(table.headers, FIELD_PATTERNS.title),
+  description: findColumn(table.headers, FIELD_PATTERNS.description),
+  acceptanceCriteria: findColumn(table.headers, FIELD_PATTERNS.acceptanceCriteria),
+  type: findColumn(table.headers, FIELD_PATTERNS.type),
+  parent: findColumn(table.headers, FIELD_PATTERNS.parent),
+  extraFields: [],
+  idPrefix: table.source === 'azureDevOps' ? 'ADO' : 'ID',
+  excludedTypes: [],
+});
+
+/** The distinct values of the mapped issue type column, in export order. */
+export const getTicketTypes = (table: TicketTable, mapping: TicketMapping): string[] =>
+  mapping.type === -1 ? [] : Array.from(new Set(table.rows.map(row => (row[mapping.type] || '').trim()).filter(Boolean)));
+
+// --- Conversion ---
+
+const HTML_PATTERN = /<\/?(p|div|br|ul|ol|li|h[1-6]|span|strong|b|em|table)\b[^>]*>/i;
+
+/** Converts rich text HTML (Azure DevOps fields, Jira XML) to Markdown lines, keeping list nesting. */
+const htmlToMarkdown = (html: string): string => {
+  let listDepth = 0;
+  const text = html
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/gi, (_, inner: string) => `<p>**${inner.replace(/<[^>]+>/g, '').trim()}**</p>`)
+    .replace(/<(\/?)([a-z][a-z0-9]*)\b[^>]*>/gi, (_, closing: string, tag: string) => {
+      const name = tag.toLowerCase();
+      if (name === 'ul' || name === 'ol') {
+        listDepth = Math.max(0, listDepth + (closing ? -1 : 1));
+        return '\n';
+      }
+      if (name === 'li') return closing ? '\n' : `\n${'  '.repeat(Math.max(0, listDepth - 1))}- `;
+      if (['br', 'p', 'div', 'tr', 'pre', 'blockquote', 'table'].includes(name)) return '\n';
+      if (name === 'td' || name === 'th') return closing ? ' ' : '';
+      return '';
+    });
+  return decodeXml(text.replace(/&nbsp;/g, ' '));
+};
+
+/** Converts Jira wiki markup (h2. headings, * and # lists, {code} blocks) to Markdown. */
+const jiraWikiToMarkdown = (text: string): string =>
+  text.split('\n').map(line => {
+    const heading = line.match(/^\s*h[1-6]\.\s+(.*)$/);
+    if (heading) return `**${heading[1].trim()}**`;
+    const bullet = line.match(/^\s*([*#-]+)\s+(.*)$/);
+    if (bullet) return `${'  '.repeat(bullet[1].length - 1)}- ${bullet[2]}`;
+    return line.replace(/\{(code|noformat|quote|panel)(:[^}]*)?\}/g, '');
+  }).join('\n');
+
+/**
+ * Converts a rich text field to Markdown that stays inside its story: headings become bold lines,
+ * since a heading would end the story's section of the PRD.
+ */
+const toMarkdown = (value: string, source: TicketSource): string => {
+  let text = value.replace(/\r\n?/g, '\n');
+  if (HTML_PATTERN.test(text)) text = htmlToMarkdown(text);
+  else if (source === 'jira') text = jiraWikiToMarkdown(text);
+  return text
+    .split('\n')
+    .map(line => {
+      const heading = line.match(/^\s*#{1,6}\s+(.*)$/);
+      if (heading) return `**${heading[1].trim()}**`;
+      const trimmed = line.trimEnd();
+      return /^\s*[-*+]\s/.test(trimmed) ? trimmed : trimmed.trimStart();
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const CRITERIA_HEADING_PATTERN = /^(\*\*|__)?\s*(acceptance criteria|acs?)\s*:?\s*(\*\*|__)?\s*:?$/i;
+const BOLD_LINE_PATTERN = /^(\*\*|__).+(\*\*|__):?$/;
+
+/** Moves an "Acceptance Criteria" section out of a description, up to the next bold heading. */
+const splitDescription = (description: string): { description: string; criteria: string } => {
+  const lines = description.split('\n');
+  const start = lines.findIndex(line => CRITERIA_HEADING_PATTERN.test(line.trim()));
+  if (start === -1) return { description, criteria: '' };
+  let end = lines.findIndex((line, i) => i > start && BOLD_LINE_PATTERN.test(line.trim()));
+  if (end === -1) end = lines.length;
+  return {
+    description: [...lines.slice(0, start), ...lines.slice(end)].join('\n').trim(),
+    criteria: lines.slice(start + 1, end).join('\n'),
+  };
+};
+
+// Gherkin steps after the first one belong to the same criterion, even when each is a bullet.
+const CONTINUATION_PATTERN = /^(and|but|when|then)\b/i;
+
+/**
+ * Splits an acceptance criteria field into one criterion per bullet or line. Tracker-local IDs
+ * (AC1, AC-2) are dropped because they repeat across tickets; criteria get IDs from their story.
+ */
+const splitCriteria = (text: string): string[] => {
+  const criteria: string[] = [];
+  for (const line of text.split('\n')) {
+    const bullet = line.match(/^(\s*)(?:[-*+•]|\d+[.)])\s+(.*)$/);
+    const content = (bullet ? bullet[2] : line).trim().replace(/^\[?AC[-\s]?\d+(?:\.\d+)?\]?\s*[:.\-–—]?\s*/i, '');
+    if (!content) continue;
+    const last = criteria.length - 1;
+    const nested = bullet !== null && bullet[1].length > 0;
+    const afterScenario = /^given\b/i.test(content) && last >= 0 && /^(\*\*)?scenario\b/i.test(criteria[last]) && !criteria[last].includes('\n');
+    if (last >= 0 && (nested || CONTINUATION_PATTERN.test(content) || afterScenario)) {
+      criteria[last] += `\n${content}`;
+    } else {
+      criteria.push(content);
+    }
+  }
+  return criteria;
+};
+
+/** Turns a tracker ID into a story ID: numeric IDs get the prefix, others are uppercased. */
+const toStoryId = (value: string, idPrefix: string): string | null => {
+  const key = /^\d+$/.test(value) ? `${idPrefix.toUpperCase()}-${value}` : value.toUpperCase();
+  return extractStoryIds(key)[0] === key ? key : null;
+};
+
+/**
+ * Converts the rows of an export into stories using the column mapping.
+ * @returns The tickets in export order; rows whose ID is missing, unusable or repeated are skipped.
+ */
+export const ticketsFromTable = (table: TicketTable, mapping: TicketMapping): TicketImportResult => {
+  const cell = (row: string[], column: number) => (column >= 0 ? (row[column] || '').trim() : '');
+  const excluded = mapping.excludedTypes.map(type => type.toLowerCase());
+  // Azure DevOps tree queries put each level's title in its own "Title N" column.
+  const titleColumns = /^title \d+$/i.test(table.headers[mapping.title] || '')
+    ? table.headers.flatMap((header, i) => (/^title \d+$/i.test(header) ? [i] : []))
+    : [mapping.title];
+  // Jira CSVs reference the parent by its internal "Issue id"; resolve that to the parent's key.
+  const issueIdColumn = table.headers.findIndex(header => /^issue id$/i.test(header));
+  const keysByIssueId = new Map(issueIdColumn === -1 ? [] : table.rows.map(row => [cell(row, issueIdColumn), cell(row, mapping.key)]));
+
+  const tickets: Ticket[] = [];
+  const skippedRows: number[] = [];
+  const seen = new Set<string>();
+  table.rows.forEach((row, index) => {
+    const type = cell(row, mapping.type);
+    if (type && excluded.includes(type.toLowerCase())) return;
+    const key = toStoryId(cell(row, mapping.key), mapping.idPrefix);
+    if (!key || seen.has(key)) {
+      skippedRows.push(index + 2);
+      return;
+    }
+    seen.add(key);
+
+    const rawParent = cell(row, mapping.parent);
+    const parent = keysByIssueId.get(rawParent) || (rawParent && (toStoryId(rawParent, mapping.idPrefix) ?? rawParent));
+    const { description, criteria } = splitDescription(toMarkdown(cell(row, mapping.description), table.source));
+    const acceptanceCriteria = [
+      ...splitCriteria(toMarkdown(cell(row, mapping.acceptanceCriteria), table.source)),
+      ...splitCriteria(criteria),
+    ].filter((criterion, i, all) => all.indexOf(criterion) === i);
+
+    tickets.push({
+      key,
+      title: titleColumns.map(column => cell(row, column)).find(Boolean) || '',
+      description,
+      acceptanceCriteria,
+      ...(type && { type }),
+      ...(parent && { parent }),
+      fields: mapping.extraFields
+        .map(column => ({ name: table.headers[column], value: cell(row, column).replace(/\s*\n\s*/g, ' ') }))
+        .filter(field => field.name && field.value),
+    });
+  });
+  return { tickets, skippedRows };
+};
+
+/**
+ * Writes tickets as PRD text: a "Source" heading for the export, then one `## KEY: Title` story
+ * per ticket with its criteria listed below, so the parser keeps the tracker keys as story IDs.
+ */
+export const ticketsToPrd = (tickets: Ticket[], table: Pick<TicketTable, 'fileName' | 'source'>): string => {
+  const stories = tickets.map(ticket => {
+    const lines = [`## ${ticket.key}: ${ticket.title || '(untitled)'}`];
+    const details = [ticket.type && `Type: ${ticket.type}`, ticket.parent && `Parent: ${ticket.parent}`].filter(Boolean);
+    if (details.length > 0) lines.push(details.join(' · '));
+    ticket.fields.forEach(field => lines.push(`${field.name}: ${field.value}`));
+    if (ticket.description) lines.push('', ticket.description);
+    if (ticket.acceptanceCriteria.length > 0) {
+      lines.push('', 'Acceptance Criteria:', ...ticket.acceptanceCriteria.map(criterion => `- ${criterion.replace(/\n/g, '\n  ')}`));
+    }
+    return lines.join('\n');
+  });
+  return `# Source: ${table.fileName} (${TICKET_SOURCE_LABELS[table.source]})\n\n${stories.join('\n\n')}`;
+};
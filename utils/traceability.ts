@@ -0,0 +1,82 @@
+// utils/traceability.ts
+
+import type { AnalysisFinding, RequirementModel, TestCase, TraceabilityMatrix, TraceabilityEntry, UnknownStoryReference } from '../types';
+
+// Issue-key shaped IDs (US-101, PROJ-42). AC-/TC- keys are acceptance criteria and test cases, and
+// the rest are common technical terms (UTF-8, ISO-8601) rather than stories.
+const NON_STORY_PREFIXES = ['AC', 'TC', 'UTF', 'ISO', 'SHA', 'RFC', 'ES', 'IPV'];
+const STORY_ID_PATTERN = new RegExp(`\\b(?!(?:${NON_STORY_PREFIXES.join('|')})-)[A-Z][A-Z0-9]{1,9}-\\d+\\b`, 'g');
+
+/**
+ * Extracts every story ID mentioned in a piece of text, in order of first appearance.
+ * @param text PRD text, a finding's story reference, or a test case's Story ID cell.
+ */
+export const extractStoryIds = (text: string): string[] => {
+  const ids = (text || '').toUpperCase().match(STORY_ID_PATTERN) || [];
+  return Array.from(new Set(ids));
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Extracts the story IDs in a piece of text like extractStoryIds(), plus the known IDs that are not
+ * issue-key shaped (API operationIds such as `getPetById`) where they appear as a whole word.
+ * @param text A test case's Story ID cell or a finding's story reference.
+ * @param knownIds The IDs from collectKnownStoryIds().
+ */
+export const extractReferencedIds = (text: string, knownIds: string[]): string[] => {
+  const ids = extractStoryIds(text);
+  knownIds.forEach(id => {
+    if (extractStoryIds(id)[0] === id) return;
+    if (new RegExp(`(?<![\\w.-])${escapeRegExp(id)}(?![\\w.-])`, 'i').test(text || '')) ids.push(id);
+  });
+  return Array.from(new Set(ids));
+};
+
+/**
+ * Collects the story IDs the plan is expected to cover: the stories detected in the PRD, the
+ * operationIds of an API specification, and those the analysis attributed findings to.
+ */
+export const collectKnownStoryIds = (requirements: RequirementModel, findings: AnalysisFinding[] = [], operationIds: string[] = []): string[] => {
+  const ids = new Set([...requirements.requirements.filter(r => r.kind === 'story').map(r => r.id), ...operationIds]);
+  findings.forEach(finding => {
+    extractStoryIds(finding.source_story_id || '').forEach(id => ids.add(id));
+  });
+  return Array.from(ids);
+};
+
+/**
+ * Builds the requirement-to-test-case matrix locally and reports coverage gaps.
+ * Every known story gets an entry, even with zero covering tests. When no story IDs are
+ * known (e.g. screenshots only), referenced IDs are trusted, test cases without one are left out
+ * of the matrix and nothing is flagged as unknown.
+ * @param testCases The generated test cases.
+ * @param knownStoryIds The story IDs from collectKnownStoryIds().
+ */
+export const buildTraceabilityMatrix = (testCases: TestCase[], knownStoryIds: string[]): TraceabilityMatrix => {
+  const coverage = new Map<string, string[]>(knownStoryIds.map(id => [id, []]));
+  const unknownReferences: UnknownStoryReference[] = [];
+  const validateReferences = knownStoryIds.length > 0;
+
+  testCases.forEach(tc => {
+    const referenced = extractReferencedIds(tc.storyId, knownStoryIds);
+    if (referenced.length === 0) {
+      if (validateReferences) unknownReferences.push({ test_case_id: tc.id, story_id: tc.storyId || '' });
+      return;
+    }
+    referenced.forEach(storyId => {
+      if (validateReferences && !coverage.has(storyId)) {
+        unknownReferences.push({ test_case_id: tc.id, story_id: storyId });
+        return;
+      }
+      coverage.set(storyId, [...(coverage.get(storyId) || []), tc.id]);
+    });
+  });
+
+  const matrix: TraceabilityEntry[] = Array.from(coverage, ([story_id, test_case_ids]) => ({ story_id, test_case_ids }));
+  return {
+    matrix,
+    uncovered_story_ids: matrix.filter(entry => entry.test_case_ids.length === 0).map(entry => entry.story_id),
+    unknown_story_references: unknownReferences,
+  };
+};
@@ -1,81 +1,91 @@
 // utils/videoProcessor.ts
 
-const NUM_FRAMES = 5; // Number of frames to extract from the video
+import type { VideoFrameOptions } from '../types';
+import { SIGNATURE_SIZE, getSampleTimes, getVideoFrameOptions, selectKeyframes } from './sceneDetection';
+import type { FrameSample } from './sceneDetection';
 
-/**
- * Extracts a specified number of frames from a video file.
- * @param videoFile The video file to process.
- * @returns A promise that resolves with an array of base64-encoded image data URLs (JPEGs).
- */
-export const extractFramesFromVideo = (videoFile: File): Promise<string[]> => {
+export interface ExtractedFrames {
+  frames: string[]; // Base64-encoded JPEG data URLs
+  frameTimes: number[]; // Seconds into the video for each frame
+}
+
+const loadVideo = (videoFile: File): Promise<{ video: HTMLVideoElement; release: () => void }> => {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    const frames: string[] = [];
-
-    if (!context) {
-      return reject(new Error('Canvas 2D context is not available.'));
-    }
-
-    video.preload = 'metadata';
     const videoUrl = URL.createObjectURL(videoFile);
-    video.src = videoUrl;
-
+    const release = () => URL.revokeObjectURL(videoUrl);
+    video.preload = 'auto';
+    video.muted = true;
     video.onloadedmetadata = () => {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      video.muted = true; // Necessary for autoplay to work in some browsers
-
-      const duration = video.duration;
-      if (duration === 0 || !isFinite(duration)) {
-          URL.revokeObjectURL(videoUrl);
-          return reject(new Error("Video has no duration or is invalid."));
+      if (video.duration === 0 || !isFinite(video.duration)) {
+        release();
+        reject(new Error('Video has no duration or is invalid.'));
+        return;
       }
-      
-      const interval = duration / (NUM_FRAMES + 1);
-      let currentTime = interval;
-      let framesExtracted = 0;
-
-      const seekNext = () => {
-        if (framesExtracted >= NUM_FRAMES || currentTime >= duration) {
-          URL.revokeObjectURL(videoUrl); // Clean up
-          resolve(frames);
-          return;
-        }
-        video.currentTime = currentTime;
-      };
-
-      video.onseeked = async () => {
-        try {
-            // A small delay might be needed for the frame to be fully rendered
-            await new Promise(r => setTimeout(r, 200)); 
-            
-            context.drawImage(video, 0, 0, canvas.width, canvas.height);
-            const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-            frames.push(dataUrl);
-
-            framesExtracted++;
-            currentTime += interval;
-            seekNext();
-        } catch (e) {
-            URL.revokeObjectURL(videoUrl);
-            reject(new Error(`Failed to draw video frame on canvas: ${e}`));
-        }
-      };
-      
-      video.onerror = (e) => {
-        URL.revokeObjectURL(videoUrl);
-        reject(new Error('Error loading video file. It may be corrupt or in an unsupported format.'));
-      };
-      
-      // Start the process
-      video.play().then(seekNext).catch(e => {
-          // If autoplay fails, we can try seeking directly.
-          seekNext();
-      });
+      resolve({ video, release });
+    };
+    video.onerror = () => {
+      release();
+      reject(new Error('Error loading video file. It may be corrupt or in an unsupported format.'));
     };
-    
+    video.src = videoUrl;
     video.load();
   });
 };
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error(`Failed to seek the video to ${time.toFixed(1)}s.`));
+    video.currentTime = time;
+  });
+};
+
+/**
+ * Extracts keyframes at the video's scene changes. Frames are sampled at small size and compared
+ * (see utils/sceneDetection.ts); only the selected ones are then drawn at up to `maxDimension`.
+ * @param videoFile The video file to process.
+ * @param options Frame limits, size and scene threshold; defaults to getVideoFrameOptions().
+ * @returns The JPEG frames in chronological order, with their timestamps.
+ */
+export const extractFramesFromVideo = async (videoFile: File, options: VideoFrameOptions = getVideoFrameOptions()): Promise<ExtractedFrames> => {
+  const { video, release } = await loadVideo(videoFile);
+  try {
+    const sampleCanvas = document.createElement('canvas');
+    sampleCanvas.width = SIGNATURE_SIZE;
+    sampleCanvas.height = SIGNATURE_SIZE;
+    const sampleContext = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    const frameCanvas = document.createElement('canvas');
+    const frameContext = frameCanvas.getContext('2d');
+    if (!sampleContext || !frameContext) {
+      throw new Error('Canvas 2D context is not available.');
+    }
+
+    const samples: FrameSample[] = [];
+    for (const time of getSampleTimes(video.duration)) {
+      await seekTo(video, time);
+      sampleContext.drawImage(video, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+      const { data } = sampleContext.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+      const signature = new Uint8Array(SIGNATURE_SIZE * SIGNATURE_SIZE);
+      for (let i = 0; i < signature.length; i++) {
+        signature[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+      }
+      samples.push({ time, signature });
+    }
+
+    const scale = Math.min(1, options.maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    frameCanvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+    frameCanvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+    const result: ExtractedFrames = { frames: [], frameTimes: [] };
+    for (const index of selectKeyframes(samples, options)) {
+      const { time } = samples[index];
+      await seekTo(video, time);
+      frameContext.drawImage(video, 0, 0, frameCanvas.width, frameCanvas.height);
+      result.frames.push(frameCanvas.toDataURL('image/jpeg', 0.8));
+      result.frameTimes.push(time);
+    }
+    return result;
+  } finally {
+    release();
+  }
+};
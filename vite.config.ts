@@ -1,12 +1,37 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // With a backend proxy the browser bundle talks to it and never embeds a key.
+    const useProxy = Boolean(env.LLM_PROXY_URL);
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The proxy server (npm run server) reads its configuration from process.env at runtime.
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(useProxy ? undefined : env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(useProxy ? undefined : env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(useProxy ? 'proxy' : env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(useProxy ? undefined : env.LLM_MODEL),
+        'process.env.LLM_PROXY_URL': JSON.stringify(env.LLM_PROXY_URL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(useProxy ? undefined : env.OPENAI_API_KEY),
+        'process.env.PAYLOAD_MAX_TOKENS': JSON.stringify(env.PAYLOAD_MAX_TOKENS),
+        'process.env.PAYLOAD_MAX_BYTES': JSON.stringify(env.PAYLOAD_MAX_BYTES),
+        'process.env.IMAGE_MAX_DIMENSION': JSON.stringify(env.IMAGE_MAX_DIMENSION),
+        'process.env.IMAGE_FORMAT': JSON.stringify(env.IMAGE_FORMAT),
+        'process.env.IMAGE_QUALITY': JSON.stringify(env.IMAGE_QUALITY),
+        'process.env.IMAGE_SPLIT_ASPECT_RATIO': JSON.stringify(env.IMAGE_SPLIT_ASPECT_RATIO),
+        'process.env.VIDEO_MIN_FRAMES': JSON.stringify(env.VIDEO_MIN_FRAMES),
+        'process.env.VIDEO_MAX_FRAMES': JSON.stringify(env.VIDEO_MAX_FRAMES),
+        'process.env.VIDEO_FRAME_MAX_DIMENSION': JSON.stringify(env.VIDEO_FRAME_MAX_DIMENSION),
+        'process.env.VIDEO_SCENE_THRESHOLD': JSON.stringify(env.VIDEO_SCENE_THRESHOLD),
+        'process.env.PRD_LINT_RULES': JSON.stringify(env.PRD_LINT_RULES),
+        'process.env.PRD_LINT_VAGUE_TERMS': JSON.stringify(env.PRD_LINT_VAGUE_TERMS)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        }
       },
       resolve: {
         alias: {